@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."PublishedPost" ALTER COLUMN "platformPostId" DROP NOT NULL;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."PublishedPost" ADD COLUMN     "threadPostIds" TEXT[] DEFAULT ARRAY[]::TEXT[];
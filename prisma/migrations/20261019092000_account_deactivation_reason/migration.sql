@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."SocialAccount" ADD COLUMN     "deactivatedAt" TIMESTAMP(3),
+ADD COLUMN     "deactivatedReason" TEXT;
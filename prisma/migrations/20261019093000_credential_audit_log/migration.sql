@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "public"."CredentialAuditLog" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "socialAccountId" TEXT,
+    "userId" TEXT,
+    "action" TEXT NOT NULL,
+    "platform" TEXT,
+    "details" TEXT,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CredentialAuditLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CredentialAuditLog_workspaceId_createdAt_idx" ON "public"."CredentialAuditLog"("workspaceId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "CredentialAuditLog_socialAccountId_createdAt_idx" ON "public"."CredentialAuditLog"("socialAccountId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "CredentialAuditLog_createdAt_idx" ON "public"."CredentialAuditLog"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."CredentialAuditLog" ADD CONSTRAINT "CredentialAuditLog_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "public"."Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."CredentialAuditLog" ADD CONSTRAINT "CredentialAuditLog_socialAccountId_fkey" FOREIGN KEY ("socialAccountId") REFERENCES "public"."SocialAccount"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."CredentialAuditLog" ADD CONSTRAINT "CredentialAuditLog_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "public"."OAuthSession" (
+    "key" TEXT NOT NULL,
+    "data" JSONB NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OAuthSession_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "OAuthSession_expiresAt_idx" ON "public"."OAuthSession"("expiresAt");
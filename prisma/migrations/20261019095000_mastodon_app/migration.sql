@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "public"."MastodonApp" (
+    "id" TEXT NOT NULL,
+    "instanceUrl" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "encryptedClientSecret" TEXT NOT NULL,
+    "redirectUri" TEXT NOT NULL,
+    "scopes" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MastodonApp_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MastodonApp_instanceUrl_key" ON "public"."MastodonApp"("instanceUrl");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."PublishedPost" ADD COLUMN     "deliveryResult" JSONB;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "public"."PublishedPost" ADD COLUMN     "metricsDueAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "PublishedPost_status_metricsDueAt_idx" ON "public"."PublishedPost"("status", "metricsDueAt");
+
+-- Start collecting for posts published within the last 30 days
+UPDATE "public"."PublishedPost"
+SET "metricsDueAt" = CURRENT_TIMESTAMP
+WHERE "status" = 'published'
+  AND "platformPostId" IS NOT NULL
+  AND "publishedAt" > CURRENT_TIMESTAMP - INTERVAL '30 days';
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "public"."CampaignContent" (
+    "campaignId" TEXT NOT NULL,
+    "contentId" TEXT NOT NULL,
+    "addedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CampaignContent_pkey" PRIMARY KEY ("campaignId","contentId")
+);
+
+-- CreateIndex
+CREATE INDEX "CampaignContent_contentId_idx" ON "public"."CampaignContent"("contentId");
+
+-- AddForeignKey
+ALTER TABLE "public"."CampaignContent" ADD CONSTRAINT "CampaignContent_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "public"."Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."CampaignContent" ADD CONSTRAINT "CampaignContent_contentId_fkey" FOREIGN KEY ("contentId") REFERENCES "public"."Content"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- DropIndex
+DROP INDEX "public"."MastodonApp_instanceUrl_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MastodonApp_instanceUrl_redirectUri_key" ON "public"."MastodonApp"("instanceUrl", "redirectUri");
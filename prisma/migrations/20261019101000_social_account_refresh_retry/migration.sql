@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."SocialAccount" ADD COLUMN     "refreshRetryAt" TIMESTAMP(3);
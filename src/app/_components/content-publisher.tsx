@@ -0,0 +1,275 @@
+"use client";
+
+import { useState } from "react";
+import { api } from "@/trpc/react";
+import { type SocialPlatform } from "@/server/services/auth/base-auth-provider";
+import { getTextLength, platformRules } from "@/server/services/publishing/content-transformer";
+import { buildThread } from "@/server/services/publishing/thread-builder";
+
+interface ContentPublisherProps {
+  workspaceId: string;
+  contentId: string;
+  onDone?: () => void;
+}
+
+export function ContentPublisher({ workspaceId, contentId, onDone }: ContentPublisherProps) {
+  const [selectedAccountIds, setSelectedAccountIds] = useState<string[]>([]);
+  const [editedText, setEditedText] = useState<Record<string, string>>({});
+  const [scheduledFor, setScheduledFor] = useState("");
+  const [splitThreads, setSplitThreads] = useState(true);
+  const [numberThreads, setNumberThreads] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: accounts, isLoading } = api.credential.getWorkspaceAccounts.useQuery({ workspaceId });
+
+  const transform = { splitThreads, numberThreads };
+
+  const { data: previews, isFetching: isPreviewing } = api.publishing.previewVariants.useQuery(
+    { workspaceId, contentId, accountIds: selectedAccountIds, transform },
+    { enabled: selectedAccountIds.length > 0 }
+  );
+
+  const publishNow = api.publishing.publishNow.useMutation({
+    onSuccess: () => onDone?.(),
+    onError: (error) => setError(error.message)
+  });
+
+  const schedule = api.publishing.schedule.useMutation({
+    onSuccess: () => onDone?.(),
+    onError: (error) => setError(error.message)
+  });
+
+  const toggleAccount = (accountId: string) => {
+    setSelectedAccountIds(prev =>
+      prev.includes(accountId) ? prev.filter(id => id !== accountId) : [...prev, accountId]
+    );
+  };
+
+  // Only send the variants the user actually changed; the rest are regenerated server-side
+  const getVariantOverrides = () =>
+    (previews ?? [])
+      .filter(preview => {
+        const text = editedText[preview.socialAccountId];
+        return text !== undefined && text !== preview.content.text;
+      })
+      .map(preview => ({
+        socialAccountId: preview.socialAccountId,
+        text: editedText[preview.socialAccountId]!,
+      }));
+
+  const handlePublishNow = async () => {
+    setError(null);
+    await publishNow.mutateAsync({
+      workspaceId,
+      contentId,
+      accountIds: selectedAccountIds,
+      variants: getVariantOverrides(),
+      transform
+    });
+  };
+
+  const handleSchedule = async () => {
+    setError(null);
+    await schedule.mutateAsync({
+      workspaceId,
+      contentId,
+      accountIds: selectedAccountIds,
+      scheduledFor: new Date(scheduledFor),
+      variants: getVariantOverrides(),
+      transform
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-6 bg-gray-200 rounded w-1/4"></div>
+          <div className="h-32 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  const isSubmitting = publishNow.isPending || schedule.isPending;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Publish Content</h2>
+        <p className="text-gray-600 mt-1">
+          Each account gets a version tailored to its platform. Review and edit them before they go out.
+        </p>
+      </div>
+
+      {/* Account Selection */}
+      <div className="bg-white rounded-lg border border-gray-200 p-4">
+        <h3 className="text-lg font-medium text-gray-900 mb-3">Accounts</h3>
+        {accounts && accounts.length > 0 ? (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {accounts.map((account) => (
+              <label key={account.id} className="flex items-center space-x-3 p-2 rounded hover:bg-gray-50">
+                <input
+                  type="checkbox"
+                  checked={selectedAccountIds.includes(account.id)}
+                  onChange={() => toggleAccount(account.id)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                />
+                <span className="text-sm text-gray-900">{account.displayName}</span>
+                <span className="text-xs text-gray-500">{account.platform}</span>
+              </label>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-600">Connect a social account before publishing.</p>
+        )}
+
+        <div className="flex flex-wrap gap-4 mt-4 pt-4 border-t border-gray-200">
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={splitThreads}
+              onChange={(e) => setSplitThreads(e.target.checked)}
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+            />
+            <span>Split long posts into threads</span>
+          </label>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={numberThreads}
+              disabled={!splitThreads}
+              onChange={(e) => setNumberThreads(e.target.checked)}
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+            />
+            <span>Number thread posts (1/n)</span>
+          </label>
+        </div>
+      </div>
+
+      {/* Variants */}
+      {isPreviewing && !previews && (
+        <div className="animate-pulse h-32 bg-gray-200 rounded"></div>
+      )}
+
+      {selectedAccountIds.length > 0 && previews?.map((preview) => {
+        const platform = preview.platform as SocialPlatform;
+        const text = editedText[preview.socialAccountId] ?? preview.content.text;
+        const characterCount = getTextLength(text, platform);
+        const isEdited = text !== preview.content.text;
+        const rules = platformRules[platform];
+
+        // Mirror the server's re-split of edited text so the parts shown match what will post
+        const thread = isEdited
+          ? (splitThreads && rules.supportsThreads
+            ? buildThread(text, { platform, maxLength: rules.maxLength, numbering: numberThreads })
+            : [])
+          : (preview.content.thread ?? []);
+
+        return (
+          <div key={preview.socialAccountId} className="bg-white rounded-lg border border-gray-200 p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="font-medium text-gray-900">
+                {preview.displayName} <span className="text-sm text-gray-500">• {preview.platform}</span>
+              </h4>
+              {isEdited && (
+                <button
+                  type="button"
+                  onClick={() => setEditedText(prev => {
+                    const { [preview.socialAccountId]: _removed, ...rest } = prev;
+                    return rest;
+                  })}
+                  className="text-sm text-blue-600 hover:text-blue-800"
+                >
+                  Reset
+                </button>
+              )}
+            </div>
+
+            <textarea
+              value={text}
+              onChange={(e) => setEditedText(prev => ({ ...prev, [preview.socialAccountId]: e.target.value }))}
+              rows={Math.min(12, Math.max(4, text.split("\n").length + 1))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            />
+
+            {thread.length > 1 && (
+              <ol className="space-y-2">
+                {thread.map((part) => (
+                  <li key={part} className="bg-gray-50 border border-gray-200 rounded-md p-2 text-sm text-gray-800 whitespace-pre-wrap">
+                    {part}
+                    <span className="block text-xs text-gray-500 mt-1">
+                      {getTextLength(part, platform)} / {preview.characterLimit}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            )}
+
+            <div className="flex items-center justify-between text-xs">
+              {thread.length > 1 ? (
+                <span className="text-gray-500">Thread of {thread.length} posts</span>
+              ) : (
+                <span className={characterCount > preview.characterLimit ? "text-red-600" : "text-gray-500"}>
+                  {characterCount} / {preview.characterLimit} characters
+                </span>
+              )}
+              <span className="text-gray-500">
+                {preview.content.mediaAssets.length} media
+                {preview.content.link && <> • Link preview: {preview.content.link}</>}
+              </span>
+            </div>
+
+            {preview.warnings.length > 0 && (
+              <ul className="bg-yellow-50 border border-yellow-200 rounded-lg p-2 text-sm text-yellow-800 list-disc list-inside">
+                {preview.warnings.map(warning => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            )}
+
+            {!isEdited && !preview.validation.isValid && (
+              <ul className="bg-red-50 border border-red-200 rounded-lg p-2 text-sm text-red-800 list-disc list-inside">
+                {preview.validation.errors.map(validationError => (
+                  <li key={validationError}>{validationError}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {/* Actions */}
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={handlePublishNow}
+          disabled={selectedAccountIds.length === 0 || isSubmitting}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {publishNow.isPending ? "Publishing..." : "Publish Now"}
+        </button>
+        <input
+          type="datetime-local"
+          value={scheduledFor}
+          onChange={(e) => setScheduledFor(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+        />
+        <button
+          type="button"
+          onClick={handleSchedule}
+          disabled={selectedAccountIds.length === 0 || !scheduledFor || isSubmitting}
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50"
+        >
+          {schedule.isPending ? "Scheduling..." : "Schedule"}
+        </button>
+      </div>
+    </div>
+  );
+}
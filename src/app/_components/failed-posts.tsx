@@ -0,0 +1,132 @@
+"use client";
+
+import { useState } from "react";
+import { api } from "@/trpc/react";
+
+interface FailedPostsProps {
+  workspaceId: string;
+}
+
+const PAGE_SIZE = 20;
+
+export function FailedPosts({ workspaceId }: FailedPostsProps) {
+  const [offset, setOffset] = useState(0);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  const utils = api.useUtils();
+
+  const { data, isLoading } = api.publishing.getFailedPosts.useQuery({
+    workspaceId,
+    limit: PAGE_SIZE,
+    offset,
+  });
+
+  const retryPost = api.publishing.retry.useMutation({
+    onSuccess: () => {
+      utils.publishing.getFailedPosts.invalidate({ workspaceId });
+    },
+    onError: (error) => {
+      console.error("Failed to requeue post:", error);
+    },
+    onSettled: () => {
+      setRetryingId(null);
+    }
+  });
+
+  const handleRetry = async (publishedPostId: string) => {
+    setRetryingId(publishedPostId);
+    await retryPost.mutateAsync({ workspaceId, publishedPostId });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-6 bg-gray-200 rounded w-1/4"></div>
+          <div className="space-y-3">
+            {[1, 2, 3].map(i => (
+              <div key={i} className="h-20 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const posts = data?.posts ?? [];
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Failed Posts</h2>
+        <p className="text-gray-600 mt-1">
+          Posts that were rejected by the platform or ran out of retries. Fix the cause, then requeue them.
+        </p>
+      </div>
+
+      {posts.length > 0 ? (
+        <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-200">
+          {posts.map((post) => (
+            <div key={post.id} className="p-4 flex items-start justify-between">
+              <div className="flex-1 min-w-0">
+                <h4 className="font-medium text-gray-900 truncate">{post.content.title}</h4>
+                <p className="text-sm text-gray-600">
+                  {post.socialAccount.displayName} • {post.platform} •
+                  Failed {new Date(post.updatedAt).toLocaleString()}
+                </p>
+                {!post.socialAccount.isActive && (
+                  <p className="text-xs text-orange-700 mt-1">
+                    This account is disconnected. Reconnect it before requeueing.
+                  </p>
+                )}
+                {post.errorMessage && (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-2 mt-2">
+                    <p className="text-sm text-red-800 break-words">{post.errorMessage}</p>
+                  </div>
+                )}
+              </div>
+              <button
+                type="button"
+                onClick={() => handleRetry(post.id)}
+                disabled={retryingId === post.id}
+                className="ml-4 px-3 py-1.5 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {retryingId === post.id ? "Requeueing..." : "Requeue"}
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="p-12 text-center bg-white rounded-lg border border-gray-200">
+          <div className="text-4xl mb-4">✅</div>
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No failed posts</h3>
+          <p className="text-gray-600">Everything you published went out successfully.</p>
+        </div>
+      )}
+
+      {data && data.total > PAGE_SIZE && (
+        <div className="flex items-center justify-between">
+          <button
+            type="button"
+            onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+            disabled={offset === 0}
+            className="px-3 py-1.5 border border-gray-300 rounded-md text-sm disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span className="text-sm text-gray-600">
+            {offset + 1}–{Math.min(offset + PAGE_SIZE, data.total)} of {data.total}
+          </span>
+          <button
+            type="button"
+            onClick={() => setOffset(offset + PAGE_SIZE)}
+            disabled={!data.hasMore}
+            className="px-3 py-1.5 border border-gray-300 rounded-md text-sm disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
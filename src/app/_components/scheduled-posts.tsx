@@ -0,0 +1,292 @@
+"use client";
+
+import { useState } from "react";
+import { api } from "@/trpc/react";
+
+interface ScheduledPostsProps {
+  workspaceId: string;
+}
+
+type EditMode = "text" | "time" | "account";
+
+const PAGE_SIZE = 20;
+
+// Format a date for a datetime-local input in the browser's timezone
+const toLocalInputValue = (date: Date) => {
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+export function ScheduledPosts({ workspaceId }: ScheduledPostsProps) {
+  const [accountFilter, setAccountFilter] = useState<string>("");
+  const [offset, setOffset] = useState(0);
+  const [editing, setEditing] = useState<{ postId: string; mode: EditMode; value: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const utils = api.useUtils();
+
+  const { data: accounts } = api.credential.getWorkspaceAccounts.useQuery({ workspaceId });
+
+  const { data, isLoading } = api.publishing.getUpcoming.useQuery({
+    workspaceId,
+    socialAccountId: accountFilter || undefined,
+    limit: PAGE_SIZE,
+    offset,
+  });
+
+  const mutationOptions = {
+    onSuccess: () => {
+      setEditing(null);
+      setError(null);
+      utils.publishing.getUpcoming.invalidate({ workspaceId });
+    },
+    onError: (error: { message: string }) => {
+      setError(error.message);
+      utils.publishing.getUpcoming.invalidate({ workspaceId });
+    }
+  };
+
+  const reschedule = api.publishing.reschedule.useMutation(mutationOptions);
+  const changeAccount = api.publishing.changeAccount.useMutation(mutationOptions);
+  const updateVariant = api.publishing.updateVariant.useMutation(mutationOptions);
+  const cancelPost = api.publishing.cancel.useMutation(mutationOptions);
+
+  const isSaving = reschedule.isPending || changeAccount.isPending || updateVariant.isPending;
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    switch (editing.mode) {
+      case "text":
+        await updateVariant.mutateAsync({
+          workspaceId,
+          publishedPostId: editing.postId,
+          variant: { text: editing.value }
+        });
+        break;
+      case "time":
+        await reschedule.mutateAsync({
+          workspaceId,
+          publishedPostId: editing.postId,
+          scheduledFor: new Date(editing.value)
+        });
+        break;
+      case "account":
+        await changeAccount.mutateAsync({
+          workspaceId,
+          publishedPostId: editing.postId,
+          socialAccountId: editing.value
+        });
+        break;
+    }
+  };
+
+  const handleCancel = async (publishedPostId: string) => {
+    if (confirm("Cancel this scheduled post? It will not be published.")) {
+      await cancelPost.mutateAsync({ workspaceId, publishedPostId });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-6 bg-gray-200 rounded w-1/4"></div>
+          <div className="space-y-3">
+            {[1, 2, 3].map(i => (
+              <div key={i} className="h-20 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const posts = data?.posts ?? [];
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Scheduled Posts</h2>
+          <p className="text-gray-600 mt-1">Posts waiting to go out, soonest first</p>
+        </div>
+        <select
+          value={accountFilter}
+          onChange={(e) => {
+            setAccountFilter(e.target.value);
+            setOffset(0);
+          }}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+        >
+          <option value="">All accounts</option>
+          {accounts?.map(account => (
+            <option key={account.id} value={account.id}>
+              {account.displayName} ({account.platform})
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {posts.length > 0 ? (
+        <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-200">
+          {posts.map((post) => {
+            const variant = post.platformOptimizedContent as { text?: string; thread?: string[] };
+            const isEditing = editing?.postId === post.id;
+
+            return (
+              <div key={post.id} className="p-4 space-y-3">
+                <div className="flex items-start justify-between">
+                  <div className="flex-1 min-w-0">
+                    <h4 className="font-medium text-gray-900 truncate">{post.content.title}</h4>
+                    <p className="text-sm text-gray-600">
+                      {post.socialAccount.displayName} • {post.platform} •
+                      {post.scheduledFor ? ` ${new Date(post.scheduledFor).toLocaleString()}` : " Unscheduled"}
+                      {variant.thread && ` • Thread of ${variant.thread.length}`}
+                    </p>
+                    {post.status === "held" && (
+                      <p className="text-xs text-yellow-700 mt-1">
+                        On hold while its campaign is paused
+                      </p>
+                    )}
+                    {post.retryCount > 0 && post.errorMessage && (
+                      <p className="text-xs text-orange-700 mt-1">
+                        Retry {post.retryCount}: {post.errorMessage}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-3 ml-4 text-sm">
+                    <button
+                      type="button"
+                      onClick={() => setEditing({ postId: post.id, mode: "text", value: variant.text ?? "" })}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setEditing({
+                        postId: post.id,
+                        mode: "time",
+                        value: post.scheduledFor ? toLocalInputValue(new Date(post.scheduledFor)) : ""
+                      })}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      Reschedule
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setEditing({ postId: post.id, mode: "account", value: post.socialAccountId })}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      Change account
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleCancel(post.id)}
+                      disabled={cancelPost.isPending}
+                      className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+
+                {!isEditing && variant.text && (
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap line-clamp-3">{variant.text}</p>
+                )}
+
+                {isEditing && (
+                  <div className="space-y-2">
+                    {editing.mode === "text" && (
+                      <textarea
+                        value={editing.value}
+                        onChange={(e) => setEditing({ ...editing, value: e.target.value })}
+                        rows={5}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                      />
+                    )}
+                    {editing.mode === "time" && (
+                      <input
+                        type="datetime-local"
+                        value={editing.value}
+                        onChange={(e) => setEditing({ ...editing, value: e.target.value })}
+                        className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                      />
+                    )}
+                    {editing.mode === "account" && (
+                      <select
+                        value={editing.value}
+                        onChange={(e) => setEditing({ ...editing, value: e.target.value })}
+                        className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                      >
+                        {accounts?.map(account => (
+                          <option key={account.id} value={account.id}>
+                            {account.displayName} ({account.platform})
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    <div className="flex space-x-2">
+                      <button
+                        type="button"
+                        onClick={handleSave}
+                        disabled={isSaving || !editing.value}
+                        className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        {isSaving ? "Saving..." : "Save"}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setEditing(null)}
+                        className="px-3 py-1.5 border border-gray-300 text-sm rounded-md hover:bg-gray-50"
+                      >
+                        Discard
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="p-12 text-center bg-white rounded-lg border border-gray-200">
+          <div className="text-4xl mb-4">🗓️</div>
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Nothing scheduled</h3>
+          <p className="text-gray-600">Scheduled posts will show up here until they are published.</p>
+        </div>
+      )}
+
+      {data && data.total > PAGE_SIZE && (
+        <div className="flex items-center justify-between">
+          <button
+            type="button"
+            onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+            disabled={offset === 0}
+            className="px-3 py-1.5 border border-gray-300 rounded-md text-sm disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span className="text-sm text-gray-600">
+            {offset + 1}–{Math.min(offset + PAGE_SIZE, data.total)} of {data.total}
+          </span>
+          <button
+            type="button"
+            onClick={() => setOffset(offset + PAGE_SIZE)}
+            disabled={!data.hasMore}
+            className="px-3 py-1.5 border border-gray-300 rounded-md text-sm disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,19 +2,55 @@
 
 import { useState } from "react";
 import { api } from "@/trpc/react";
-import { SocialPlatform, AccountType } from "@/server/services/auth/base-auth-provider";
+import { SocialPlatform, AccountType, ConnectMethod } from "@/server/services/auth/base-auth-provider";
 
 interface SocialAccountManagerProps {
   workspaceId: string;
 }
 
+interface ConnectOption {
+  platform: SocialPlatform;
+  accountType: AccountType;
+  label?: string; // Overrides the platform name on the button
+  needsInstance?: boolean; // Federated platforms ask which server to connect to
+}
+
+// Facebook only publishes as Pages, and Instagram Business accounts come with their Page;
+// LinkedIn can post as the member or as an organization
+const CONNECT_OPTIONS: ConnectOption[] = [
+  { platform: SocialPlatform.FACEBOOK, accountType: AccountType.PAGE, label: "Facebook Pages & Instagram" },
+  { platform: SocialPlatform.X, accountType: AccountType.PERSONAL },
+  { platform: SocialPlatform.LINKEDIN, accountType: AccountType.PERSONAL },
+  { platform: SocialPlatform.LINKEDIN, accountType: AccountType.BUSINESS, label: "LinkedIn organizations" },
+  { platform: SocialPlatform.MASTODON, accountType: AccountType.PERSONAL, needsInstance: true },
+  { platform: SocialPlatform.BLUESKY, accountType: AccountType.PERSONAL },
+  { platform: SocialPlatform.SLACK, accountType: AccountType.WEBHOOK, label: "Slack channel" },
+  { platform: SocialPlatform.DISCORD, accountType: AccountType.WEBHOOK, label: "Discord channel" },
+  { platform: SocialPlatform.TEAMS, accountType: AccountType.WEBHOOK, label: "Teams channel" },
+];
+
+type WebhookPlatform = SocialPlatform.SLACK | SocialPlatform.DISCORD | SocialPlatform.TEAMS;
+
+// Where each chat product hands out incoming-webhook URLs
+const WEBHOOK_HELP: Record<WebhookPlatform, string> = {
+  [SocialPlatform.SLACK]: "Create an app with Incoming Webhooks turned on, add it to the channel and copy its webhook URL.",
+  [SocialPlatform.DISCORD]: "Open the channel's settings → Integrations → Webhooks, create a webhook and copy its URL.",
+  [SocialPlatform.TEAMS]: "Add the \"Post to a channel when a webhook request is received\" workflow to the channel and copy its URL.",
+};
+
 export function SocialAccountManager({ workspaceId }: SocialAccountManagerProps) {
-  const [isConnecting, setIsConnecting] = useState<SocialPlatform | null>(null);
+  const [isConnecting, setIsConnecting] = useState<ConnectOption | null>(null);
+  // Platforms without an OAuth redirect sign in with a handle and app password here
+  const [credentialForm, setCredentialForm] = useState<{ platform: SocialPlatform; identifier: string; password: string } | null>(null);
+  // Chat channels connect with a pasted incoming-webhook URL
+  const [webhookForm, setWebhookForm] = useState<{ platform: WebhookPlatform; url: string; name: string } | null>(null);
+  const [connectError, setConnectError] = useState<string | null>(null);
 
   const utils = api.useUtils();
 
   const { data: accounts, isLoading } = api.credential.getWorkspaceAccounts.useQuery({ workspaceId });
   const { data: availablePlatforms } = api.socialAuth.getAvailablePlatforms.useQuery();
+  const { data: connectMethods } = api.socialAuth.getConnectMethods.useQuery();
 
   const initiateAuth = api.socialAuth.initiateAuth.useMutation({
     onSuccess: (result) => {
@@ -27,6 +63,28 @@ export function SocialAccountManager({ workspaceId }: SocialAccountManagerProps)
     }
   });
 
+  const connectWithCredentials = api.socialAuth.connectWithCredentials.useMutation({
+    onSuccess: () => {
+      setCredentialForm(null);
+      setConnectError(null);
+      utils.credential.getWorkspaceAccounts.invalidate({ workspaceId });
+    },
+    onError: (error) => {
+      setConnectError(error.message);
+    }
+  });
+
+  const connectWebhook = api.socialAuth.connectWebhook.useMutation({
+    onSuccess: () => {
+      setWebhookForm(null);
+      setConnectError(null);
+      utils.credential.getWorkspaceAccounts.invalidate({ workspaceId });
+    },
+    onError: (error) => {
+      setConnectError(error.message);
+    }
+  });
+
   const revokeAccess = api.socialAuth.revokeAccess.useMutation({
     onSuccess: () => {
       utils.credential.getWorkspaceAccounts.invalidate({ workspaceId });
@@ -36,17 +94,37 @@ export function SocialAccountManager({ workspaceId }: SocialAccountManagerProps)
     }
   });
 
-  const handleConnect = async (platform: SocialPlatform) => {
-    setIsConnecting(platform);
+  const handleConnect = async (option: ConnectOption) => {
+    if (connectMethods?.[option.platform] === ConnectMethod.CREDENTIALS) {
+      setConnectError(null);
+      setWebhookForm(null);
+      setCredentialForm({ platform: option.platform, identifier: "", password: "" });
+      return;
+    }
+
+    if (connectMethods?.[option.platform] === ConnectMethod.WEBHOOK) {
+      setConnectError(null);
+      setCredentialForm(null);
+      setWebhookForm({ platform: option.platform as WebhookPlatform, url: "", name: "" });
+      return;
+    }
 
-    const redirectUri = `${window.location.origin}/auth/callback/${platform}`;
+    const instance = option.needsInstance
+      ? prompt("Which Mastodon server is your account on? (e.g. mastodon.social)")?.trim()
+      : undefined;
+    if (option.needsInstance && !instance) return;
+
+    setIsConnecting(option);
+
+    const redirectUri = `${window.location.origin}/auth/callback/${option.platform}`;
 
     try {
       await initiateAuth.mutateAsync({
         workspaceId,
-        platform,
-        accountType: AccountType.PERSONAL, // Default to personal, can be made configurable
-        redirectUri
+        platform: option.platform,
+        accountType: option.accountType,
+        redirectUri,
+        instance
       });
     } catch (error) {
       setIsConnecting(null);
@@ -70,6 +148,18 @@ export function SocialAccountManager({ workspaceId }: SocialAccountManagerProps)
         return "🐦";
       case SocialPlatform.LINKEDIN:
         return "💼";
+      case SocialPlatform.MASTODON:
+        return "🐘";
+      case SocialPlatform.BLUESKY:
+        return "🦋";
+      case SocialPlatform.INSTAGRAM:
+        return "📸";
+      case SocialPlatform.SLACK:
+        return "💬";
+      case SocialPlatform.DISCORD:
+        return "🎮";
+      case SocialPlatform.TEAMS:
+        return "👥";
       default:
         return "🔗";
     }
@@ -83,6 +173,18 @@ export function SocialAccountManager({ workspaceId }: SocialAccountManagerProps)
         return "X (Twitter)";
       case SocialPlatform.LINKEDIN:
         return "LinkedIn";
+      case SocialPlatform.MASTODON:
+        return "Mastodon";
+      case SocialPlatform.BLUESKY:
+        return "Bluesky";
+      case SocialPlatform.INSTAGRAM:
+        return "Instagram";
+      case SocialPlatform.SLACK:
+        return "Slack";
+      case SocialPlatform.DISCORD:
+        return "Discord";
+      case SocialPlatform.TEAMS:
+        return "Microsoft Teams";
       default:
         return platform;
     }
@@ -96,6 +198,18 @@ export function SocialAccountManager({ workspaceId }: SocialAccountManagerProps)
         return "bg-black hover:bg-gray-800";
       case SocialPlatform.LINKEDIN:
         return "bg-blue-700 hover:bg-blue-800";
+      case SocialPlatform.MASTODON:
+        return "bg-indigo-600 hover:bg-indigo-700";
+      case SocialPlatform.BLUESKY:
+        return "bg-sky-500 hover:bg-sky-600";
+      case SocialPlatform.INSTAGRAM:
+        return "bg-pink-600 hover:bg-pink-700";
+      case SocialPlatform.SLACK:
+        return "bg-purple-700 hover:bg-purple-800";
+      case SocialPlatform.DISCORD:
+        return "bg-violet-600 hover:bg-violet-700";
+      case SocialPlatform.TEAMS:
+        return "bg-indigo-700 hover:bg-indigo-800";
       default:
         return "bg-gray-600 hover:bg-gray-700";
     }
@@ -116,8 +230,8 @@ export function SocialAccountManager({ workspaceId }: SocialAccountManagerProps)
     );
   }
 
-  const connectedPlatforms = new Set(accounts?.map(account => account.platform) || []);
-  const availableToConnect = availablePlatforms?.filter(platform => !connectedPlatforms.has(platform)) || [];
+  // A workspace can connect several accounts per platform, e.g. one per Page
+  const availableToConnect = CONNECT_OPTIONS.filter(option => availablePlatforms?.includes(option.platform));
 
   return (
     <div className="p-6 space-y-6">
@@ -140,7 +254,8 @@ export function SocialAccountManager({ workspaceId }: SocialAccountManagerProps)
                   <div>
                     <h4 className="font-medium text-gray-900">{account.displayName}</h4>
                     <p className="text-sm text-gray-600">
-                      {getPlatformName(account.platform as SocialPlatform)} •
+                      {getPlatformName(account.platform as SocialPlatform)}
+                      {account.accountType !== AccountType.PERSONAL && ` ${account.accountType}`} •
                       Connected {new Date(account.createdAt).toLocaleDateString()}
                     </p>
                   </div>
@@ -179,16 +294,16 @@ export function SocialAccountManager({ workspaceId }: SocialAccountManagerProps)
             {accounts && accounts.length > 0 ? "Connect More Accounts" : "Connect Your First Account"}
           </h3>
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-            {availableToConnect.map((platform) => (
+            {availableToConnect.map((option) => (
               <button
-                key={platform}
-                onClick={() => handleConnect(platform)}
-                disabled={isConnecting === platform || initiateAuth.isPending}
-                className={`flex items-center justify-center space-x-3 p-4 rounded-lg text-white font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${getPlatformColor(platform)}`}
+                key={`${option.platform}-${option.accountType}`}
+                onClick={() => handleConnect(option)}
+                disabled={isConnecting === option || initiateAuth.isPending}
+                className={`flex items-center justify-center space-x-3 p-4 rounded-lg text-white font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${getPlatformColor(option.platform)}`}
               >
-                <span className="text-xl">{getPlatformIcon(platform)}</span>
+                <span className="text-xl">{getPlatformIcon(option.platform)}</span>
                 <span>
-                  {isConnecting === platform ? "Connecting..." : `Connect ${getPlatformName(platform)}`}
+                  {isConnecting === option ? "Connecting..." : `Connect ${option.label ?? getPlatformName(option.platform)}`}
                 </span>
               </button>
             ))}
@@ -196,6 +311,119 @@ export function SocialAccountManager({ workspaceId }: SocialAccountManagerProps)
         </div>
       )}
 
+      {/* Sign in with an app password */}
+      {credentialForm && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            connectWithCredentials.mutate({
+              workspaceId,
+              platform: SocialPlatform.BLUESKY,
+              identifier: credentialForm.identifier,
+              password: credentialForm.password
+            });
+          }}
+          className="p-4 bg-white border border-gray-200 rounded-lg space-y-3"
+        >
+          <h3 className="text-lg font-medium text-gray-900">
+            Connect {getPlatformName(credentialForm.platform)}
+          </h3>
+          <p className="text-sm text-gray-600">
+            Create an app password in {getPlatformName(credentialForm.platform)} under Settings → Privacy and security → App passwords.
+            Never use your account password here.
+          </p>
+          <input
+            type="text"
+            placeholder="Handle, e.g. you.bsky.social"
+            value={credentialForm.identifier}
+            onChange={(e) => setCredentialForm({ ...credentialForm, identifier: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          <input
+            type="password"
+            placeholder="App password (xxxx-xxxx-xxxx-xxxx)"
+            value={credentialForm.password}
+            onChange={(e) => setCredentialForm({ ...credentialForm, password: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          {connectError && (
+            <p className="text-sm text-red-700">{connectError}</p>
+          )}
+          <div className="flex space-x-2">
+            <button
+              type="submit"
+              disabled={connectWithCredentials.isPending || !credentialForm.identifier || !credentialForm.password}
+              className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {connectWithCredentials.isPending ? "Connecting..." : "Connect"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setCredentialForm(null)}
+              className="px-3 py-1.5 border border-gray-300 text-sm rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Paste an incoming-webhook URL */}
+      {webhookForm && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            connectWebhook.mutate({
+              workspaceId,
+              platform: webhookForm.platform,
+              url: webhookForm.url,
+              name: webhookForm.name || undefined
+            });
+          }}
+          className="p-4 bg-white border border-gray-200 rounded-lg space-y-3"
+        >
+          <h3 className="text-lg font-medium text-gray-900">
+            Connect a {getPlatformName(webhookForm.platform)} channel
+          </h3>
+          <p className="text-sm text-gray-600">
+            {WEBHOOK_HELP[webhookForm.platform]} Anyone with the URL can post to the channel, so we store it encrypted.
+          </p>
+          <input
+            type="url"
+            placeholder="Webhook URL"
+            value={webhookForm.url}
+            onChange={(e) => setWebhookForm({ ...webhookForm, url: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          <input
+            type="text"
+            placeholder="Name (optional), e.g. #announcements"
+            value={webhookForm.name}
+            onChange={(e) => setWebhookForm({ ...webhookForm, name: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          {connectError && (
+            <p className="text-sm text-red-700">{connectError}</p>
+          )}
+          <div className="flex space-x-2">
+            <button
+              type="submit"
+              disabled={connectWebhook.isPending || !webhookForm.url}
+              className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {connectWebhook.isPending ? "Connecting..." : "Connect"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setWebhookForm(null)}
+              className="px-3 py-1.5 border border-gray-300 text-sm rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
       {/* Empty State */}
       {(!accounts || accounts.length === 0) && availableToConnect.length === 0 && (
         <div className="text-center py-12">
@@ -0,0 +1,103 @@
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import type { NextRequest } from "next/server";
+import { z } from "zod";
+
+import { auth } from "@/server/auth";
+import { db } from "@/server/db";
+import {
+  AnalyticsExportService,
+  ExportFormat,
+  ExportLevel
+} from "@/server/services/analytics/analytics-export";
+import { hasPermission, WorkspacePermission, type WorkspaceRole } from "@/server/services/workspace";
+
+const ExportQuerySchema = z.object({
+  workspaceId: z.string(),
+  level: z.nativeEnum(ExportLevel).default(ExportLevel.POST),
+  format: z.nativeEnum(ExportFormat).default(ExportFormat.CSV),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+});
+
+/**
+ * Stream an analytics export as CSV or newline-delimited JSON.
+ *
+ * This is a plain route rather than a tRPC procedure so the body can be streamed
+ * straight to the client as rows are read, e.g.
+ * `/api/analytics/export?workspaceId=...&level=account&format=ndjson&startDate=2026-01-01`
+ */
+export async function GET(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return Response.json({ error: "Sign in to export analytics" }, { status: 401 });
+  }
+
+  const query = ExportQuerySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+  if (!query.success) {
+    return Response.json({ error: "Invalid export parameters", issues: query.error.issues }, { status: 400 });
+  }
+
+  const { workspaceId, ...options } = query.data;
+
+  try {
+    const member = await db.workspaceMember.findUnique({
+      where: {
+        userId_workspaceId: {
+          userId: session.user.id,
+          workspaceId,
+        },
+      },
+    });
+
+    if (!member || !hasPermission(member.role as WorkspaceRole, WorkspacePermission.EXPORT_ANALYTICS)) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "You don't have permission to export analytics for this workspace",
+      });
+    }
+
+    const service = new AnalyticsExportService(db);
+    const analyticsExport = await service.createExport(workspaceId, options);
+
+    return new Response(toStream(analyticsExport.lines), {
+      headers: {
+        "Content-Type": analyticsExport.contentType,
+        "Content-Disposition": `attachment; filename="${analyticsExport.filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof TRPCError) {
+      return Response.json({ error: error.message }, { status: getHTTPStatusCodeFromError(error) });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Pull a line only when the client is ready for it, and stop reading the
+ * database if the download is cancelled
+ */
+function toStream(lines: AsyncGenerator<string>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        const { value, done } = await lines.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(value));
+        }
+      } catch (error) {
+        console.error("[ANALYTICS_EXPORT] Export failed mid-stream:", error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await lines.return(undefined);
+    },
+  });
+}
@@ -1,9 +1,9 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { api } from "@/trpc/react";
-import { SocialPlatform } from "@/server/services/auth/base-auth-provider";
+import { SocialPlatform, type PendingAccountSelection } from "@/server/services/auth/base-auth-provider";
 
 interface OAuthCallbackProps {
   params: Promise<{
@@ -15,8 +15,12 @@ export default function OAuthCallback({ params }: OAuthCallbackProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
   const [platform, setPlatform] = useState<string>("");
-  const [status, setStatus] = useState<"loading" | "success" | "error">("loading");
+  const [status, setStatus] = useState<"loading" | "selecting" | "success" | "error">("loading");
   const [error, setError] = useState<string>("");
+  const [selection, setSelection] = useState<PendingAccountSelection | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // The state is single-use, so the callback must only be submitted once
+  const callbackSubmitted = useRef(false);
 
   useEffect(() => {
     const initializeCallback = async () => {
@@ -26,22 +30,56 @@ export default function OAuthCallback({ params }: OAuthCallbackProps) {
     initializeCallback();
   }, [params]);
 
+  const handleSuccess = () => {
+    setStatus("success");
+    // Redirect back to the workspace after a short delay
+    setTimeout(() => {
+      router.push("/"); // Or redirect to the specific workspace
+    }, 2000);
+  };
+
+  const handleError = (error: { message: string }) => {
+    setStatus("error");
+    setError(error.message);
+  };
+
   const handleCallback = api.socialAuth.handleCallback.useMutation({
     onSuccess: (result) => {
-      setStatus("success");
-      // Redirect back to the workspace after a short delay
-      setTimeout(() => {
-        router.push("/"); // Or redirect to the specific workspace
-      }, 2000);
+      // Pages and organizations are only connected once the user picks them
+      if (result.selection) {
+        setSelection(result.selection);
+        setSelectedIds(result.selection.options.map(option => option.id));
+        setStatus("selecting");
+        return;
+      }
+      handleSuccess();
     },
-    onError: (error) => {
-      setStatus("error");
-      setError(error.message);
-    }
+    onError: handleError
   });
 
+  const completeSelection = api.socialAuth.completeAccountSelection.useMutation({
+    onSuccess: handleSuccess,
+    onError: handleError
+  });
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(selectedIds.includes(id)
+      ? selectedIds.filter(selectedId => selectedId !== id)
+      : [...selectedIds, id]);
+  };
+
+  const handleConnectSelected = () => {
+    if (!selection || selectedIds.length === 0) return;
+
+    completeSelection.mutate({
+      platform: platform as SocialPlatform,
+      selectionId: selection.selectionId,
+      accountIds: selectedIds
+    });
+  };
+
   useEffect(() => {
-    if (!platform) return;
+    if (!platform || callbackSubmitted.current) return;
 
     const code = searchParams.get("code");
     const state = searchParams.get("state");
@@ -71,6 +109,7 @@ export default function OAuthCallback({ params }: OAuthCallbackProps) {
     // Handle the callback
     const redirectUri = `${window.location.origin}/auth/callback/${platform}`;
 
+    callbackSubmitted.current = true;
     handleCallback.mutate({
       platform: platform as SocialPlatform,
       code,
@@ -87,6 +126,12 @@ export default function OAuthCallback({ params }: OAuthCallbackProps) {
         return "X (Twitter)";
       case SocialPlatform.LINKEDIN:
         return "LinkedIn";
+      case SocialPlatform.MASTODON:
+        return "Mastodon";
+      case SocialPlatform.BLUESKY:
+        return "Bluesky";
+      case SocialPlatform.INSTAGRAM:
+        return "Instagram";
       default:
         return platform;
     }
@@ -100,6 +145,12 @@ export default function OAuthCallback({ params }: OAuthCallbackProps) {
         return "🐦";
       case SocialPlatform.LINKEDIN:
         return "💼";
+      case SocialPlatform.MASTODON:
+        return "🐘";
+      case SocialPlatform.BLUESKY:
+        return "🦋";
+      case SocialPlatform.INSTAGRAM:
+        return "📸";
       default:
         return "🔗";
     }
@@ -122,6 +173,50 @@ export default function OAuthCallback({ params }: OAuthCallbackProps) {
             </>
           )}
 
+          {status === "selecting" && selection && (
+            <>
+              <div className="text-4xl mb-4">{getPlatformIcon(platform)}</div>
+              <h2 className="text-xl font-semibold text-gray-900 mb-2">
+                Choose accounts to connect
+              </h2>
+              <p className="text-gray-600 mb-4">
+                Each one you select is added to the workspace as its own account.
+              </p>
+              <div className="text-left border border-gray-200 rounded-lg divide-y divide-gray-200 mb-4 max-h-80 overflow-y-auto">
+                {selection.options.map(option => (
+                  <label key={option.id} className="flex items-center space-x-3 p-3 cursor-pointer hover:bg-gray-50">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(option.id)}
+                      onChange={() => toggleSelected(option.id)}
+                      className="h-4 w-4"
+                    />
+                    {option.profilePicture && (
+                      <img src={option.profilePicture} alt="" className="h-8 w-8 rounded-full" />
+                    )}
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{option.name}</p>
+                      <p className="text-sm text-gray-600 truncate">
+                        {getPlatformIcon(option.platform)} {getPlatformName(option.platform)}
+                        {option.username && ` • ${option.username}`}
+                      </p>
+                    </div>
+                  </label>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={handleConnectSelected}
+                disabled={selectedIds.length === 0 || completeSelection.isPending}
+                className="w-full bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {completeSelection.isPending
+                  ? "Connecting..."
+                  : `Connect ${selectedIds.length} account${selectedIds.length === 1 ? "" : "s"}`}
+              </button>
+            </>
+          )}
+
           {status === "success" && (
             <>
               <div className="text-4xl mb-4">✅</div>
@@ -0,0 +1,48 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { ContentPublisher } from "@/app/_components/content-publisher";
+
+interface PublishContentPageProps {
+  params: Promise<{
+    workspaceId: string;
+    contentId: string;
+  }>;
+}
+
+export default function PublishContentPage({ params }: PublishContentPageProps) {
+  const router = useRouter();
+
+  const [workspaceId, setWorkspaceId] = useState<string>("");
+  const [contentId, setContentId] = useState<string>("");
+
+  useEffect(() => {
+    const initializeParams = async () => {
+      const resolvedParams = await params;
+      setWorkspaceId(resolvedParams.workspaceId);
+      setContentId(resolvedParams.contentId);
+    };
+    initializeParams();
+  }, [params]);
+
+  const handleDone = () => {
+    router.push(`/workspace/${workspaceId}/content`);
+  };
+
+  if (!workspaceId || !contentId) {
+    return <div>Loading...</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto">
+        <ContentPublisher
+          workspaceId={workspaceId}
+          contentId={contentId}
+          onDone={handleDone}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { FailedPosts } from "@/app/_components/failed-posts";
+
+interface FailedPostsPageProps {
+  params: Promise<{
+    workspaceId: string;
+  }>;
+}
+
+export default async function FailedPostsPage({ params }: FailedPostsPageProps) {
+  const { workspaceId } = await params;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-6xl mx-auto">
+        <FailedPosts workspaceId={workspaceId} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { ScheduledPosts } from "@/app/_components/scheduled-posts";
+
+interface ScheduledPostsPageProps {
+  params: Promise<{
+    workspaceId: string;
+  }>;
+}
+
+export default async function ScheduledPostsPage({ params }: ScheduledPostsPageProps) {
+  const { workspaceId } = await params;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-6xl mx-auto">
+        <ScheduledPosts workspaceId={workspaceId} />
+      </div>
+    </div>
+  );
+}
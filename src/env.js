@@ -11,13 +11,39 @@ export const env = createEnv({
       process.env.NODE_ENV === "production"
         ? z.string()
         : z.string().optional(),
+    OAUTH_STATE_SECRET: z.string().min(32).optional(),
+    OAUTH_SESSION_STORE: z.enum(["database", "memory"]).default("database"),
     AUTH_DISCORD_ID: z.string(),
     AUTH_DISCORD_SECRET: z.string(),
     DATABASE_URL: z.string().url(),
-    ENCRYPTION_KEY: z.string().min(32, "Encryption key must be at least 32 characters"),
+    ENCRYPTION_KEY: z.string().min(32, "Encryption key must be at least 32 characters").optional(),
+    ENCRYPTION_KEYS: z
+      .string()
+      .regex(/^[\w-]+:[^,]{32,}(,[\w-]+:[^,]{32,})*$/, "Encryption keys must be comma-separated id:key pairs with keys of at least 32 characters")
+      .optional(),
+    ENCRYPTION_PRIMARY_KEY_ID: z.string().optional(),
+    ENCRYPTION_KEY_PROVIDER: z.enum(["env", "file", "kms"]).default("env"),
+    ENCRYPTION_KEY_FILE: z.string().optional(),
+    ENCRYPTION_KMS_URL: z.string().url().optional(),
+    ENCRYPTION_KMS_TOKEN: z.string().optional(),
+    ENCRYPTION_KMS_KEY_ID: z.string().optional(),
+    ENCRYPTION_KMS_WRAPPED_KEYS: z.string().optional(),
     NODE_ENV: z
       .enum(["development", "test", "production"])
       .default("development"),
+    PUBLISH_WORKER_POLL_INTERVAL_MS: z.coerce.number().int().positive().default(15000),
+    PUBLISH_WORKER_BATCH_SIZE: z.coerce.number().int().positive().default(10),
+    PUBLISH_MAX_RETRIES: z.coerce.number().int().min(0).default(5),
+    PUBLISH_RETRY_BASE_DELAY_MS: z.coerce.number().int().positive().default(60000),
+    PUBLISH_RETRY_MAX_DELAY_MS: z.coerce.number().int().positive().default(3600000),
+    CREDENTIAL_REFRESH_WINDOW_MS: z.coerce.number().int().positive().default(1800000),
+    CREDENTIAL_REFRESH_INTERVAL_MS: z.coerce.number().int().positive().default(600000),
+    CREDENTIAL_REFRESH_BATCH_SIZE: z.coerce.number().int().positive().default(50),
+    CREDENTIAL_AUDIT_RETENTION_DAYS: z.coerce.number().int().positive().default(365),
+    ANALYTICS_COLLECT_INTERVAL_MS: z.coerce.number().int().positive().default(60000),
+    ANALYTICS_COLLECT_BATCH_SIZE: z.coerce.number().int().positive().default(25),
+    ANALYTICS_RETENTION_INTERVAL_MS: z.coerce.number().int().positive().default(3600000),
+    CAMPAIGN_LIFECYCLE_INTERVAL_MS: z.coerce.number().int().positive().default(60000),
   },
 
   /**
@@ -35,11 +61,34 @@ export const env = createEnv({
    */
   runtimeEnv: {
     AUTH_SECRET: process.env.AUTH_SECRET,
+    OAUTH_STATE_SECRET: process.env.OAUTH_STATE_SECRET,
+    OAUTH_SESSION_STORE: process.env.OAUTH_SESSION_STORE,
     AUTH_DISCORD_ID: process.env.AUTH_DISCORD_ID,
     AUTH_DISCORD_SECRET: process.env.AUTH_DISCORD_SECRET,
     DATABASE_URL: process.env.DATABASE_URL,
     ENCRYPTION_KEY: process.env.ENCRYPTION_KEY,
+    ENCRYPTION_KEYS: process.env.ENCRYPTION_KEYS,
+    ENCRYPTION_PRIMARY_KEY_ID: process.env.ENCRYPTION_PRIMARY_KEY_ID,
+    ENCRYPTION_KEY_PROVIDER: process.env.ENCRYPTION_KEY_PROVIDER,
+    ENCRYPTION_KEY_FILE: process.env.ENCRYPTION_KEY_FILE,
+    ENCRYPTION_KMS_URL: process.env.ENCRYPTION_KMS_URL,
+    ENCRYPTION_KMS_TOKEN: process.env.ENCRYPTION_KMS_TOKEN,
+    ENCRYPTION_KMS_KEY_ID: process.env.ENCRYPTION_KMS_KEY_ID,
+    ENCRYPTION_KMS_WRAPPED_KEYS: process.env.ENCRYPTION_KMS_WRAPPED_KEYS,
     NODE_ENV: process.env.NODE_ENV,
+    PUBLISH_WORKER_POLL_INTERVAL_MS: process.env.PUBLISH_WORKER_POLL_INTERVAL_MS,
+    PUBLISH_WORKER_BATCH_SIZE: process.env.PUBLISH_WORKER_BATCH_SIZE,
+    PUBLISH_MAX_RETRIES: process.env.PUBLISH_MAX_RETRIES,
+    PUBLISH_RETRY_BASE_DELAY_MS: process.env.PUBLISH_RETRY_BASE_DELAY_MS,
+    PUBLISH_RETRY_MAX_DELAY_MS: process.env.PUBLISH_RETRY_MAX_DELAY_MS,
+    CREDENTIAL_REFRESH_WINDOW_MS: process.env.CREDENTIAL_REFRESH_WINDOW_MS,
+    CREDENTIAL_REFRESH_INTERVAL_MS: process.env.CREDENTIAL_REFRESH_INTERVAL_MS,
+    CREDENTIAL_REFRESH_BATCH_SIZE: process.env.CREDENTIAL_REFRESH_BATCH_SIZE,
+    CREDENTIAL_AUDIT_RETENTION_DAYS: process.env.CREDENTIAL_AUDIT_RETENTION_DAYS,
+    ANALYTICS_COLLECT_INTERVAL_MS: process.env.ANALYTICS_COLLECT_INTERVAL_MS,
+    ANALYTICS_COLLECT_BATCH_SIZE: process.env.ANALYTICS_COLLECT_BATCH_SIZE,
+    ANALYTICS_RETENTION_INTERVAL_MS: process.env.ANALYTICS_RETENTION_INTERVAL_MS,
+    CAMPAIGN_LIFECYCLE_INTERVAL_MS: process.env.CAMPAIGN_LIFECYCLE_INTERVAL_MS,
   },
   /**
    * Run `build` or `dev` with `SKIP_ENV_VALIDATION` to skip env validation. This is especially
@@ -0,0 +1,74 @@
+import { pathToFileURL } from "node:url";
+import { env } from "@/env";
+import { db } from "@/server/db";
+import { runPollingLoop } from "@/lib/polling-loop";
+import { AnalyticsCollector, type CollectionSummary } from "@/server/services/analytics/analytics-collector";
+import { AnalyticsRetentionService, type RetentionSummary } from "@/server/services/analytics/analytics-retention";
+import { type Clock } from "@/server/services/publishing/publishing-service";
+
+export interface AnalyticsWorkerOptions {
+  batchSize?: number;
+  intervalMs?: number;
+  retentionIntervalMs?: number;
+  clock?: Clock; // Inject a fake clock to drive the collector in tests
+}
+
+/**
+ * Take a metrics snapshot of every published post that's due one
+ */
+export async function collectDueAnalytics(options: AnalyticsWorkerOptions = {}): Promise<CollectionSummary> {
+  const batchSize = options.batchSize ?? env.ANALYTICS_COLLECT_BATCH_SIZE;
+  const collector = new AnalyticsCollector(db, options.clock);
+
+  const summary = await collector.collectDueMetrics(batchSize);
+
+  if (summary.checked > 0) {
+    console.log(`[ANALYTICS_COLLECTOR] Checked ${summary.checked}: ${summary.collected} collected, ${summary.stopped} stopped, ${summary.failed} failed`);
+  }
+
+  return summary;
+}
+
+/**
+ * Downsample and prune snapshots according to each workspace owner's plan
+ */
+export async function enforceAnalyticsRetention(options: AnalyticsWorkerOptions = {}): Promise<RetentionSummary> {
+  const service = new AnalyticsRetentionService(db, options.clock);
+
+  const summary = await service.enforceRetention();
+
+  if (summary.deleted > 0 || summary.downsampled > 0) {
+    console.log(`[ANALYTICS_COLLECTOR] Retention across ${summary.workspaces} workspaces: ${summary.deleted} expired, ${summary.downsampled} downsampled`);
+  }
+
+  return summary;
+}
+
+/**
+ * Collect due metrics on an interval until the process receives SIGINT or SIGTERM
+ */
+export async function runAnalyticsWorker(options: AnalyticsWorkerOptions = {}): Promise<void> {
+  const intervalMs = options.intervalMs ?? env.ANALYTICS_COLLECT_INTERVAL_MS;
+  const retentionIntervalMs = options.retentionIntervalMs ?? env.ANALYTICS_RETENTION_INTERVAL_MS;
+  let lastRetentionAt = 0;
+
+  await runPollingLoop("ANALYTICS_COLLECTOR", intervalMs, async () => {
+    await collectDueAnalytics(options);
+
+    // Retention scans every workspace, so it runs far less often than collection
+    if (Date.now() - lastRetentionAt >= retentionIntervalMs) {
+      await enforceAnalyticsRetention(options);
+      lastRetentionAt = Date.now();
+    }
+  });
+
+  await db.$disconnect();
+}
+
+// Allow running as a standalone process: `pnpm worker:analytics`
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runAnalyticsWorker().catch((error) => {
+    console.error("[ANALYTICS_COLLECTOR] Fatal error:", error);
+    process.exit(1);
+  });
+}
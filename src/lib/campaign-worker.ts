@@ -0,0 +1,47 @@
+import { pathToFileURL } from "node:url";
+import { env } from "@/env";
+import { db } from "@/server/db";
+import { runPollingLoop } from "@/lib/polling-loop";
+import { CampaignService, type LifecycleSummary } from "@/server/services/campaign";
+import { type Clock } from "@/server/services/publishing/publishing-service";
+
+export interface CampaignWorkerOptions {
+  intervalMs?: number;
+  clock?: Clock; // Inject a fake clock to drive the lifecycle in tests
+}
+
+/**
+ * Start campaigns whose start date has come and complete those that have ended
+ */
+export async function advanceCampaigns(options: CampaignWorkerOptions = {}): Promise<LifecycleSummary> {
+  const service = new CampaignService(db, options.clock);
+
+  const summary = await service.advanceLifecycle();
+
+  if (summary.activated > 0 || summary.completed > 0) {
+    console.log(`[CAMPAIGN_LIFECYCLE] ${summary.activated} activated, ${summary.completed} completed, ${summary.cancelledPosts} held posts cancelled`);
+  }
+
+  return summary;
+}
+
+/**
+ * Advance campaign lifecycles on an interval until the process receives SIGINT or SIGTERM
+ */
+export async function runCampaignWorker(options: CampaignWorkerOptions = {}): Promise<void> {
+  const intervalMs = options.intervalMs ?? env.CAMPAIGN_LIFECYCLE_INTERVAL_MS;
+
+  await runPollingLoop("CAMPAIGN_LIFECYCLE", intervalMs, async () => {
+    await advanceCampaigns(options);
+  });
+
+  await db.$disconnect();
+}
+
+// Allow running as a standalone process: `pnpm worker:campaigns`
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runCampaignWorker().catch((error) => {
+    console.error("[CAMPAIGN_LIFECYCLE] Fatal error:", error);
+    process.exit(1);
+  });
+}
@@ -1,20 +1,28 @@
 import { db } from "@/server/db";
-import { CredentialService } from "@/server/services/credential";
+import { pruneCredentialAuditLog, refreshExpiringCredentials } from "@/lib/credential-refresh-worker";
+import {
+  CredentialAuditService,
+  type CredentialAuditContext,
+  type CredentialAuditEntry
+} from "@/server/services/credential-audit";
 
 /**
- * Background job to clean up expired credentials
- * This should be run periodically (e.g., every hour)
+ * Background job to keep credentials usable.
+ * Refreshes tokens that are about to expire and only deactivates accounts whose refresh
+ * is definitively rejected, then prunes old audit log entries.
+ * `pnpm worker:credentials` runs the same job on an interval.
  */
 export async function cleanupExpiredCredentials(): Promise<void> {
   try {
-    console.log("[CREDENTIAL_CLEANUP] Starting cleanup of expired credentials...");
+    console.log("[CREDENTIAL_CLEANUP] Refreshing expiring credentials...");
 
-    const service = new CredentialService(db);
-    const cleanedUp = await service.cleanupExpiredCredentials();
+    const summary = await refreshExpiringCredentials();
 
-    console.log(`[CREDENTIAL_CLEANUP] Cleaned up ${cleanedUp} expired credentials`);
+    console.log(`[CREDENTIAL_CLEANUP] Refreshed ${summary.refreshed} and deactivated ${summary.deactivated} credentials`);
+
+    await pruneCredentialAuditLog();
   } catch (error) {
-    console.error("[CREDENTIAL_CLEANUP] Failed to cleanup expired credentials:", error);
+    console.error("[CREDENTIAL_CLEANUP] Failed to refresh expiring credentials:", error);
   }
 }
 
@@ -54,53 +62,6 @@ export function isCredentialExpiringSoon(expiresAt: Date | null | undefined): bo
   return expiresAt <= fiveMinutesFromNow;
 }
 
-/**
- * Generate a secure state parameter for OAuth flows
- */
-export function generateOAuthState(workspaceId: string, platform: string): string {
-  const crypto = require('crypto');
-  const timestamp = Date.now().toString();
-  const randomBytes = crypto.randomBytes(16).toString('hex');
-  const data = `${workspaceId}:${platform}:${timestamp}:${randomBytes}`;
-  return Buffer.from(data).toString('base64url');
-}
-
-/**
- * Parse and validate OAuth state parameter
- */
-export function parseOAuthState(state: string): {
-  workspaceId: string;
-  platform: string;
-  timestamp: number;
-  isValid: boolean;
-} {
-  try {
-    const decoded = Buffer.from(state, 'base64url').toString();
-    const [workspaceId, platform, timestampStr, randomBytes] = decoded.split(':');
-
-    if (!workspaceId || !platform || !timestampStr || !randomBytes) {
-      return { workspaceId: '', platform: '', timestamp: 0, isValid: false };
-    }
-
-    const timestamp = parseInt(timestampStr, 10);
-    const now = Date.now();
-    const maxAge = 10 * 60 * 1000; // 10 minutes
-
-    // Check if state is not too old
-    const isValid = (now - timestamp) <= maxAge;
-
-    return {
-      workspaceId,
-      platform,
-      timestamp,
-      isValid
-    };
-  } catch (error) {
-    console.error("Failed to parse OAuth state:", error);
-    return { workspaceId: '', platform: '', timestamp: 0, isValid: false };
-  }
-}
-
 /**
  * Rate limiting for credential operations
  */
@@ -128,35 +89,12 @@ export function checkCredentialRateLimit(userId: string, operation: string): boo
 }
 
 /**
- * Audit log entry for credential operations
+ * Log credential operation for audit purposes, outside of CredentialService
  */
-export interface CredentialAuditEntry {
-  userId: string;
-  workspaceId: string;
-  accountId: string;
-  operation: 'CREATE' | 'READ' | 'UPDATE' | 'DELETE' | 'REFRESH';
-  platform: string;
-  success: boolean;
-  error?: string;
-  timestamp: Date;
-  ipAddress?: string;
-  userAgent?: string;
+export async function logCredentialOperation(
+  entry: CredentialAuditEntry,
+  context: CredentialAuditContext = {}
+): Promise<void> {
+  const service = new CredentialAuditService(db, context);
+  await service.record(entry);
 }
-
-/**
- * Log credential operation for audit purposes
- */
-export async function logCredentialOperation(entry: CredentialAuditEntry): Promise<void> {
-  try {
-    // In production, this should write to a secure audit log
-    console.log(`[CREDENTIAL_AUDIT] ${JSON.stringify({
-      ...entry,
-      timestamp: entry.timestamp.toISOString()
-    })}`);
-
-    // TODO: Implement database audit logging
-    // await db.credentialAuditLog.create({ data: entry });
-  } catch (error) {
-    console.error("Failed to log credential operation:", error);
-  }
-}
\ No newline at end of file
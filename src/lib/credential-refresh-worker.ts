@@ -0,0 +1,74 @@
+import { pathToFileURL } from "node:url";
+import { env } from "@/env";
+import { db } from "@/server/db";
+import { runPollingLoop } from "@/lib/polling-loop";
+import { CredentialAccessService, type RefreshSummary } from "@/server/services/credential-access";
+import { CredentialAuditService } from "@/server/services/credential-audit";
+
+export interface CredentialRefreshWorkerOptions {
+  windowMs?: number;
+  batchSize?: number;
+  intervalMs?: number;
+  auditRetentionDays?: number;
+}
+
+/**
+ * Refresh every token that expires within the refresh window
+ */
+export async function refreshExpiringCredentials(
+  options: CredentialRefreshWorkerOptions = {}
+): Promise<RefreshSummary> {
+  const windowMs = options.windowMs ?? env.CREDENTIAL_REFRESH_WINDOW_MS;
+  const batchSize = options.batchSize ?? env.CREDENTIAL_REFRESH_BATCH_SIZE;
+  const service = new CredentialAccessService(db);
+
+  const summary = await service.refreshExpiringAccounts(windowMs, batchSize);
+
+  if (summary.checked > 0) {
+    console.log(`[CREDENTIAL_REFRESH] Checked ${summary.checked}: ${summary.refreshed} refreshed, ${summary.deactivated} deactivated, ${summary.failed} failed`);
+  }
+
+  return summary;
+}
+
+/**
+ * Delete credential audit entries past the retention period
+ */
+export async function pruneCredentialAuditLog(
+  options: CredentialRefreshWorkerOptions = {}
+): Promise<number> {
+  const retentionDays = options.auditRetentionDays ?? env.CREDENTIAL_AUDIT_RETENTION_DAYS;
+  const service = new CredentialAuditService(db);
+
+  const pruned = await service.pruneExpiredEntries(retentionDays);
+
+  if (pruned > 0) {
+    console.log(`[CREDENTIAL_REFRESH] Pruned ${pruned} audit log entries older than ${retentionDays} days`);
+  }
+
+  return pruned;
+}
+
+/**
+ * Refresh expiring tokens on an interval until the process receives SIGINT or SIGTERM
+ */
+export async function runCredentialRefreshWorker(
+  options: CredentialRefreshWorkerOptions = {}
+): Promise<void> {
+  const intervalMs = options.intervalMs ?? env.CREDENTIAL_REFRESH_INTERVAL_MS;
+
+  await runPollingLoop("CREDENTIAL_REFRESH", intervalMs, async () => {
+    await refreshExpiringCredentials(options);
+    await pruneCredentialAuditLog(options);
+  });
+
+  await db.$disconnect();
+}
+
+// Allow running as a standalone process: `pnpm worker:credentials`
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runCredentialRefreshWorker().catch((error) => {
+    console.error("[CREDENTIAL_REFRESH] Fatal error:", error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,60 @@
+import { pathToFileURL } from "node:url";
+import { performance } from "node:perf_hooks";
+import { decrypt, encrypt, loadKeyring, type EnvelopeVersion } from "@/lib/encryption";
+
+export interface BenchmarkResult {
+  version: EnvelopeVersion;
+  iterations: number;
+  encryptMsPerOp: number;
+  decryptMsPerOp: number;
+}
+
+// Shaped like a real OAuth access token
+const SAMPLE_TOKEN = `EAAG${"x".repeat(180)}`;
+
+function time(iterations: number, operation: () => void): number {
+  const start = performance.now();
+  for (let i = 0; i < iterations; i++) {
+    operation();
+  }
+  return (performance.now() - start) / iterations;
+}
+
+/**
+ * Time encrypt and decrypt for an envelope version with the configured primary key.
+ * The keyring must already be loaded.
+ */
+export function benchmarkEnvelope(version: EnvelopeVersion, iterations: number): BenchmarkResult {
+  // Warm up so v2's one-off master key derivation isn't counted per call
+  const ciphertext = encrypt(SAMPLE_TOKEN, version);
+  decrypt(ciphertext);
+
+  return {
+    version,
+    iterations,
+    encryptMsPerOp: time(iterations, () => encrypt(SAMPLE_TOKEN, version)),
+    decryptMsPerOp: time(iterations, () => decrypt(ciphertext)),
+  };
+}
+
+// Run directly: `pnpm bench:encryption [iterations]`
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const iterations = process.argv[2] ? Number.parseInt(process.argv[2], 10) : 50;
+
+  loadKeyring()
+    .then(({ primaryKeyId }) => {
+      console.log(`Benchmarking with key ${primaryKeyId}, ${iterations} iterations each`);
+
+      const results = (["v1", "v2"] as const).map(version => benchmarkEnvelope(version, iterations));
+      console.table(results);
+
+      const [v1, v2] = results;
+      if (v1 && v2) {
+        console.log(`v2 decrypt is ${(v1.decryptMsPerOp / v2.decryptMsPerOp).toFixed(0)}x faster than v1`);
+      }
+    })
+    .catch((error) => {
+      console.error("Benchmark failed:", error);
+      process.exitCode = 1;
+    });
+}
@@ -1,56 +1,190 @@
 import crypto from "crypto";
-import { env } from "@/env";
+import {
+  DEFAULT_KEY_ID,
+  createKeyProvider,
+  type EncryptionKeyring,
+  type KeyProvider
+} from "@/lib/key-provider";
 
 // AES-256-GCM encryption for secure token storage
 const ALGORITHM = "aes-256-gcm";
-const IV_LENGTH = 16; // For GCM, this is always 16
-const SALT_LENGTH = 32;
 const TAG_LENGTH = 16;
 
+// Legacy and v1 ciphertexts ran 100k-iteration PBKDF2 on every call
+const LEGACY_IV_LENGTH = 16;
+const LEGACY_SALT_LENGTH = 32;
+const LEGACY_PBKDF2_ITERATIONS = 100000;
+
+// v2 derives each key's master once per process, then a per-record key with HKDF
+const IV_LENGTH = 12; // The GCM standard nonce size
+const SALT_LENGTH = 16;
+const MASTER_KEY_ITERATIONS = 600000;
+const RECORD_KEY_INFO = "gistreach:credential:v2";
+
+/**
+ * Ciphertexts look like "<version>:<keyId>:<base64 payload>".
+ * Unversioned ciphertexts are legacy and belong to the default key.
+ */
+export type EnvelopeVersion = "v1" | "v2";
+
+export const CURRENT_ENVELOPE_VERSION: EnvelopeVersion = "v2";
+
+const ENVELOPE_VERSIONS: ReadonlySet<string> = new Set<EnvelopeVersion>(["v1", "v2"]);
+
+interface Envelope {
+  version: EnvelopeVersion | "legacy";
+  keyId: string;
+  payload: Buffer;
+}
+
+let keyProvider: KeyProvider | undefined;
+let keyringPromise: Promise<EncryptionKeyring> | undefined;
+let keyring: EncryptionKeyring | undefined;
+
+/**
+ * Use a different key provider than ENCRYPTION_KEY_PROVIDER selects. Must be called before
+ * the keyring is first loaded.
+ */
+export function setKeyProvider(provider: KeyProvider): void {
+  if (keyringPromise) {
+    throw new Error("Encryption keys are already loaded");
+  }
+  keyProvider = provider;
+}
+
+/**
+ * Load the encryption keys from the key provider, once per process
+ */
+export function loadKeyring(): Promise<EncryptionKeyring> {
+  keyringPromise ??= (keyProvider ?? createKeyProvider())
+    .loadKeyring()
+    .then((loaded) => {
+      keyring = loaded;
+      return loaded;
+    })
+    .catch((error) => {
+      // Let the next caller retry, e.g. after the KMS was briefly unreachable
+      keyringPromise = undefined;
+      throw error;
+    });
+
+  return keyringPromise;
+}
+
+/**
+ * Get the loaded encryption keys. Await loadKeyring() first.
+ */
+export function getKeyring(): EncryptionKeyring {
+  if (!keyring) {
+    throw new Error("Encryption keys are not loaded; await loadKeyring() first");
+  }
+  return keyring;
+}
+
+/**
+ * Split a ciphertext into its version, key id and payload
+ */
+function parseEnvelope(encryptedData: string): Envelope {
+  const [version, keyId] = encryptedData.split(":", 2);
+
+  if (version && keyId && ENVELOPE_VERSIONS.has(version)) {
+    return {
+      version: version as EnvelopeVersion,
+      keyId,
+      payload: Buffer.from(encryptedData.slice(version.length + keyId.length + 2), "base64"),
+    };
+  }
+
+  return { version: "legacy", keyId: DEFAULT_KEY_ID, payload: Buffer.from(encryptedData, "base64") };
+}
+
+/**
+ * Read the key id from a ciphertext envelope; legacy ciphertexts use the default key
+ */
+export function getCiphertextKeyId(encryptedData: string): string {
+  return parseEnvelope(encryptedData).keyId;
+}
+
+/**
+ * Whether a ciphertext should be rewritten with the current format and primary key
+ */
+export function needsReEncryption(encryptedData: string): boolean {
+  const envelope = parseEnvelope(encryptedData);
+  return envelope.version !== CURRENT_ENVELOPE_VERSION || envelope.keyId !== getKeyring().primaryKeyId;
+}
+
+/**
+ * Decrypt with whichever key wrote the data and encrypt again with the primary key
+ */
+export function reEncrypt(encryptedData: string): string {
+  return encrypt(decrypt(encryptedData));
+}
+
+function getSecret(keyId: string): Buffer {
+  const secret = getKeyring().keys.get(keyId);
+  if (!secret) {
+    throw new Error(`Encryption key "${keyId}" is not configured`);
+  }
+  return secret;
+}
+
+const masterKeys = new Map<string, Buffer>();
+
+/**
+ * Stretch a key's secret once per process; the salt is fixed per key id so every
+ * process derives the same master key
+ */
+function getMasterKey(keyId: string): Buffer {
+  let masterKey = masterKeys.get(keyId);
+  if (!masterKey) {
+    masterKey = crypto.pbkdf2Sync(getSecret(keyId), `gistreach:master-key:${keyId}`, MASTER_KEY_ITERATIONS, 32, "sha256");
+    masterKeys.set(keyId, masterKey);
+  }
+  return masterKey;
+}
+
+/**
+ * Derive the key for one record from the master key and the record's random salt
+ */
+function deriveRecordKey(keyId: string, salt: Buffer): Buffer {
+  return Buffer.from(crypto.hkdfSync("sha256", getMasterKey(keyId), salt, RECORD_KEY_INFO, 32));
+}
+
 /**
- * Derives a key from the master key using PBKDF2
+ * Derives a key from the master key using PBKDF2 (legacy and v1 only)
  */
-function deriveKey(masterKey: string, salt: Buffer): Buffer {
-  return crypto.pbkdf2Sync(masterKey, salt, 100000, 32, "sha256");
+function deriveLegacyKey(masterKey: Buffer, salt: Buffer): Buffer {
+  return crypto.pbkdf2Sync(masterKey, salt, LEGACY_PBKDF2_ITERATIONS, 32, "sha256");
 }
 
 /**
- * Encrypts a string using AES-256-GCM
+ * Encrypts a string using AES-256-GCM with the primary key.
+ * Older envelope versions can still be written so benchmarks can compare them.
  */
-export function encrypt(text: string): string {
+export function encrypt(text: string, version: EnvelopeVersion = CURRENT_ENVELOPE_VERSION): string {
   try {
-    const masterKey = env.ENCRYPTION_KEY;
-    if (!masterKey) {
-      throw new Error("ENCRYPTION_KEY environment variable is not set");
-    }
+    const { primaryKeyId } = getKeyring();
+    const header = `${version}:${primaryKeyId}`;
 
     // Generate random salt and IV
-    const salt = crypto.randomBytes(SALT_LENGTH);
-    const iv = crypto.randomBytes(IV_LENGTH);
+    const salt = crypto.randomBytes(version === "v1" ? LEGACY_SALT_LENGTH : SALT_LENGTH);
+    const iv = crypto.randomBytes(version === "v1" ? LEGACY_IV_LENGTH : IV_LENGTH);
 
-    // Derive key from master key and salt
-    const key = deriveKey(masterKey, salt);
+    const key = version === "v1"
+      ? deriveLegacyKey(getSecret(primaryKeyId), salt)
+      : deriveRecordKey(primaryKeyId, salt);
 
     // Create cipher
     const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
-    cipher.setAAD(salt); // Use salt as additional authenticated data
-
-    // Encrypt the text
-    let encrypted = cipher.update(text, "utf8", "hex");
-    encrypted += cipher.final("hex");
+    // Authenticate the header too, so a ciphertext can't be relabelled with another key id
+    cipher.setAAD(Buffer.concat([Buffer.from(header), salt]));
 
-    // Get the authentication tag
-    const tag = cipher.getAuthTag();
+    const encrypted = Buffer.concat([cipher.update(text, "utf8"), cipher.final()]);
 
     // Combine salt + iv + tag + encrypted data
-    const combined = Buffer.concat([
-      salt,
-      iv,
-      tag,
-      Buffer.from(encrypted, "hex")
-    ]);
-
-    return combined.toString("base64");
+    const combined = Buffer.concat([salt, iv, cipher.getAuthTag(), encrypted]);
+
+    return `${header}:${combined.toString("base64")}`;
   } catch (error) {
     console.error("Encryption error:", error);
     throw new Error("Failed to encrypt data");
@@ -58,37 +192,33 @@ export function encrypt(text: string): string {
 }
 
 /**
- * Decrypts a string using AES-256-GCM
+ * Decrypts a string using AES-256-GCM with the key and format recorded in its envelope
  */
 export function decrypt(encryptedData: string): string {
   try {
-    const masterKey = env.ENCRYPTION_KEY;
-    if (!masterKey) {
-      throw new Error("ENCRYPTION_KEY environment variable is not set");
-    }
-
-    // Parse the combined data
-    const combined = Buffer.from(encryptedData, "base64");
+    const { version, keyId, payload } = parseEnvelope(encryptedData);
+    const isCurrent = version === CURRENT_ENVELOPE_VERSION;
+    const saltLength = isCurrent ? SALT_LENGTH : LEGACY_SALT_LENGTH;
+    const ivLength = isCurrent ? IV_LENGTH : LEGACY_IV_LENGTH;
 
     // Extract components
-    const salt = combined.subarray(0, SALT_LENGTH);
-    const iv = combined.subarray(SALT_LENGTH, SALT_LENGTH + IV_LENGTH);
-    const tag = combined.subarray(SALT_LENGTH + IV_LENGTH, SALT_LENGTH + IV_LENGTH + TAG_LENGTH);
-    const encrypted = combined.subarray(SALT_LENGTH + IV_LENGTH + TAG_LENGTH);
+    const salt = payload.subarray(0, saltLength);
+    const iv = payload.subarray(saltLength, saltLength + ivLength);
+    const tag = payload.subarray(saltLength + ivLength, saltLength + ivLength + TAG_LENGTH);
+    const encrypted = payload.subarray(saltLength + ivLength + TAG_LENGTH);
 
-    // Derive key from master key and salt
-    const key = deriveKey(masterKey, salt);
+    const key = isCurrent
+      ? deriveRecordKey(keyId, salt)
+      : deriveLegacyKey(getSecret(keyId), salt);
 
     // Create decipher
     const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
-    decipher.setAAD(salt); // Use salt as additional authenticated data
+    decipher.setAAD(version === "legacy"
+      ? salt
+      : Buffer.concat([Buffer.from(`${version}:${keyId}`), salt]));
     decipher.setAuthTag(tag);
 
-    // Decrypt the data
-    let decrypted = decipher.update(encrypted, undefined, "utf8");
-    decrypted += decipher.final("utf8");
-
-    return decrypted;
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
   } catch (error) {
     console.error("Decryption error:", error);
     throw new Error("Failed to decrypt data");
@@ -159,19 +289,21 @@ export function secureCompare(a: string, b: string): boolean {
  */
 export class CredentialManager {
   /**
-   * Encrypts and stores credentials
+   * Encrypts and stores credentials, loading the keys from the key provider on first use
    */
-  static encryptCredentials(credentials: {
+  static async encryptCredentials(credentials: {
     accessToken: string;
     refreshToken?: string;
     expiresAt?: Date;
     scope?: string[];
     [key: string]: any;
-  }): {
+  }): Promise<{
     encryptedAccessToken: string;
     encryptedRefreshToken?: string;
     encryptedMetadata?: string;
-  } {
+  }> {
+    await loadKeyring();
+
     const result: any = {
       encryptedAccessToken: encrypt(credentials.accessToken),
     };
@@ -193,17 +325,19 @@ export class CredentialManager {
   }
 
   /**
-   * Decrypts stored credentials
+   * Decrypts stored credentials, loading the keys from the key provider on first use
    */
-  static decryptCredentials(encryptedData: {
+  static async decryptCredentials(encryptedData: {
     encryptedAccessToken: string;
     encryptedRefreshToken?: string;
     encryptedMetadata?: string;
-  }): {
+  }): Promise<{
     accessToken: string;
     refreshToken?: string;
     [key: string]: any;
-  } {
+  }> {
+    await loadKeyring();
+
     const result: any = {
       accessToken: decrypt(encryptedData.encryptedAccessToken),
     };
@@ -0,0 +1,25 @@
+import { pathToFileURL } from "node:url";
+import { createKeyProvider, KmsKeyProvider } from "@/lib/key-provider";
+
+/**
+ * Create a new data key with the configured KMS and print its wrapped form.
+ * Add the output to ENCRYPTION_KMS_WRAPPED_KEYS as "<id>:<wrapped key>".
+ */
+export async function generateWrappedDataKey(): Promise<string> {
+  const provider = createKeyProvider();
+  if (!(provider instanceof KmsKeyProvider)) {
+    throw new Error("Set ENCRYPTION_KEY_PROVIDER=kms to generate a wrapped data key");
+  }
+
+  return provider.generateDataKey();
+}
+
+// Run standalone: `pnpm kms:generate-data-key`
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  generateWrappedDataKey()
+    .then((wrapped) => console.log(wrapped))
+    .catch((error) => {
+      console.error("Failed to generate data key:", error);
+      process.exitCode = 1;
+    });
+}
@@ -0,0 +1,198 @@
+import { readFile } from "node:fs/promises";
+import { env } from "@/env";
+
+// Key id for ENCRYPTION_KEY, which also decrypts legacy unversioned ciphertexts
+export const DEFAULT_KEY_ID = "default";
+
+export interface EncryptionKeyring {
+  primaryKeyId: string; // Encrypts everything new
+  keys: Map<string, Buffer>; // Every key that can still decrypt, by id
+}
+
+/**
+ * Source of the key material used to encrypt credentials
+ */
+export interface KeyProvider {
+  readonly name: string;
+
+  /**
+   * Load every configured key. Called once per process.
+   */
+  loadKeyring(): Promise<EncryptionKeyring>;
+}
+
+/**
+ * Parse "id:value" pairs separated by commas
+ */
+function parseKeyList(list: string): Array<[string, string]> {
+  return list.split(",").filter(entry => entry.trim()).map((entry) => {
+    const separator = entry.indexOf(":");
+    return [entry.slice(0, separator).trim(), entry.slice(separator + 1).trim()];
+  });
+}
+
+/**
+ * Keep ENCRYPTION_KEY readable as the "default" key whatever the provider, so switching
+ * providers before everything is re-encrypted doesn't strand older ciphertexts
+ */
+function addLegacyDefaultKey(keys: Map<string, Buffer>): void {
+  if (env.ENCRYPTION_KEY && !keys.has(DEFAULT_KEY_ID)) {
+    keys.set(DEFAULT_KEY_ID, Buffer.from(env.ENCRYPTION_KEY, "utf8"));
+  }
+}
+
+function buildKeyring(keys: Map<string, Buffer>, primaryKeyId: string | undefined, source: string): EncryptionKeyring {
+  const primary = primaryKeyId ?? keys.keys().next().value;
+  if (!primary) {
+    throw new Error(`No encryption keys found in ${source}`);
+  }
+  if (!keys.has(primary)) {
+    throw new Error(`Primary encryption key "${primary}" is not in ${source}`);
+  }
+
+  return { primaryKeyId: primary, keys };
+}
+
+/**
+ * Keys straight from the environment.
+ * ENCRYPTION_KEYS lists "id:secret" pairs; ENCRYPTION_PRIMARY_KEY_ID picks the one used for
+ * new data and defaults to the first. ENCRYPTION_KEY is kept as the "default" key so data
+ * written before rotation stays readable.
+ */
+export class EnvKeyProvider implements KeyProvider {
+  readonly name = "env";
+
+  async loadKeyring(): Promise<EncryptionKeyring> {
+    const keys = new Map<string, Buffer>();
+
+    for (const [id, secret] of env.ENCRYPTION_KEYS ? parseKeyList(env.ENCRYPTION_KEYS) : []) {
+      keys.set(id, Buffer.from(secret, "utf8"));
+    }
+
+    addLegacyDefaultKey(keys);
+
+    return buildKeyring(keys, env.ENCRYPTION_PRIMARY_KEY_ID, "ENCRYPTION_KEYS or ENCRYPTION_KEY");
+  }
+}
+
+/**
+ * Keys read from a mounted secret file, such as a Kubernetes or Docker secret.
+ * The file holds either a single key, used as the "default" key, or JSON:
+ * `{ "primaryKeyId": "2026-10", "keys": { "2026-10": "...", "2025-08": "..." } }`,
+ * in which case ENCRYPTION_KEY, if set, still decrypts as "default".
+ */
+export class FileKeyProvider implements KeyProvider {
+  readonly name = "file";
+
+  constructor(private path: string) { }
+
+  async loadKeyring(): Promise<EncryptionKeyring> {
+    const contents = (await readFile(this.path, "utf8")).trim();
+    const keys = new Map<string, Buffer>();
+
+    if (!contents.startsWith("{")) {
+      keys.set(DEFAULT_KEY_ID, Buffer.from(contents, "utf8"));
+      return buildKeyring(keys, DEFAULT_KEY_ID, this.path);
+    }
+
+    const parsed = JSON.parse(contents) as { primaryKeyId?: string; keys?: Record<string, string> };
+    for (const [id, secret] of Object.entries(parsed.keys ?? {})) {
+      keys.set(id, Buffer.from(secret, "utf8"));
+    }
+
+    // Added after the primary is picked, so the legacy key is only ever used to decrypt
+    const keyring = buildKeyring(keys, parsed.primaryKeyId ?? env.ENCRYPTION_PRIMARY_KEY_ID, this.path);
+    addLegacyDefaultKey(keyring.keys);
+    return keyring;
+  }
+}
+
+export interface KmsKeyProviderConfig {
+  url: string; // Base URL of the KMS
+  token?: string; // Sent as a bearer token
+  kmsKeyId: string; // The KMS key that wraps our data keys
+  wrappedKeys: string; // "id:wrappedDataKey" pairs, as returned by generateDataKey
+  primaryKeyId?: string;
+}
+
+/**
+ * Envelope encryption through a KMS-style HTTP API. Only wrapped data keys are configured;
+ * the KMS unwraps them at startup, so the key that protects them never enters this process.
+ *
+ * Endpoints, relative to the base URL:
+ * - POST /v1/keys/:kmsKeyId/generate-data-key → { plaintext, ciphertext }
+ * - POST /v1/keys/:kmsKeyId/decrypt { ciphertext } → { plaintext }
+ * Keys are base64 encoded. `pnpm kms:local` starts a stand-in for development and tests.
+ */
+export class KmsKeyProvider implements KeyProvider {
+  readonly name = "kms";
+
+  constructor(private config: KmsKeyProviderConfig) { }
+
+  async loadKeyring(): Promise<EncryptionKeyring> {
+    const keys = new Map<string, Buffer>();
+
+    for (const [id, wrapped] of parseKeyList(this.config.wrappedKeys)) {
+      const { plaintext } = await this.request<{ plaintext: string }>("decrypt", { ciphertext: wrapped });
+      keys.set(id, Buffer.from(plaintext, "base64"));
+    }
+
+    // Added after the primary is picked, so the legacy key is only ever used to decrypt
+    const keyring = buildKeyring(keys, this.config.primaryKeyId, "ENCRYPTION_KMS_WRAPPED_KEYS");
+    addLegacyDefaultKey(keyring.keys);
+    return keyring;
+  }
+
+  /**
+   * Ask the KMS for a new data key and return only its wrapped form, ready to configure
+   */
+  async generateDataKey(): Promise<string> {
+    const { ciphertext } = await this.request<{ ciphertext: string }>("generate-data-key", {});
+    return ciphertext;
+  }
+
+  private async request<T>(operation: string, body: Record<string, unknown>): Promise<T> {
+    const url = `${this.config.url.replace(/\/$/, "")}/v1/keys/${encodeURIComponent(this.config.kmsKeyId)}/${operation}`;
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.config.token && { Authorization: `Bearer ${this.config.token}` }),
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw new Error(`KMS ${operation} failed: ${response.status} ${response.statusText} - ${await response.text()}`);
+    }
+
+    return response.json() as Promise<T>;
+  }
+}
+
+/**
+ * Build the key provider selected by ENCRYPTION_KEY_PROVIDER
+ */
+export function createKeyProvider(): KeyProvider {
+  switch (env.ENCRYPTION_KEY_PROVIDER) {
+    case "file":
+      if (!env.ENCRYPTION_KEY_FILE) {
+        throw new Error("ENCRYPTION_KEY_FILE must be set for the file key provider");
+      }
+      return new FileKeyProvider(env.ENCRYPTION_KEY_FILE);
+    case "kms":
+      if (!env.ENCRYPTION_KMS_URL || !env.ENCRYPTION_KMS_KEY_ID) {
+        throw new Error("ENCRYPTION_KMS_URL and ENCRYPTION_KMS_KEY_ID must be set for the kms key provider");
+      }
+      return new KmsKeyProvider({
+        url: env.ENCRYPTION_KMS_URL,
+        token: env.ENCRYPTION_KMS_TOKEN,
+        kmsKeyId: env.ENCRYPTION_KMS_KEY_ID,
+        wrappedKeys: env.ENCRYPTION_KMS_WRAPPED_KEYS ?? "",
+        primaryKeyId: env.ENCRYPTION_PRIMARY_KEY_ID,
+      });
+    default:
+      return new EnvKeyProvider();
+  }
+}
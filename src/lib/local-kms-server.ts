@@ -0,0 +1,108 @@
+import crypto from "node:crypto";
+import { createServer, type Server } from "node:http";
+import { pathToFileURL } from "node:url";
+
+export interface LocalKmsOptions {
+  port: number;
+  masterKey: Buffer; // Stands in for the key material a real KMS never releases
+  token?: string; // Bearer token clients must send, if set
+}
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Each KMS key id gets its own wrapping key, so a data key only unwraps under the key that wrapped it
+ */
+function getWrappingKey(masterKey: Buffer, kmsKeyId: string): Buffer {
+  return crypto.createHmac("sha256", masterKey).update(kmsKeyId).digest();
+}
+
+function wrap(masterKey: Buffer, kmsKeyId: string, plaintext: Buffer): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv("aes-256-gcm", getWrappingKey(masterKey, kmsKeyId), iv);
+  cipher.setAAD(Buffer.from(kmsKeyId));
+  const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString("base64");
+}
+
+function unwrap(masterKey: Buffer, kmsKeyId: string, ciphertext: string): Buffer {
+  const combined = Buffer.from(ciphertext, "base64");
+  const decipher = crypto.createDecipheriv(
+    "aes-256-gcm",
+    getWrappingKey(masterKey, kmsKeyId),
+    combined.subarray(0, IV_LENGTH)
+  );
+  decipher.setAAD(Buffer.from(kmsKeyId));
+  decipher.setAuthTag(combined.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(combined.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+/**
+ * A stand-in for the KMS that KmsKeyProvider talks to, for development and tests.
+ * Not for production: the master key lives in this process.
+ */
+export function startLocalKmsServer(options: LocalKmsOptions): Promise<Server> {
+  const server = createServer((req, res) => {
+    const send = (status: number, body: Record<string, unknown>) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    const match = /^\/v1\/keys\/([^/]+)\/(generate-data-key|decrypt)$/.exec(req.url ?? "");
+    if (req.method !== "POST" || !match) {
+      send(404, { error: "not_found" });
+      return;
+    }
+    if (options.token && req.headers.authorization !== `Bearer ${options.token}`) {
+      send(401, { error: "unauthorized" });
+      return;
+    }
+
+    const kmsKeyId = decodeURIComponent(match[1]!);
+    const chunks: Buffer[] = [];
+
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      try {
+        if (match[2] === "generate-data-key") {
+          const plaintext = crypto.randomBytes(32);
+          send(200, {
+            plaintext: plaintext.toString("base64"),
+            ciphertext: wrap(options.masterKey, kmsKeyId, plaintext),
+          });
+          return;
+        }
+
+        const { ciphertext } = JSON.parse(Buffer.concat(chunks).toString("utf8")) as { ciphertext?: string };
+        if (!ciphertext) {
+          send(400, { error: "missing_ciphertext" });
+          return;
+        }
+
+        send(200, { plaintext: unwrap(options.masterKey, kmsKeyId, ciphertext).toString("base64") });
+      } catch {
+        send(400, { error: "invalid_ciphertext" });
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(options.port, () => resolve(server));
+  });
+}
+
+// Run standalone: `pnpm kms:local`. LOCAL_KMS_MASTER_KEY (hex) keeps wrapped keys valid across restarts.
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const masterKeyHex = process.env.LOCAL_KMS_MASTER_KEY;
+  const masterKey = masterKeyHex ? Buffer.from(masterKeyHex, "hex") : crypto.randomBytes(32);
+  const port = Number.parseInt(process.env.LOCAL_KMS_PORT ?? "8200", 10);
+
+  if (!masterKeyHex) {
+    console.log(`[LOCAL_KMS] Generated master key ${masterKey.toString("hex")}; set LOCAL_KMS_MASTER_KEY to reuse it`);
+  }
+
+  startLocalKmsServer({ port, masterKey, token: process.env.ENCRYPTION_KMS_TOKEN }).then(() => {
+    console.log(`[LOCAL_KMS] Listening on http://localhost:${port}`);
+  });
+}
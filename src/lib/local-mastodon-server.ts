@@ -0,0 +1,270 @@
+import crypto from "node:crypto";
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import { pathToFileURL } from "node:url";
+
+export interface LocalMastodonOptions {
+  port: number;
+  username?: string; // Account every authorization signs in as
+}
+
+interface LocalApp {
+  clientId: string;
+  clientSecret: string;
+  redirectUris: string[];
+  scopes: string;
+}
+
+interface LocalStatus {
+  id: string;
+  content: string;
+  inReplyToId: string | null;
+  mediaIds: string[];
+  createdAt: string;
+}
+
+/**
+ * Everything a local Mastodon server has been asked to do, for assertions in tests
+ */
+export interface LocalMastodonState {
+  apps: Map<string, LocalApp>;
+  statuses: LocalStatus[];
+  revokedTokens: Set<string>;
+}
+
+/**
+ * Read a form-encoded or JSON request body
+ */
+async function readBody(req: IncomingMessage): Promise<Record<string, any>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString("utf8");
+  const contentType = req.headers["content-type"] ?? "";
+
+  if (contentType.includes("application/json")) {
+    return raw ? JSON.parse(raw) : {};
+  }
+  if (contentType.includes("application/x-www-form-urlencoded")) {
+    return Object.fromEntries(new URLSearchParams(raw));
+  }
+  return {}; // Multipart uploads; the file itself isn't kept
+}
+
+/**
+ * A stand-in for a Mastodon instance covering the endpoints MastodonAuthProvider and
+ * MastodonPublisher use, for development and tests. Authorization is approved immediately:
+ * visiting /oauth/authorize redirects straight back with a code.
+ */
+export function startLocalMastodonServer(
+  options: LocalMastodonOptions
+): Promise<{ server: Server; state: LocalMastodonState }> {
+  const username = options.username ?? "tester";
+  const accountId = "1";
+  const baseUrl = `http://localhost:${options.port}`;
+
+  const state: LocalMastodonState = {
+    apps: new Map(),
+    statuses: [],
+    revokedTokens: new Set(),
+  };
+  const codes = new Map<string, { clientId: string; redirectUri: string; scope: string }>();
+  const tokens = new Map<string, { clientId: string; scope: string }>();
+  let nextId = 100;
+
+  const toStatus = (status: LocalStatus) => ({
+    id: status.id,
+    uri: `${baseUrl}/users/${username}/statuses/${status.id}`,
+    url: `${baseUrl}/@${username}/${status.id}`,
+    content: status.content,
+    in_reply_to_id: status.inReplyToId,
+    media_attachments: status.mediaIds.map(id => ({ id, type: "image", url: `${baseUrl}/media/${id}` })),
+    created_at: status.createdAt,
+    replies_count: 0,
+    reblogs_count: 0,
+    favourites_count: 0,
+  });
+
+  const server = createServer(async (req, res) => {
+    const send = (status: number, body: Record<string, unknown>) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    const url = new URL(req.url ?? "/", baseUrl);
+    const route = `${req.method} ${url.pathname}`;
+
+    try {
+      if (route === "POST /api/v1/apps") {
+        const body = await readBody(req);
+        if (!body.client_name || !body.redirect_uris) {
+          send(422, { error: "Validation failed: client_name and redirect_uris are required" });
+          return;
+        }
+
+        const app: LocalApp = {
+          clientId: crypto.randomBytes(16).toString("hex"),
+          clientSecret: crypto.randomBytes(32).toString("hex"),
+          redirectUris: String(body.redirect_uris).split(/\s+/),
+          scopes: body.scopes ?? "read",
+        };
+        state.apps.set(app.clientId, app);
+
+        send(200, {
+          id: String(nextId++),
+          name: body.client_name,
+          client_id: app.clientId,
+          client_secret: app.clientSecret,
+          redirect_uri: app.redirectUris.join("\n"),
+        });
+        return;
+      }
+
+      if (route === "GET /oauth/authorize") {
+        const clientId = url.searchParams.get("client_id") ?? "";
+        const redirectUri = url.searchParams.get("redirect_uri") ?? "";
+        const app = state.apps.get(clientId);
+
+        if (!app || !app.redirectUris.includes(redirectUri)) {
+          send(400, { error: "invalid_client" });
+          return;
+        }
+
+        const code = crypto.randomBytes(16).toString("hex");
+        codes.set(code, { clientId, redirectUri, scope: url.searchParams.get("scope") ?? app.scopes });
+
+        const redirect = new URL(redirectUri);
+        redirect.searchParams.set("code", code);
+        redirect.searchParams.set("state", url.searchParams.get("state") ?? "");
+        res.writeHead(302, { Location: redirect.toString() });
+        res.end();
+        return;
+      }
+
+      if (route === "POST /oauth/token") {
+        const body = await readBody(req);
+        const app = state.apps.get(body.client_id);
+        const grant = codes.get(body.code);
+
+        if (!app || app.clientSecret !== body.client_secret) {
+          send(401, { error: "invalid_client" });
+          return;
+        }
+        if (!grant || grant.clientId !== app.clientId || grant.redirectUri !== body.redirect_uri) {
+          send(400, { error: "invalid_grant" });
+          return;
+        }
+
+        codes.delete(body.code);
+        const accessToken = crypto.randomBytes(32).toString("hex");
+        tokens.set(accessToken, { clientId: app.clientId, scope: grant.scope });
+
+        send(200, {
+          access_token: accessToken,
+          token_type: "Bearer",
+          scope: grant.scope,
+          created_at: Math.floor(Date.now() / 1000),
+        });
+        return;
+      }
+
+      if (route === "POST /oauth/revoke") {
+        const body = await readBody(req);
+        if (tokens.delete(body.token)) {
+          state.revokedTokens.add(body.token);
+        }
+        send(200, {});
+        return;
+      }
+
+      // Everything below needs a valid access token
+      const accessToken = req.headers.authorization?.replace(/^Bearer /, "") ?? "";
+      if (!tokens.has(accessToken)) {
+        send(401, { error: "The access token is invalid" });
+        return;
+      }
+
+      if (route === "GET /api/v1/accounts/verify_credentials") {
+        send(200, {
+          id: accountId,
+          username,
+          acct: username,
+          display_name: `Local ${username}`,
+          url: `${baseUrl}/@${username}`,
+          avatar: `${baseUrl}/avatars/${username}.png`,
+          bot: false,
+          followers_count: 0,
+          following_count: 0,
+          statuses_count: state.statuses.length,
+        });
+        return;
+      }
+
+      if (route === "POST /api/v2/media") {
+        await readBody(req);
+        const id = String(nextId++);
+        send(200, { id, type: "image", url: `${baseUrl}/media/${id}` });
+        return;
+      }
+
+      const mediaMatch = /^GET \/api\/v1\/media\/(\w+)$/.exec(route);
+      if (mediaMatch) {
+        send(200, { id: mediaMatch[1], type: "image", url: `${baseUrl}/media/${mediaMatch[1]}` });
+        return;
+      }
+
+      if (route === "POST /api/v1/statuses") {
+        const body = await readBody(req);
+        if (!body.status && !body.media_ids?.length) {
+          send(422, { error: "Validation failed: Text can't be blank" });
+          return;
+        }
+        if (body.in_reply_to_id && !state.statuses.some(status => status.id === body.in_reply_to_id)) {
+          send(404, { error: "Record not found" });
+          return;
+        }
+
+        const status: LocalStatus = {
+          id: String(nextId++),
+          content: body.status ?? "",
+          inReplyToId: body.in_reply_to_id ?? null,
+          mediaIds: body.media_ids ?? [],
+          createdAt: new Date().toISOString(),
+        };
+        state.statuses.push(status);
+
+        send(200, toStatus(status));
+        return;
+      }
+
+      const statusMatch = /^GET \/api\/v1\/statuses\/(\w+)$/.exec(route);
+      if (statusMatch) {
+        const status = state.statuses.find(candidate => candidate.id === statusMatch[1]);
+        if (!status) {
+          send(404, { error: "Record not found" });
+          return;
+        }
+        send(200, toStatus(status));
+        return;
+      }
+
+      send(404, { error: "Not found" });
+    } catch (error) {
+      send(500, { error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  return new Promise((resolve) => {
+    server.listen(options.port, () => resolve({ server, state }));
+  });
+}
+
+// Run standalone: `pnpm mastodon:local`, then connect to the instance http://localhost:3100
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number.parseInt(process.env.LOCAL_MASTODON_PORT ?? "3100", 10);
+
+  startLocalMastodonServer({ port, username: process.env.LOCAL_MASTODON_USERNAME }).then(() => {
+    console.log(`[LOCAL_MASTODON] Listening on http://localhost:${port}`);
+  });
+}
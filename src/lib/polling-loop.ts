@@ -0,0 +1,41 @@
+/**
+ * Run a job every intervalMs until the process receives SIGINT or SIGTERM.
+ * The job is never run concurrently with itself; errors are logged and the loop carries on.
+ */
+export async function runPollingLoop(
+  name: string,
+  intervalMs: number,
+  job: () => Promise<void>
+): Promise<void> {
+  let stopping = false;
+  let wake: (() => void) | null = null;
+
+  const stop = () => {
+    console.log(`[${name}] Shutting down...`);
+    stopping = true;
+    wake?.();
+  };
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+
+  console.log(`[${name}] Started, polling every ${intervalMs}ms`);
+
+  while (!stopping) {
+    try {
+      await job();
+    } catch (error) {
+      console.error(`[${name}] Job failed:`, error);
+    }
+
+    if (stopping) break;
+
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, intervalMs);
+      wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+    wake = null;
+  }
+}
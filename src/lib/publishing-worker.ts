@@ -0,0 +1,69 @@
+import { pathToFileURL } from "node:url";
+import { env } from "@/env";
+import { db } from "@/server/db";
+import { runPollingLoop } from "@/lib/polling-loop";
+import { PublishingService, type Clock } from "@/server/services/publishing/publishing-service";
+
+export interface PublishingWorkerOptions {
+  batchSize?: number;
+  pollIntervalMs?: number;
+  clock?: Clock; // Inject a fake clock to drive the worker in tests
+}
+
+/**
+ * Claim and publish every scheduled post that is due.
+ * Returns the number of posts processed.
+ */
+export async function processDueScheduledPosts(options: PublishingWorkerOptions = {}): Promise<number> {
+  const batchSize = options.batchSize ?? env.PUBLISH_WORKER_BATCH_SIZE;
+  const service = new PublishingService(db, options.clock);
+
+  const released = await service.releaseStalePosts();
+  if (released > 0) {
+    console.warn(`[PUBLISHING_WORKER] Marked ${released} interrupted posts as failed`);
+  }
+
+  let processed = 0;
+
+  // Keep draining until a batch comes back short
+  while (true) {
+    const postIds = await service.claimDuePosts(batchSize);
+    if (postIds.length === 0) {
+      break;
+    }
+
+    const outcomes = await Promise.all(postIds.map(id => service.publishPost(id)));
+    processed += outcomes.length;
+
+    for (const outcome of outcomes) {
+      console.log(`[PUBLISHING_WORKER] Post ${outcome.publishedPostId} on ${outcome.platform}: ${outcome.status}${outcome.error ? ` (${outcome.error})` : ""}`);
+    }
+
+    if (postIds.length < batchSize) {
+      break;
+    }
+  }
+
+  return processed;
+}
+
+/**
+ * Poll for due scheduled posts until the process receives SIGINT or SIGTERM
+ */
+export async function runPublishingWorker(options: PublishingWorkerOptions = {}): Promise<void> {
+  const pollIntervalMs = options.pollIntervalMs ?? env.PUBLISH_WORKER_POLL_INTERVAL_MS;
+
+  await runPollingLoop("PUBLISHING_WORKER", pollIntervalMs, async () => {
+    await processDueScheduledPosts(options);
+  });
+
+  await db.$disconnect();
+}
+
+// Allow running as a standalone process: `pnpm worker:publishing`
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runPublishingWorker().catch((error) => {
+    console.error("[PUBLISHING_WORKER] Fatal error:", error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,42 @@
+import { pathToFileURL } from "node:url";
+import { db } from "@/server/db";
+import { loadKeyring } from "@/lib/encryption";
+import { CredentialService, type ReEncryptionSummary } from "@/server/services/credential";
+
+const DEFAULT_BATCH_SIZE = 100;
+
+/**
+ * Move every stored social account token onto the primary encryption key and current format.
+ * Run after rotating ENCRYPTION_PRIMARY_KEY_ID or upgrading the ciphertext format; old keys can be
+ * removed once it reports no failures.
+ */
+export async function reEncryptAllCredentials(
+  batchSize: number = DEFAULT_BATCH_SIZE
+): Promise<ReEncryptionSummary> {
+  const service = new CredentialService(db);
+
+  const { primaryKeyId } = await loadKeyring();
+
+  console.log(`[CREDENTIAL_REENCRYPT] Re-encrypting credentials with key ${primaryKeyId}...`);
+
+  const summary = await service.reEncryptCredentials(batchSize);
+
+  console.log(`[CREDENTIAL_REENCRYPT] Scanned ${summary.scanned}: ${summary.reEncrypted} re-encrypted, ${summary.failed} failed`);
+
+  return summary;
+}
+
+// Allow running as a one-off script: `pnpm credentials:reencrypt [batchSize]`
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const batchSize = process.argv[2] ? Number.parseInt(process.argv[2], 10) : DEFAULT_BATCH_SIZE;
+
+  reEncryptAllCredentials(batchSize)
+    .then((summary) => {
+      process.exitCode = summary.failed > 0 ? 1 : 0;
+    })
+    .catch((error) => {
+      console.error("[CREDENTIAL_REENCRYPT] Fatal error:", error);
+      process.exitCode = 1;
+    })
+    .finally(() => db.$disconnect());
+}
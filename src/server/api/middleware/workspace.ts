@@ -1,8 +1,11 @@
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
-import { WorkspaceRole } from "@/server/services/workspace";
+import { WorkspacePermission, WorkspaceRole, hasPermission } from "@/server/services/workspace";
 import { protectedProcedure } from "../trpc";
 
+// Permissions live with the workspace service so non-API code can check them too
+export { WorkspacePermission, hasPermission };
+
 /**
  * Middleware to ensure user has access to a workspace
  */
@@ -80,6 +83,22 @@ export const withWorkspaceMember = withWorkspaceAccess.use(async ({ ctx, next })
   return next({ ctx });
 });
 
+/**
+ * Middleware to ensure user's role grants a specific workspace permission
+ */
+export function withWorkspacePermission(permission: WorkspacePermission) {
+  return withWorkspaceAccess.use(async ({ ctx, next }) => {
+    if (!hasPermission(ctx.userRole, permission)) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: `Your role doesn't allow this action (${permission})`,
+      });
+    }
+
+    return next({ ctx });
+  });
+}
+
 /**
  * Utility function to check if user can manage another user's role
  */
@@ -115,93 +134,3 @@ export function getRoleLevel(role: WorkspaceRole): number {
       return 0;
   }
 }
-
-/**
- * Check if a role has permission for a specific action
- */
-export function hasPermission(role: WorkspaceRole, permission: WorkspacePermission): boolean {
-  const permissions = getPermissionsForRole(role);
-  return permissions.includes(permission);
-}
-
-export enum WorkspacePermission {
-  // Content permissions
-  CREATE_CONTENT = "create_content",
-  EDIT_CONTENT = "edit_content",
-  DELETE_CONTENT = "delete_content",
-  PUBLISH_CONTENT = "publish_content",
-
-  // Social account permissions
-  CONNECT_SOCIAL_ACCOUNTS = "connect_social_accounts",
-  DISCONNECT_SOCIAL_ACCOUNTS = "disconnect_social_accounts",
-
-  // Analytics permissions
-  VIEW_ANALYTICS = "view_analytics",
-  EXPORT_ANALYTICS = "export_analytics",
-
-  // Team management permissions
-  INVITE_MEMBERS = "invite_members",
-  REMOVE_MEMBERS = "remove_members",
-  MANAGE_ROLES = "manage_roles",
-
-  // Workspace management permissions
-  EDIT_WORKSPACE_SETTINGS = "edit_workspace_settings",
-  DELETE_WORKSPACE = "delete_workspace",
-  MANAGE_BILLING = "manage_billing",
-}
-
-function getPermissionsForRole(role: WorkspaceRole): WorkspacePermission[] {
-  switch (role) {
-    case WorkspaceRole.OWNER:
-      return [
-        // All permissions
-        WorkspacePermission.CREATE_CONTENT,
-        WorkspacePermission.EDIT_CONTENT,
-        WorkspacePermission.DELETE_CONTENT,
-        WorkspacePermission.PUBLISH_CONTENT,
-        WorkspacePermission.CONNECT_SOCIAL_ACCOUNTS,
-        WorkspacePermission.DISCONNECT_SOCIAL_ACCOUNTS,
-        WorkspacePermission.VIEW_ANALYTICS,
-        WorkspacePermission.EXPORT_ANALYTICS,
-        WorkspacePermission.INVITE_MEMBERS,
-        WorkspacePermission.REMOVE_MEMBERS,
-        WorkspacePermission.MANAGE_ROLES,
-        WorkspacePermission.EDIT_WORKSPACE_SETTINGS,
-        WorkspacePermission.DELETE_WORKSPACE,
-        WorkspacePermission.MANAGE_BILLING,
-      ];
-
-    case WorkspaceRole.ADMIN:
-      return [
-        WorkspacePermission.CREATE_CONTENT,
-        WorkspacePermission.EDIT_CONTENT,
-        WorkspacePermission.DELETE_CONTENT,
-        WorkspacePermission.PUBLISH_CONTENT,
-        WorkspacePermission.CONNECT_SOCIAL_ACCOUNTS,
-        WorkspacePermission.DISCONNECT_SOCIAL_ACCOUNTS,
-        WorkspacePermission.VIEW_ANALYTICS,
-        WorkspacePermission.EXPORT_ANALYTICS,
-        WorkspacePermission.INVITE_MEMBERS,
-        WorkspacePermission.REMOVE_MEMBERS,
-        WorkspacePermission.MANAGE_ROLES,
-        WorkspacePermission.EDIT_WORKSPACE_SETTINGS,
-      ];
-
-    case WorkspaceRole.MEMBER:
-      return [
-        WorkspacePermission.CREATE_CONTENT,
-        WorkspacePermission.EDIT_CONTENT,
-        WorkspacePermission.PUBLISH_CONTENT,
-        WorkspacePermission.CONNECT_SOCIAL_ACCOUNTS,
-        WorkspacePermission.VIEW_ANALYTICS,
-      ];
-
-    case WorkspaceRole.VIEWER:
-      return [
-        WorkspacePermission.VIEW_ANALYTICS,
-      ];
-
-    default:
-      return [];
-  }
-}
\ No newline at end of file
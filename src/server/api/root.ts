@@ -5,6 +5,9 @@ import { credentialRouter } from "@/server/api/routers/credential";
 import { socialAuthRouter } from "@/server/api/routers/social-auth";
 import { contentRouter } from "@/server/api/routers/content";
 import { aiContentRouter } from "@/server/api/routers/ai-content";
+import { publishingRouter } from "@/server/api/routers/publishing";
+import { analyticsRouter } from "@/server/api/routers/analytics";
+import { campaignRouter } from "@/server/api/routers/campaign";
 import { createCallerFactory, createTRPCRouter } from "@/server/api/trpc";
 
 /**
@@ -20,6 +23,9 @@ export const appRouter = createTRPCRouter({
   socialAuth: socialAuthRouter,
   content: contentRouter,
   aiContent: aiContentRouter,
+  publishing: publishingRouter,
+  analytics: analyticsRouter,
+  campaign: campaignRouter,
 });
 
 // export type definition of API
@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { createTRPCRouter } from "@/server/api/trpc";
+import {
+  AnalyticsService,
+  BucketSize,
+  RollupDimension
+} from "@/server/services/analytics/analytics-service";
+import {
+  withWorkspacePermission,
+  WorkspacePermission
+} from "@/server/api/middleware/workspace";
+import { SocialPlatformSchema } from "@/server/api/schemas";
+
+export const analyticsRouter = createTRPCRouter({
+  // Get how far back the workspace's plan keeps analytics
+  getRetentionWindow: withWorkspacePermission(WorkspacePermission.VIEW_ANALYTICS)
+    .query(async ({ ctx }) => {
+      const service = new AnalyticsService(ctx.db);
+      return service.getRetentionWindow(ctx.workspace.id);
+    }),
+
+  // Get the metrics snapshots of a published post within the plan's window
+  getPostHistory: withWorkspacePermission(WorkspacePermission.VIEW_ANALYTICS)
+    .input(z.object({
+      publishedPostId: z.string(),
+      startDate: z.date().optional(),
+      endDate: z.date().optional()
+    }))
+    .query(async ({ ctx, input }) => {
+      const service = new AnalyticsService(ctx.db);
+      return service.getPostHistory(ctx.workspace.id, input.publishedPostId, {
+        startDate: input.startDate,
+        endDate: input.endDate
+      });
+    }),
+
+  // Roll up metrics growth by hour, day or week; account and content breakdowns need advanced analytics
+  getRollup: withWorkspacePermission(WorkspacePermission.VIEW_ANALYTICS)
+    .input(z.object({
+      dimension: z.nativeEnum(RollupDimension).default(RollupDimension.WORKSPACE),
+      bucket: z.nativeEnum(BucketSize).default(BucketSize.DAY),
+      startDate: z.date().optional(),
+      endDate: z.date().optional(),
+      socialAccountId: z.string().optional(),
+      platform: SocialPlatformSchema.optional(),
+      contentId: z.string().optional()
+    }))
+    .query(async ({ ctx, input }) => {
+      const service = new AnalyticsService(ctx.db);
+      return service.getRollup(ctx.workspace.id, {
+        dimension: input.dimension,
+        bucket: input.bucket,
+        startDate: input.startDate,
+        endDate: input.endDate,
+        socialAccountId: input.socialAccountId,
+        platform: input.platform,
+        contentId: input.contentId
+      });
+    }),
+});
@@ -0,0 +1,109 @@
+import { z } from "zod";
+import { createTRPCRouter } from "@/server/api/trpc";
+import { CampaignService } from "@/server/services/campaign";
+import { CampaignStatus } from "@/server/services/statuses";
+import {
+  withWorkspaceAccess,
+  withWorkspacePermission,
+  WorkspacePermission
+} from "@/server/api/middleware/workspace";
+
+const CampaignInputSchema = z.object({
+  name: z.string().min(1).max(200),
+  description: z.string().max(2000).optional(),
+  startDate: z.date(),
+  endDate: z.date(),
+});
+
+const CampaignUpdateSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  description: z.string().max(2000).nullable().optional(),
+  startDate: z.date().optional(),
+  endDate: z.date().optional(),
+});
+
+export const campaignRouter = createTRPCRouter({
+  // List campaigns, optionally by status
+  getList: withWorkspaceAccess
+    .input(z.object({
+      status: z.nativeEnum(CampaignStatus).optional(),
+      limit: z.number().min(1).max(100).default(20),
+      offset: z.number().min(0).default(0)
+    }))
+    .query(async ({ ctx, input }) => {
+      const service = new CampaignService(ctx.db);
+      return service.getCampaigns(ctx.workspace.id, input);
+    }),
+
+  // Get a campaign with its content
+  getById: withWorkspaceAccess
+    .input(z.object({
+      campaignId: z.string()
+    }))
+    .query(async ({ ctx, input }) => {
+      const service = new CampaignService(ctx.db);
+      return service.getCampaign(ctx.workspace.id, input.campaignId);
+    }),
+
+  // Create a campaign in draft
+  create: withWorkspacePermission(WorkspacePermission.CREATE_CONTENT)
+    .input(CampaignInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const service = new CampaignService(ctx.db);
+      return service.createCampaign(ctx.workspace.id, input);
+    }),
+
+  // Update a campaign's details or dates
+  update: withWorkspacePermission(WorkspacePermission.EDIT_CONTENT)
+    .input(z.object({
+      campaignId: z.string(),
+      updates: CampaignUpdateSchema
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const service = new CampaignService(ctx.db);
+      return service.updateCampaign(ctx.workspace.id, input.campaignId, input.updates);
+    }),
+
+  // Activate, pause, resume or complete a campaign; pausing holds its scheduled posts
+  changeStatus: withWorkspacePermission(WorkspacePermission.PUBLISH_CONTENT)
+    .input(z.object({
+      campaignId: z.string(),
+      status: z.nativeEnum(CampaignStatus)
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const service = new CampaignService(ctx.db);
+      return service.changeStatus(ctx.workspace.id, input.campaignId, input.status);
+    }),
+
+  // Attach content to a campaign
+  addContent: withWorkspacePermission(WorkspacePermission.EDIT_CONTENT)
+    .input(z.object({
+      campaignId: z.string(),
+      contentIds: z.array(z.string()).min(1).max(100)
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const service = new CampaignService(ctx.db);
+      return service.addContent(ctx.workspace.id, input.campaignId, input.contentIds);
+    }),
+
+  // Detach content from a campaign
+  removeContent: withWorkspacePermission(WorkspacePermission.EDIT_CONTENT)
+    .input(z.object({
+      campaignId: z.string(),
+      contentIds: z.array(z.string()).min(1).max(100)
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const service = new CampaignService(ctx.db);
+      return service.removeContent(ctx.workspace.id, input.campaignId, input.contentIds);
+    }),
+
+  // Delete a campaign; its content is kept
+  delete: withWorkspacePermission(WorkspacePermission.DELETE_CONTENT)
+    .input(z.object({
+      campaignId: z.string()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const service = new CampaignService(ctx.db);
+      return service.deleteCampaign(ctx.workspace.id, input.campaignId);
+    }),
+});
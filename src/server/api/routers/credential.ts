@@ -4,7 +4,12 @@ import {
   protectedProcedure,
 } from "@/server/api/trpc";
 import { CredentialService } from "@/server/services/credential";
-import { withWorkspaceAccess } from "@/server/api/middleware/workspace";
+import {
+  CredentialAuditAction,
+  CredentialAuditService,
+  createAuditContext
+} from "@/server/services/credential-audit";
+import { withWorkspaceAccess, withWorkspaceAdmin } from "@/server/api/middleware/workspace";
 
 export const credentialRouter = createTRPCRouter({
   // Get all social accounts for a workspace
@@ -14,6 +19,22 @@ export const credentialRouter = createTRPCRouter({
       return service.getWorkspaceAccounts(ctx.workspace.id);
     }),
 
+  // Credential audit trail for a workspace, newest first
+  getAuditLog: withWorkspaceAdmin
+    .input(z.object({
+      socialAccountId: z.string().optional(),
+      userId: z.string().optional(),
+      actions: z.array(z.enum(CredentialAuditAction)).optional(),
+      from: z.date().optional(),
+      to: z.date().optional(),
+      limit: z.number().min(1).max(100).default(50),
+      offset: z.number().min(0).default(0)
+    }))
+    .query(async ({ ctx, input }) => {
+      const service = new CredentialAuditService(ctx.db);
+      return service.getAuditLog(ctx.workspace.id, input);
+    }),
+
   // Check if credentials need refresh
   needsRefresh: protectedProcedure
     .input(z.object({
@@ -30,7 +51,7 @@ export const credentialRouter = createTRPCRouter({
       accountId: z.string()
     }))
     .mutation(async ({ ctx, input }) => {
-      const service = new CredentialService(ctx.db);
+      const service = new CredentialService(ctx.db, createAuditContext(ctx.headers, ctx.session.user.id));
 
       // Verify the account belongs to a workspace the user has access to
       const account = await ctx.db.socialAccount.findFirst({
@@ -58,7 +79,7 @@ export const credentialRouter = createTRPCRouter({
   cleanupExpired: protectedProcedure
     .mutation(async ({ ctx }) => {
       // This should probably be restricted to admin users or run as a cron job
-      const service = new CredentialService(ctx.db);
+      const service = new CredentialService(ctx.db, createAuditContext(ctx.headers, ctx.session.user.id));
       const cleanedUp = await service.cleanupExpiredCredentials();
       return { cleanedUp };
     }),
@@ -0,0 +1,167 @@
+import { z } from "zod";
+import { createTRPCRouter } from "@/server/api/trpc";
+import { PublishingService } from "@/server/services/publishing/publishing-service";
+import {
+  withWorkspaceAccess,
+  withWorkspaceAdmin,
+  withWorkspacePermission,
+  WorkspacePermission
+} from "@/server/api/middleware/workspace";
+
+const VariantOverrideSchema = z.object({
+  socialAccountId: z.string(),
+  text: z.string().max(63206),
+  mediaAssetIds: z.array(z.string()).max(20).optional(),
+  link: z.string().url().nullable().optional(),
+});
+
+const TransformOptionsSchema = z.object({
+  splitThreads: z.boolean().optional(),
+  numberThreads: z.boolean().optional(),
+});
+
+export const publishingRouter = createTRPCRouter({
+  // Preview the per-platform variant generated for each selected account
+  previewVariants: withWorkspaceAccess
+    .input(z.object({
+      contentId: z.string(),
+      accountIds: z.array(z.string()).min(1).max(20),
+      transform: TransformOptionsSchema.optional()
+    }))
+    .query(async ({ ctx, input }) => {
+      const service = new PublishingService(ctx.db);
+      return service.previewVariants(ctx.workspace.id, input.contentId, input.accountIds, input.transform);
+    }),
+
+  // Publish content to one or more social accounts right away
+  publishNow: withWorkspacePermission(WorkspacePermission.PUBLISH_CONTENT)
+    .input(z.object({
+      contentId: z.string(),
+      accountIds: z.array(z.string()).min(1).max(20),
+      variants: z.array(VariantOverrideSchema).max(20).optional(),
+      transform: TransformOptionsSchema.optional()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const service = new PublishingService(ctx.db);
+      return service.publishNow(
+        ctx.workspace.id,
+        input.contentId,
+        input.accountIds,
+        input.variants,
+        input.transform
+      );
+    }),
+
+  // Schedule content for later; the publishing worker publishes it when due
+  schedule: withWorkspacePermission(WorkspacePermission.PUBLISH_CONTENT)
+    .input(z.object({
+      contentId: z.string(),
+      accountIds: z.array(z.string()).min(1).max(20),
+      scheduledFor: z.date(),
+      variants: z.array(VariantOverrideSchema).max(20).optional(),
+      transform: TransformOptionsSchema.optional()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const service = new PublishingService(ctx.db);
+      return service.schedulePost(
+        ctx.workspace.id,
+        input.contentId,
+        input.accountIds,
+        input.scheduledFor,
+        input.variants,
+        input.transform
+      );
+    }),
+
+  // List scheduled posts that haven't gone out yet, optionally for one account
+  getUpcoming: withWorkspaceAccess
+    .input(z.object({
+      socialAccountId: z.string().optional(),
+      limit: z.number().min(1).max(100).default(20),
+      offset: z.number().min(0).default(0)
+    }))
+    .query(async ({ ctx, input }) => {
+      const service = new PublishingService(ctx.db);
+      return service.getUpcomingPosts(ctx.workspace.id, input);
+    }),
+
+  // Move a scheduled post to a new time
+  reschedule: withWorkspacePermission(WorkspacePermission.PUBLISH_CONTENT)
+    .input(z.object({
+      publishedPostId: z.string(),
+      scheduledFor: z.date()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const service = new PublishingService(ctx.db);
+      return service.reschedulePost(ctx.workspace.id, input.publishedPostId, input.scheduledFor);
+    }),
+
+  // Send a scheduled post to a different account
+  changeAccount: withWorkspacePermission(WorkspacePermission.PUBLISH_CONTENT)
+    .input(z.object({
+      publishedPostId: z.string(),
+      socialAccountId: z.string()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const service = new PublishingService(ctx.db);
+      return service.changePostAccount(ctx.workspace.id, input.publishedPostId, input.socialAccountId);
+    }),
+
+  // Edit the per-platform text of a scheduled post
+  updateVariant: withWorkspacePermission(WorkspacePermission.PUBLISH_CONTENT)
+    .input(z.object({
+      publishedPostId: z.string(),
+      variant: VariantOverrideSchema.omit({ socialAccountId: true }),
+      transform: TransformOptionsSchema.optional()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const service = new PublishingService(ctx.db);
+      return service.updatePostVariant(
+        ctx.workspace.id,
+        input.publishedPostId,
+        input.variant,
+        input.transform
+      );
+    }),
+
+  // Cancel a scheduled post before it goes out
+  cancel: withWorkspacePermission(WorkspacePermission.PUBLISH_CONTENT)
+    .input(z.object({
+      publishedPostId: z.string()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const service = new PublishingService(ctx.db);
+      return service.cancelPost(ctx.workspace.id, input.publishedPostId);
+    }),
+
+  // Get publishing status for each target of a piece of content
+  getContentPosts: withWorkspaceAccess
+    .input(z.object({
+      contentId: z.string()
+    }))
+    .query(async ({ ctx, input }) => {
+      const service = new PublishingService(ctx.db);
+      return service.getContentPosts(ctx.workspace.id, input.contentId);
+    }),
+
+  // List posts that exhausted their retries or failed permanently
+  getFailedPosts: withWorkspaceAdmin
+    .input(z.object({
+      limit: z.number().min(1).max(100).default(20),
+      offset: z.number().min(0).default(0)
+    }))
+    .query(async ({ ctx, input }) => {
+      const service = new PublishingService(ctx.db);
+      return service.getFailedPosts(ctx.workspace.id, input.limit, input.offset);
+    }),
+
+  // Requeue a failed post after the cause has been fixed
+  retry: withWorkspaceAdmin
+    .input(z.object({
+      publishedPostId: z.string()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const service = new PublishingService(ctx.db);
+      return service.retryFailedPost(ctx.workspace.id, input.publishedPostId);
+    }),
+});
@@ -4,8 +4,11 @@ import {
   protectedProcedure,
 } from "@/server/api/trpc";
 import { SocialAuthService } from "@/server/services/auth/social-auth-service";
+import { CredentialAccessService } from "@/server/services/credential-access";
+import { createAuditContext } from "@/server/services/credential-audit";
 import { SocialPlatform, AccountType } from "@/server/services/auth/base-auth-provider";
-import { withWorkspaceAccess } from "@/server/api/middleware/workspace";
+import { withWorkspacePermission, WorkspacePermission } from "@/server/api/middleware/workspace";
+import { SocialPlatformSchema } from "@/server/api/schemas";
 
 export const socialAuthRouter = createTRPCRouter({
   // Get available platforms
@@ -15,10 +18,17 @@ export const socialAuthRouter = createTRPCRouter({
       return service.getAvailablePlatforms();
     }),
 
+  // How each platform's accounts are connected (OAuth redirect or credentials)
+  getConnectMethods: protectedProcedure
+    .query(async ({ ctx }) => {
+      const service = new SocialAuthService(ctx.db);
+      return service.getConnectMethods();
+    }),
+
   // Get required scopes for a platform
   getRequiredScopes: protectedProcedure
     .input(z.object({
-      platform: z.enum([SocialPlatform.FACEBOOK, SocialPlatform.X, SocialPlatform.LINKEDIN])
+      platform: SocialPlatformSchema
     }))
     .query(async ({ ctx, input }) => {
       const service = new SocialAuthService(ctx.db);
@@ -26,44 +36,104 @@ export const socialAuthRouter = createTRPCRouter({
     }),
 
   // Initiate OAuth flow
-  initiateAuth: withWorkspaceAccess
+  initiateAuth: withWorkspacePermission(WorkspacePermission.CONNECT_SOCIAL_ACCOUNTS)
     .input(z.object({
-      platform: z.enum([SocialPlatform.FACEBOOK, SocialPlatform.X, SocialPlatform.LINKEDIN]),
-      accountType: z.enum([AccountType.PERSONAL, AccountType.BUSINESS, AccountType.PAGE]),
-      redirectUri: z.string().url()
+      platform: SocialPlatformSchema,
+      accountType: z.enum([AccountType.PERSONAL, AccountType.BUSINESS, AccountType.PAGE, AccountType.WEBHOOK]),
+      redirectUri: z.string().url(),
+      instance: z.string().min(1).optional() // Mastodon server, e.g. mastodon.social
     }))
     .mutation(async ({ ctx, input }) => {
       const service = new SocialAuthService(ctx.db);
       return service.initiateAuth(
         input.platform,
         ctx.workspace.id,
+        ctx.session.user.id,
         input.accountType,
-        input.redirectUri
+        input.redirectUri,
+        { instance: input.instance }
       );
     }),
 
   // Handle OAuth callback
   handleCallback: protectedProcedure
     .input(z.object({
-      platform: z.enum([SocialPlatform.FACEBOOK, SocialPlatform.X, SocialPlatform.LINKEDIN]),
+      platform: SocialPlatformSchema,
       code: z.string(),
       state: z.string(),
       redirectUri: z.string().url()
     }))
     .mutation(async ({ ctx, input }) => {
-      const service = new SocialAuthService(ctx.db);
+      const service = new SocialAuthService(ctx.db, createAuditContext(ctx.headers, ctx.session.user.id));
       return service.handleCallback(
         input.platform,
         input.code,
         input.state,
-        input.redirectUri
+        input.redirectUri,
+        ctx.session.user.id
+      );
+    }),
+
+  // Connect with credentials, for platforms without an OAuth redirect
+  connectWithCredentials: withWorkspacePermission(WorkspacePermission.CONNECT_SOCIAL_ACCOUNTS)
+    .input(z.object({
+      platform: z.enum([SocialPlatform.BLUESKY]),
+      identifier: z.string().min(1), // Handle or email
+      password: z.string().regex(
+        /^[a-z0-9]{4}-[a-z0-9]{4}-[a-z0-9]{4}-[a-z0-9]{4}$/,
+        "Use an app password (Settings → Privacy and security → App passwords), not your account password"
+      ),
+      service: z.string().min(1).optional() // Defaults to the platform's main server
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const service = new SocialAuthService(ctx.db, createAuditContext(ctx.headers, ctx.session.user.id));
+      const result = await service.connectWithCredentials(input.platform, ctx.workspace.id, {
+        identifier: input.identifier,
+        password: input.password,
+        service: input.service
+      });
+      // The session tokens stay on the server
+      return { account: result.account };
+    }),
+
+  // Connect a Slack, Discord or Teams channel by pasting its incoming-webhook URL
+  connectWebhook: withWorkspacePermission(WorkspacePermission.CONNECT_SOCIAL_ACCOUNTS)
+    .input(z.object({
+      platform: z.enum([SocialPlatform.SLACK, SocialPlatform.DISCORD, SocialPlatform.TEAMS]),
+      url: z.string().url(),
+      name: z.string().trim().min(1).max(100).optional() // Defaults to the channel's own name
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const service = new SocialAuthService(ctx.db, createAuditContext(ctx.headers, ctx.session.user.id));
+      const result = await service.connectWebhook(input.platform, ctx.workspace.id, {
+        url: input.url,
+        name: input.name
+      });
+      // The webhook URL is the secret; it stays on the server
+      return { account: result.account };
+    }),
+
+  // Connect the pages or organizations picked after the callback
+  completeAccountSelection: protectedProcedure
+    .input(z.object({
+      platform: SocialPlatformSchema,
+      selectionId: z.string(),
+      accountIds: z.array(z.string()).min(1)
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const service = new SocialAuthService(ctx.db, createAuditContext(ctx.headers, ctx.session.user.id));
+      return service.completeAccountSelection(
+        input.platform,
+        input.selectionId,
+        ctx.session.user.id,
+        input.accountIds
       );
     }),
 
   // Refresh token for an account
   refreshToken: protectedProcedure
     .input(z.object({
-      platform: z.enum([SocialPlatform.FACEBOOK, SocialPlatform.X, SocialPlatform.LINKEDIN]),
+      platform: SocialPlatformSchema,
       accountId: z.string()
     }))
     .mutation(async ({ ctx, input }) => {
@@ -85,14 +155,16 @@ export const socialAuthRouter = createTRPCRouter({
         throw new Error("Account not found or access denied");
       }
 
-      const service = new SocialAuthService(ctx.db);
-      return service.refreshToken(input.platform, input.accountId);
+      // Goes through the shared refresh path so it can't race the publishing worker
+      const service = new CredentialAccessService(ctx.db, createAuditContext(ctx.headers, ctx.session.user.id));
+      await service.refreshCredentials(input.accountId);
+      return { success: true };
     }),
 
   // Revoke access for an account
   revokeAccess: protectedProcedure
     .input(z.object({
-      platform: z.enum([SocialPlatform.FACEBOOK, SocialPlatform.X, SocialPlatform.LINKEDIN]),
+      platform: SocialPlatformSchema,
       accountId: z.string()
     }))
     .mutation(async ({ ctx, input }) => {
@@ -114,7 +186,7 @@ export const socialAuthRouter = createTRPCRouter({
         throw new Error("Account not found or access denied");
       }
 
-      const service = new SocialAuthService(ctx.db);
+      const service = new SocialAuthService(ctx.db, createAuditContext(ctx.headers, ctx.session.user.id));
       await service.revokeAccess(input.platform, input.accountId);
       return { success: true };
     }),
@@ -0,0 +1,7 @@
+import { z } from "zod";
+import { SocialPlatform } from "@/server/services/auth/base-auth-provider";
+
+/**
+ * Input schemas shared between routers
+ */
+export const SocialPlatformSchema = z.nativeEnum(SocialPlatform);
@@ -0,0 +1,218 @@
+import { type PrismaClient } from "@prisma/client";
+import { SocialPlatform, type AccountType } from "@/server/services/auth/base-auth-provider";
+import { CredentialAccessService } from "@/server/services/credential-access";
+import { type Clock } from "@/server/services/publishing/publishing-service";
+import { PublishStatus } from "@/server/services/statuses";
+import { MetricsAdapter, MetricsError } from "./base-metrics-adapter";
+import { XMetricsAdapter } from "./x-metrics-adapter";
+import { FacebookMetricsAdapter } from "./facebook-metrics-adapter";
+import { LinkedInMetricsAdapter } from "./linkedin-metrics-adapter";
+import { MastodonMetricsAdapter } from "./mastodon-metrics-adapter";
+import { BlueskyMetricsAdapter } from "./bluesky-metrics-adapter";
+import { InstagramMetricsAdapter } from "./instagram-metrics-adapter";
+import { COLLECTION_LEASE_MS, getNextCollectionAt } from "./collection-schedule";
+
+export enum CollectionStatus {
+  COLLECTED = "collected",
+  SKIPPED = "skipped", // Nothing collected this time; tried again at the next slot
+  STOPPED = "stopped", // Nothing more will be collected for this post
+  FAILED = "failed"
+}
+
+export interface CollectionOutcome {
+  publishedPostId: string;
+  status: CollectionStatus;
+  reason?: string;
+}
+
+export interface CollectionSummary {
+  checked: number;
+  collected: number;
+  stopped: number;
+  failed: number;
+}
+
+export class AnalyticsCollector {
+  private adapters: Map<SocialPlatform, MetricsAdapter> = new Map();
+  private credentialAccess: CredentialAccessService;
+
+  constructor(
+    private db: PrismaClient,
+    private clock: Clock = () => new Date()
+  ) {
+    // Webhook channels have no metrics to collect
+    this.adapters.set(SocialPlatform.X, new XMetricsAdapter());
+    this.adapters.set(SocialPlatform.FACEBOOK, new FacebookMetricsAdapter());
+    this.adapters.set(SocialPlatform.LINKEDIN, new LinkedInMetricsAdapter());
+    this.adapters.set(SocialPlatform.MASTODON, new MastodonMetricsAdapter());
+    this.adapters.set(SocialPlatform.BLUESKY, new BlueskyMetricsAdapter());
+    this.adapters.set(SocialPlatform.INSTAGRAM, new InstagramMetricsAdapter());
+
+    this.credentialAccess = new CredentialAccessService(db);
+  }
+
+  /**
+   * Get the metrics adapter for a platform, if its metrics can be collected
+   */
+  getAdapter(platform: SocialPlatform): MetricsAdapter | undefined {
+    return this.adapters.get(platform);
+  }
+
+  /**
+   * Collect metrics for every published post that's due, in batches
+   */
+  async collectDueMetrics(batchSize: number): Promise<CollectionSummary> {
+    const summary: CollectionSummary = { checked: 0, collected: 0, stopped: 0, failed: 0 };
+
+    // Keep draining until a batch comes back short
+    while (true) {
+      const postIds = await this.claimDuePosts(batchSize);
+      if (postIds.length === 0) {
+        break;
+      }
+
+      // One at a time, to stay well inside platform rate limits
+      for (const postId of postIds) {
+        const outcome = await this.collectPost(postId);
+        summary.checked++;
+
+        if (outcome.status === CollectionStatus.COLLECTED) summary.collected++;
+        if (outcome.status === CollectionStatus.STOPPED) summary.stopped++;
+        if (outcome.status === CollectionStatus.FAILED) {
+          summary.failed++;
+          console.warn(`[ANALYTICS_COLLECTOR] Post ${postId}: ${outcome.reason}`);
+        }
+      }
+
+      if (postIds.length < batchSize) {
+        break;
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Atomically claim published posts whose next collection is due.
+   *
+   * Rows are locked with FOR UPDATE SKIP LOCKED and their due time pushed out by a lease
+   * in the same statement, so concurrent collectors never claim the same post.
+   */
+  async claimDuePosts(limit: number): Promise<string[]> {
+    const now = this.clock();
+    const leaseUntil = new Date(now.getTime() + COLLECTION_LEASE_MS);
+
+    const claimed = await this.db.$queryRaw<Array<{ id: string }>>`
+      UPDATE "PublishedPost"
+      SET "metricsDueAt" = ${leaseUntil}
+      WHERE "id" IN (
+        SELECT "id" FROM "PublishedPost"
+        WHERE "status" = ${PublishStatus.PUBLISHED}
+          AND "metricsDueAt" <= ${now}
+        ORDER BY "metricsDueAt" ASC
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING "id"
+    `;
+
+    return claimed.map(row => row.id);
+  }
+
+  /**
+   * Take one metrics snapshot of a post and schedule the next
+   */
+  async collectPost(publishedPostId: string): Promise<CollectionOutcome> {
+    const post = await this.db.publishedPost.findUnique({
+      where: { id: publishedPostId },
+      include: { socialAccount: true }
+    });
+
+    if (!post || post.status !== PublishStatus.PUBLISHED || !post.platformPostId || !post.publishedAt) {
+      return this.stop(publishedPostId, "Post is not published");
+    }
+
+    const adapter = this.getAdapter(post.platform as SocialPlatform);
+    if (!adapter) {
+      return this.stop(publishedPostId, `No metrics are available for ${post.platform}`);
+    }
+
+    const now = this.clock();
+    const nextDueAt = getNextCollectionAt(post.publishedAt, now);
+
+    try {
+      // A just-in-time refresh can throw on a token endpoint outage; that's retried like any fetch
+      const credentials = await this.credentialAccess.getValidCredentials(post.socialAccountId);
+      if (!credentials) {
+        // The account may be reconnected before the schedule runs out
+        await this.reschedule(publishedPostId, nextDueAt);
+        return {
+          publishedPostId,
+          status: CollectionStatus.SKIPPED,
+          reason: "Account credentials are expired or revoked"
+        };
+      }
+
+      const metrics = await adapter.fetchMetrics(
+        {
+          platformAccountId: post.socialAccount.platformAccountId,
+          accountType: post.socialAccount.accountType as AccountType,
+          credentials,
+        },
+        {
+          platformPostId: post.platformPostId,
+          threadPostIds: post.threadPostIds,
+        }
+      );
+
+      await this.db.$transaction([
+        this.db.analytics.create({
+          data: {
+            publishedPostId,
+            collectedAt: now,
+            likes: metrics.likes,
+            shares: metrics.shares,
+            comments: metrics.comments,
+            views: metrics.views,
+            impressions: metrics.impressions,
+            platformSpecific: metrics.platformSpecific,
+          }
+        }),
+        this.db.publishedPost.update({
+          where: { id: publishedPostId },
+          data: { metricsDueAt: nextDueAt }
+        }),
+      ]);
+
+      return { publishedPostId, status: CollectionStatus.COLLECTED };
+    } catch (error) {
+      if (error instanceof MetricsError && error.isPostGone()) {
+        return this.stop(publishedPostId, "Post was deleted on the platform");
+      }
+
+      // Rate limits and outages are retried at the next slot rather than hammered now
+      await this.reschedule(publishedPostId, nextDueAt);
+      return {
+        publishedPostId,
+        status: CollectionStatus.FAILED,
+        reason: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  private async reschedule(publishedPostId: string, nextDueAt: Date | null): Promise<void> {
+    await this.db.publishedPost.update({
+      where: { id: publishedPostId },
+      data: { metricsDueAt: nextDueAt }
+    });
+  }
+
+  private async stop(publishedPostId: string, reason: string): Promise<CollectionOutcome> {
+    await this.db.publishedPost.updateMany({
+      where: { id: publishedPostId },
+      data: { metricsDueAt: null }
+    });
+
+    return { publishedPostId, status: CollectionStatus.STOPPED, reason };
+  }
+}
@@ -0,0 +1,213 @@
+import { type PrismaClient } from "@prisma/client";
+import { type Clock } from "@/server/services/publishing/publishing-service";
+import { AnalyticsRetentionService, type DateRange } from "./analytics-retention";
+import { AnalyticsService, BucketSize, RollupDimension } from "./analytics-service";
+
+export enum ExportLevel {
+  POST = "post",
+  ACCOUNT = "account"
+}
+
+export enum ExportFormat {
+  CSV = "csv",
+  NDJSON = "ndjson"
+}
+
+export interface ExportOptions extends DateRange {
+  level: ExportLevel;
+  format: ExportFormat;
+}
+
+export interface AnalyticsExport {
+  filename: string;
+  contentType: string;
+  lines: AsyncGenerator<string>; // Pulled one line at a time, so nothing is buffered
+}
+
+type ExportRow = Record<string, string | number | null>;
+
+const POST_COLUMNS = [
+  "collectedAt", "publishedPostId", "platform", "platformPostId", "accountId", "accountName",
+  "contentId", "contentTitle", "publishedAt", "likes", "shares", "comments", "views", "impressions"
+];
+
+const ACCOUNT_COLUMNS = [
+  "date", "accountId", "accountName", "platform", "likes", "shares", "comments", "views",
+  "impressions", "engagements", "engagementRate", "engagementsChange"
+];
+
+// Snapshots are read in pages of this size
+const PAGE_SIZE = 1000;
+// Each account's daily rollup is one query; this many accounts are listed at a time
+const ACCOUNT_PAGE_SIZE = 50;
+
+export class AnalyticsExportService {
+  private retention: AnalyticsRetentionService;
+  private analytics: AnalyticsService;
+
+  constructor(
+    private db: PrismaClient,
+    clock: Clock = () => new Date()
+  ) {
+    this.retention = new AnalyticsRetentionService(db, clock);
+    this.analytics = new AnalyticsService(db, clock);
+  }
+
+  /**
+   * Validate an export and return its lines as a lazy stream. Range and plan checks
+   * happen here, before any output, so they can still fail the request cleanly.
+   */
+  async createExport(workspaceId: string, options: ExportOptions): Promise<AnalyticsExport> {
+    if (options.level === ExportLevel.ACCOUNT) {
+      await this.analytics.ensureAdvancedAnalytics(workspaceId);
+    }
+
+    const { startDate, endDate } = await this.retention.resolveDateRange(workspaceId, options);
+
+    const rows = options.level === ExportLevel.POST
+      ? this.streamPostRows(workspaceId, startDate, endDate)
+      : this.streamAccountRows(workspaceId, startDate, endDate);
+    const columns = options.level === ExportLevel.POST ? POST_COLUMNS : ACCOUNT_COLUMNS;
+
+    const range = `${startDate.toISOString().slice(0, 10)}_${endDate.toISOString().slice(0, 10)}`;
+
+    return {
+      filename: `analytics-${options.level}-${range}.${options.format}`,
+      contentType: options.format === ExportFormat.CSV ? "text/csv; charset=utf-8" : "application/x-ndjson",
+      lines: options.format === ExportFormat.CSV ? this.toCsv(columns, rows) : this.toNdjson(rows),
+    };
+  }
+
+  /**
+   * Every metrics snapshot in the range, keyset-paginated so memory stays flat
+   */
+  private async *streamPostRows(workspaceId: string, startDate: Date, endDate: Date): AsyncGenerator<ExportRow> {
+    let cursor: string | undefined;
+
+    while (true) {
+      const snapshots = await this.db.analytics.findMany({
+        where: {
+          collectedAt: { gte: startDate, lt: endDate },
+          publishedPost: { socialAccount: { workspaceId } },
+        },
+        orderBy: [{ collectedAt: "asc" }, { id: "asc" }],
+        take: PAGE_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        include: {
+          publishedPost: {
+            select: {
+              platform: true,
+              platformPostId: true,
+              publishedAt: true,
+              contentId: true,
+              content: { select: { title: true } },
+              socialAccount: { select: { id: true, displayName: true } },
+            }
+          }
+        }
+      });
+
+      for (const snapshot of snapshots) {
+        const post = snapshot.publishedPost;
+        yield {
+          collectedAt: snapshot.collectedAt.toISOString(),
+          publishedPostId: snapshot.publishedPostId,
+          platform: post.platform,
+          platformPostId: post.platformPostId,
+          accountId: post.socialAccount.id,
+          accountName: post.socialAccount.displayName,
+          contentId: post.contentId,
+          contentTitle: post.content.title,
+          publishedAt: post.publishedAt?.toISOString() ?? null,
+          likes: snapshot.likes,
+          shares: snapshot.shares,
+          comments: snapshot.comments,
+          views: snapshot.views,
+          impressions: snapshot.impressions,
+        };
+      }
+
+      if (snapshots.length < PAGE_SIZE) {
+        return;
+      }
+      cursor = snapshots[snapshots.length - 1]!.id;
+    }
+  }
+
+  /**
+   * Daily growth per account, one account's rollup at a time
+   */
+  private async *streamAccountRows(workspaceId: string, startDate: Date, endDate: Date): AsyncGenerator<ExportRow> {
+    let cursor: string | undefined;
+
+    while (true) {
+      const accounts = await this.db.socialAccount.findMany({
+        where: { workspaceId },
+        orderBy: { id: "asc" },
+        take: ACCOUNT_PAGE_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        select: { id: true, displayName: true, platform: true }
+      });
+
+      for (const account of accounts) {
+        const rollup = await this.analytics.queryRollup(
+          workspaceId,
+          { dimension: RollupDimension.ACCOUNT, bucket: BucketSize.DAY, socialAccountId: account.id },
+          startDate,
+          endDate
+        );
+
+        for (const row of rollup) {
+          yield {
+            date: row.bucket.toISOString().slice(0, 10),
+            accountId: account.id,
+            accountName: account.displayName,
+            platform: account.platform,
+            likes: row.likes,
+            shares: row.shares,
+            comments: row.comments,
+            views: row.views,
+            impressions: row.impressions,
+            engagements: row.engagements,
+            engagementRate: row.engagementRate,
+            engagementsChange: row.engagementsChange,
+          };
+        }
+      }
+
+      if (accounts.length < ACCOUNT_PAGE_SIZE) {
+        return;
+      }
+      cursor = accounts[accounts.length - 1]!.id;
+    }
+  }
+
+  private async *toCsv(columns: string[], rows: AsyncGenerator<ExportRow>): AsyncGenerator<string> {
+    yield `${columns.join(",")}\r\n`;
+
+    for await (const row of rows) {
+      yield `${columns.map(column => this.toCsvCell(row[column] ?? null)).join(",")}\r\n`;
+    }
+  }
+
+  private async *toNdjson(rows: AsyncGenerator<ExportRow>): AsyncGenerator<string> {
+    for await (const row of rows) {
+      yield `${JSON.stringify(row)}\n`;
+    }
+  }
+
+  /**
+   * Quote per RFC 4180, and neutralize text a spreadsheet would run as a formula
+   */
+  private toCsvCell(value: string | number | null): string {
+    if (value === null) {
+      return "";
+    }
+    if (typeof value === "number") {
+      return String(value);
+    }
+
+    const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
@@ -0,0 +1,165 @@
+import { TRPCError } from "@trpc/server";
+import { type PrismaClient } from "@prisma/client";
+import { SubscriptionService } from "@/server/services/subscription";
+import { type Clock } from "@/server/services/publishing/publishing-service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Snapshots older than this are thinned to one per post per day
+export const DOWNSAMPLE_AFTER_DAYS = 7;
+
+export interface RetentionWindow {
+  retentionDays: number;
+  earliest: Date; // Oldest collectedAt the plan keeps
+}
+
+export interface DateRange {
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface RetentionSummary {
+  workspaces: number;
+  deleted: number;
+  downsampled: number;
+}
+
+export class AnalyticsRetentionService {
+  private subscriptionService: SubscriptionService;
+
+  constructor(
+    private db: PrismaClient,
+    private clock: Clock = () => new Date()
+  ) {
+    this.subscriptionService = new SubscriptionService(db);
+  }
+
+  /**
+   * Get the analytics window of a workspace, which follows its owner's plan
+   */
+  async getRetentionWindow(workspaceId: string): Promise<RetentionWindow> {
+    const workspace = await this.db.workspace.findUnique({
+      where: { id: workspaceId },
+      select: { ownerId: true }
+    });
+
+    if (!workspace) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Workspace not found"
+      });
+    }
+
+    const retentionDays = await this.subscriptionService.getAnalyticsRetention(workspace.ownerId);
+    return this.toWindow(retentionDays);
+  }
+
+  /**
+   * Resolve a query's date range against the workspace's window. A missing start
+   * defaults to the oldest retained day; a start before it is refused outright
+   * rather than silently clipped, so the plan limit is visible.
+   */
+  async resolveDateRange(workspaceId: string, range: DateRange): Promise<Required<DateRange>> {
+    const window = await this.getRetentionWindow(workspaceId);
+    const startDate = range.startDate ?? window.earliest;
+    const endDate = range.endDate ?? this.clock();
+
+    if (endDate <= startDate) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "End date must be after start date"
+      });
+    }
+
+    if (startDate < window.earliest) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: `Your plan keeps ${window.retentionDays} days of analytics; choose a start date on or after ${window.earliest.toISOString().slice(0, 10)} or upgrade for a longer history`
+      });
+    }
+
+    return { startDate, endDate };
+  }
+
+  /**
+   * Apply every workspace's retention: delete snapshots outside the window and
+   * thin older ones to a daily resolution
+   */
+  async enforceRetention(): Promise<RetentionSummary> {
+    const summary: RetentionSummary = { workspaces: 0, deleted: 0, downsampled: 0 };
+    const retentionByOwner = new Map<string, number>();
+
+    const workspaces = await this.db.workspace.findMany({
+      select: { id: true, ownerId: true },
+      orderBy: { id: "asc" }
+    });
+
+    for (const workspace of workspaces) {
+      let retentionDays = retentionByOwner.get(workspace.ownerId);
+      if (retentionDays === undefined) {
+        retentionDays = await this.subscriptionService.getAnalyticsRetention(workspace.ownerId);
+        retentionByOwner.set(workspace.ownerId, retentionDays);
+      }
+
+      const window = this.toWindow(retentionDays);
+      summary.deleted += await this.deleteExpired(workspace.id, window.earliest);
+      summary.downsampled += await this.downsample(workspace.id, window.earliest);
+      summary.workspaces++;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Delete a workspace's snapshots collected before the window
+   */
+  async deleteExpired(workspaceId: string, earliest: Date): Promise<number> {
+    return this.db.$executeRaw`
+      DELETE FROM "Analytics" a
+      USING "PublishedPost" pp, "SocialAccount" sa
+      WHERE a."publishedPostId" = pp."id"
+        AND pp."socialAccountId" = sa."id"
+        AND sa."workspaceId" = ${workspaceId}
+        AND a."collectedAt" < ${earliest}
+    `;
+  }
+
+  /**
+   * Keep only the last snapshot of each post per UTC day for days that ended more
+   * than a week ago. Counters are cumulative, so the last one of the day loses nothing.
+   */
+  async downsample(workspaceId: string, earliest: Date): Promise<number> {
+    const cutoff = this.startOfDay(new Date(this.clock().getTime() - DOWNSAMPLE_AFTER_DAYS * DAY_MS));
+
+    return this.db.$executeRaw`
+      DELETE FROM "Analytics"
+      WHERE "id" IN (
+        SELECT "id" FROM (
+          SELECT a."id", ROW_NUMBER() OVER (
+            PARTITION BY a."publishedPostId", date_trunc('day', a."collectedAt")
+            ORDER BY a."collectedAt" DESC
+          ) AS "rank"
+          FROM "Analytics" a
+          JOIN "PublishedPost" pp ON pp."id" = a."publishedPostId"
+          JOIN "SocialAccount" sa ON sa."id" = pp."socialAccountId"
+          WHERE sa."workspaceId" = ${workspaceId}
+            AND a."collectedAt" >= ${earliest}
+            AND a."collectedAt" < ${cutoff}
+        ) ranked
+        WHERE "rank" > 1
+      )
+    `;
+  }
+
+  private toWindow(retentionDays: number): RetentionWindow {
+    // Whole days, so a window doesn't creep forward through the day
+    const earliest = this.startOfDay(new Date(this.clock().getTime() - retentionDays * DAY_MS));
+    return { retentionDays, earliest };
+  }
+
+  private startOfDay(date: Date): Date {
+    const day = new Date(date);
+    day.setUTCHours(0, 0, 0, 0);
+    return day;
+  }
+}
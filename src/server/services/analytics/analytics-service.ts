@@ -0,0 +1,281 @@
+import { TRPCError } from "@trpc/server";
+import { Prisma, type PrismaClient } from "@prisma/client";
+import { type Clock } from "@/server/services/publishing/publishing-service";
+import { Feature, SubscriptionService } from "@/server/services/subscription";
+import { AnalyticsRetentionService, type DateRange } from "./analytics-retention";
+
+export enum RollupDimension {
+  WORKSPACE = "workspace",
+  PLATFORM = "platform",
+  ACCOUNT = "account",
+  CONTENT = "content"
+}
+
+export enum BucketSize {
+  HOUR = "hour",
+  DAY = "day",
+  WEEK = "week"
+}
+
+export interface RollupFilters {
+  socialAccountId?: string;
+  platform?: string;
+  contentId?: string;
+}
+
+export interface RollupOptions extends DateRange, RollupFilters {
+  dimension: RollupDimension;
+  bucket: BucketSize;
+}
+
+export interface RollupRow {
+  bucket: Date;
+  groupId: string;
+  groupLabel: string | null;
+  likes: number;
+  shares: number;
+  comments: number;
+  views: number;
+  impressions: number;
+  engagements: number;
+  engagementRate: number | null; // Percent of impressions; null where the platform reports none
+  engagementsChange: number | null; // Against the group's previous bucket
+  engagementsChangePct: number | null;
+  impressionsChange: number | null;
+}
+
+// Per-account and per-content breakdowns are part of advanced analytics
+const ADVANCED_DIMENSIONS = new Set([RollupDimension.ACCOUNT, RollupDimension.CONTENT]);
+
+// Fixed SQL per dimension; never built from input
+const GROUP_COLUMNS: Record<RollupDimension, { key: string; label: string }> = {
+  [RollupDimension.WORKSPACE]: {
+    key: `sa."workspaceId"`,
+    label: `(SELECT "name" FROM "Workspace" WHERE "id" = r."groupId")`,
+  },
+  [RollupDimension.PLATFORM]: {
+    key: `pp."platform"`,
+    label: `r."groupId"`,
+  },
+  [RollupDimension.ACCOUNT]: {
+    key: `pp."socialAccountId"`,
+    label: `(SELECT "displayName" FROM "SocialAccount" WHERE "id" = r."groupId")`,
+  },
+  [RollupDimension.CONTENT]: {
+    key: `pp."contentId"`,
+    label: `(SELECT "title" FROM "Content" WHERE "id" = r."groupId")`,
+  },
+};
+
+const BUCKET_MS: Record<BucketSize, number> = {
+  [BucketSize.HOUR]: 60 * 60 * 1000,
+  [BucketSize.DAY]: 24 * 60 * 60 * 1000,
+  [BucketSize.WEEK]: 7 * 24 * 60 * 60 * 1000,
+};
+
+const MAX_BUCKETS = 1000;
+
+export class AnalyticsService {
+  private retention: AnalyticsRetentionService;
+  private subscriptionService: SubscriptionService;
+
+  constructor(
+    private db: PrismaClient,
+    clock: Clock = () => new Date()
+  ) {
+    this.retention = new AnalyticsRetentionService(db, clock);
+    this.subscriptionService = new SubscriptionService(db);
+  }
+
+  /**
+   * Get the plan's analytics window so the UI can bound its date pickers
+   */
+  async getRetentionWindow(workspaceId: string) {
+    return this.retention.getRetentionWindow(workspaceId);
+  }
+
+  /**
+   * Get the metrics snapshots of one published post, oldest first
+   */
+  async getPostHistory(workspaceId: string, publishedPostId: string, range: DateRange) {
+    const post = await this.db.publishedPost.findFirst({
+      where: {
+        id: publishedPostId,
+        socialAccount: { workspaceId },
+      },
+      select: { id: true, platform: true, platformPostId: true, publishedAt: true }
+    });
+
+    if (!post) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Published post not found"
+      });
+    }
+
+    const { startDate, endDate } = await this.retention.resolveDateRange(workspaceId, range);
+
+    const snapshots = await this.db.analytics.findMany({
+      where: {
+        publishedPostId,
+        collectedAt: { gte: startDate, lte: endDate },
+      },
+      orderBy: { collectedAt: "asc" },
+      select: {
+        collectedAt: true,
+        likes: true,
+        shares: true,
+        comments: true,
+        views: true,
+        impressions: true,
+        platformSpecific: true,
+      }
+    });
+
+    return { post, startDate, endDate, snapshots };
+  }
+
+  /**
+   * Roll up metrics growth into time buckets, grouped by a dimension.
+   *
+   * Snapshots hold running totals, so each post's last snapshot per bucket is diffed
+   * against its previous one (including the last one before the range) to get the
+   * growth within that bucket. Empty buckets are filled with zeros so each group's
+   * change is measured against the bucket right before it.
+   */
+  async getRollup(workspaceId: string, options: RollupOptions): Promise<RollupRow[]> {
+    // Narrowing to one account or piece of content is a breakdown too, whatever the dimension
+    if (ADVANCED_DIMENSIONS.has(options.dimension) || options.socialAccountId || options.contentId) {
+      await this.ensureAdvancedAnalytics(workspaceId);
+    }
+
+    const { startDate, endDate } = await this.retention.resolveDateRange(workspaceId, options);
+
+    if ((endDate.getTime() - startDate.getTime()) / BUCKET_MS[options.bucket] > MAX_BUCKETS) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `That range has more than ${MAX_BUCKETS} ${options.bucket} buckets; choose a larger bucket or a shorter range`
+      });
+    }
+
+    return this.queryRollup(workspaceId, options, startDate, endDate);
+  }
+
+  /**
+   * Run a rollup over an already resolved range. Callers enforce plan gates and retention.
+   */
+  async queryRollup(workspaceId: string, options: Omit<RollupOptions, keyof DateRange>, startDate: Date, endDate: Date): Promise<RollupRow[]> {
+    const group = GROUP_COLUMNS[options.dimension];
+    const unit = options.bucket;
+
+    return this.db.$queryRaw<RollupRow[]>`
+      WITH posts AS (
+        SELECT pp."id", ${Prisma.raw(group.key)} AS "groupId"
+        FROM "PublishedPost" pp
+        JOIN "SocialAccount" sa ON sa."id" = pp."socialAccountId"
+        WHERE sa."workspaceId" = ${workspaceId}
+          ${this.toFilterSql(options)}
+      ),
+      snapshots AS (
+        SELECT p."id", p."groupId", date_trunc(${unit}, a."collectedAt") AS "bucket", a."collectedAt",
+          a."likes", a."shares", a."comments", a."views", a."impressions"
+        FROM posts p
+        JOIN "Analytics" a ON a."publishedPostId" = p."id"
+        WHERE a."collectedAt" >= ${startDate} AND a."collectedAt" < ${endDate}
+        UNION ALL
+        SELECT p."id", p."groupId", NULL, b."collectedAt",
+          b."likes", b."shares", b."comments", b."views", b."impressions"
+        FROM posts p
+        CROSS JOIN LATERAL (
+          SELECT * FROM "Analytics" a
+          WHERE a."publishedPostId" = p."id" AND a."collectedAt" < ${startDate}
+          ORDER BY a."collectedAt" DESC
+          LIMIT 1
+        ) b
+      ),
+      latest AS (
+        SELECT DISTINCT ON ("id", "bucket") *
+        FROM snapshots
+        ORDER BY "id", "bucket" NULLS FIRST, "collectedAt" DESC
+      ),
+      growth AS (
+        SELECT "groupId", "bucket",
+          "likes" - COALESCE(LAG("likes") OVER post, 0) AS "likes",
+          "shares" - COALESCE(LAG("shares") OVER post, 0) AS "shares",
+          "comments" - COALESCE(LAG("comments") OVER post, 0) AS "comments",
+          "views" - COALESCE(LAG("views") OVER post, 0) AS "views",
+          "impressions" - COALESCE(LAG("impressions") OVER post, 0) AS "impressions"
+        FROM latest
+        WINDOW post AS (PARTITION BY "id" ORDER BY "bucket" NULLS FIRST)
+      ),
+      buckets AS (
+        SELECT generate_series(
+          date_trunc(${unit}, ${startDate}::timestamp),
+          ${endDate}::timestamp - interval '1 millisecond',
+          ('1 ' || ${unit})::interval
+        ) AS "bucket"
+      ),
+      groups AS (
+        SELECT DISTINCT "groupId" FROM growth WHERE "bucket" IS NOT NULL
+      ),
+      totals AS (
+        SELECT g."groupId", b."bucket",
+          COALESCE(SUM(gr."likes"), 0)::int AS "likes",
+          COALESCE(SUM(gr."shares"), 0)::int AS "shares",
+          COALESCE(SUM(gr."comments"), 0)::int AS "comments",
+          COALESCE(SUM(gr."views"), 0)::int AS "views",
+          COALESCE(SUM(gr."impressions"), 0)::int AS "impressions"
+        FROM groups g
+        CROSS JOIN buckets b
+        LEFT JOIN growth gr ON gr."groupId" = g."groupId" AND gr."bucket" = b."bucket"
+        GROUP BY g."groupId", b."bucket"
+      ),
+      rolled AS (
+        SELECT *, ("likes" + "shares" + "comments") AS "engagements"
+        FROM totals
+      )
+      SELECT r."bucket", r."groupId", ${Prisma.raw(group.label)} AS "groupLabel",
+        r."likes", r."shares", r."comments", r."views", r."impressions", r."engagements",
+        ROUND(r."engagements" * 100.0 / NULLIF(r."impressions", 0), 2)::float8 AS "engagementRate",
+        r."engagements" - LAG(r."engagements") OVER grp AS "engagementsChange",
+        ROUND((r."engagements" - LAG(r."engagements") OVER grp) * 100.0 / NULLIF(LAG(r."engagements") OVER grp, 0), 2)::float8 AS "engagementsChangePct",
+        r."impressions" - LAG(r."impressions") OVER grp AS "impressionsChange"
+      FROM rolled r
+      WINDOW grp AS (PARTITION BY r."groupId" ORDER BY r."bucket")
+      ORDER BY r."bucket", r."groupId"
+    `;
+  }
+
+  private toFilterSql(filters: RollupFilters): Prisma.Sql {
+    const conditions: Prisma.Sql[] = [];
+
+    if (filters.socialAccountId) {
+      conditions.push(Prisma.sql`AND pp."socialAccountId" = ${filters.socialAccountId}`);
+    }
+    if (filters.platform) {
+      conditions.push(Prisma.sql`AND pp."platform" = ${filters.platform}`);
+    }
+    if (filters.contentId) {
+      conditions.push(Prisma.sql`AND pp."contentId" = ${filters.contentId}`);
+    }
+
+    return conditions.length > 0 ? Prisma.join(conditions, " ") : Prisma.empty;
+  }
+
+  /**
+   * Advanced analytics follow the workspace owner's plan, like retention does
+   */
+  async ensureAdvancedAnalytics(workspaceId: string): Promise<void> {
+    const workspace = await this.db.workspace.findUnique({
+      where: { id: workspaceId },
+      select: { ownerId: true }
+    });
+
+    if (!workspace || !(await this.subscriptionService.checkFeatureAccess(workspace.ownerId, Feature.ADVANCED_ANALYTICS))) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "Per-account and per-content analytics need a plan with advanced analytics"
+      });
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import { type SocialPlatform, type AccountType } from "@/server/services/auth/base-auth-provider";
+import { type SocialCredentials } from "@/server/services/credential";
+
+export interface MetricsTarget {
+  platformAccountId: string;
+  accountType: AccountType;
+  credentials: SocialCredentials;
+}
+
+export interface MetricsPost {
+  platformPostId: string;
+  threadPostIds: string[]; // Every post of a thread, in order; empty for single posts
+}
+
+/**
+ * One snapshot of a post's engagement. Counts that a platform doesn't report are 0.
+ */
+export interface PostMetrics {
+  likes: number;
+  shares: number;
+  comments: number;
+  views: number;
+  impressions: number;
+  platformSpecific: Record<string, any>;
+}
+
+/**
+ * Error raised when a platform API rejects a metrics request
+ */
+export class MetricsError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = "MetricsError";
+  }
+
+  /**
+   * The post is gone (deleted on the platform), so there's nothing left to collect
+   */
+  isPostGone(): boolean {
+    return this.status === 404 || this.status === 410;
+  }
+}
+
+export function emptyMetrics(): PostMetrics {
+  return { likes: 0, shares: 0, comments: 0, views: 0, impressions: 0, platformSpecific: {} };
+}
+
+/**
+ * Add up the metrics of each part of a thread, keeping the per-part numbers
+ */
+export function sumThreadMetrics(postIds: string[], parts: PostMetrics[]): PostMetrics {
+  const total = emptyMetrics();
+
+  for (const part of parts) {
+    total.likes += part.likes;
+    total.shares += part.shares;
+    total.comments += part.comments;
+    total.views += part.views;
+    total.impressions += part.impressions;
+  }
+
+  total.platformSpecific = {
+    parts: parts.map((part, index) => ({ postId: postIds[index], ...part })),
+  };
+
+  return total;
+}
+
+/**
+ * Abstract base class for platform-specific metrics adapters
+ */
+export abstract class MetricsAdapter {
+  constructor(protected platform: SocialPlatform) { }
+
+  /**
+   * Get the platform this adapter handles
+   */
+  getPlatform(): SocialPlatform {
+    return this.platform;
+  }
+
+  /**
+   * Fetch the current engagement of a post; threads are summed over all their parts
+   */
+  abstract fetchMetrics(target: MetricsTarget, post: MetricsPost): Promise<PostMetrics>;
+
+  /**
+   * The ids to collect for a post: every part of a thread, or just the post
+   */
+  protected getPostIds(post: MetricsPost): string[] {
+    return post.threadPostIds.length > 0 ? post.threadPostIds : [post.platformPostId];
+  }
+
+  /**
+   * Throw a MetricsError carrying the HTTP status if the response failed
+   */
+  protected async ensureOk(response: Response, context: string): Promise<void> {
+    if (response.ok) {
+      return;
+    }
+
+    const body = await response.text();
+    throw new MetricsError(
+      `${context} failed: ${response.status} ${response.statusText} - ${body}`,
+      response.status
+    );
+  }
+}
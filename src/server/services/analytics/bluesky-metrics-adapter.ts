@@ -0,0 +1,74 @@
+import { SocialPlatform } from "@/server/services/auth/base-auth-provider";
+import {
+  MetricsAdapter,
+  MetricsError,
+  sumThreadMetrics,
+  type MetricsPost,
+  type MetricsTarget,
+  type PostMetrics
+} from "./base-metrics-adapter";
+
+interface BlueskyPostView {
+  uri: string;
+  likeCount?: number;
+  repostCount?: number;
+  replyCount?: number;
+  quoteCount?: number;
+}
+
+export class BlueskyMetricsAdapter extends MetricsAdapter {
+  constructor() {
+    super(SocialPlatform.BLUESKY);
+  }
+
+  async fetchMetrics(target: MetricsTarget, post: MetricsPost): Promise<PostMetrics> {
+    const pdsUrl = target.credentials.platformMetadata.pdsUrl;
+    if (typeof pdsUrl !== 'string' || !pdsUrl) {
+      throw new MetricsError("Bluesky account has no server; please reconnect it", 400);
+    }
+
+    // The PDS proxies app.bsky reads to the AppView; up to 25 posts per request
+    const postIds = this.getPostIds(post);
+    const params = new URLSearchParams();
+    for (const uri of postIds) {
+      params.append('uris', uri);
+    }
+
+    const response = await fetch(`${pdsUrl}/xrpc/app.bsky.feed.getPosts?${params.toString()}`, {
+      headers: {
+        'Authorization': `Bearer ${target.credentials.accessToken}`,
+      },
+    });
+
+    await this.ensureOk(response, "Get Bluesky posts");
+
+    // Deleted posts are left out of the response
+    const data: { posts: BlueskyPostView[] } = await response.json();
+    const posts = new Map(data.posts.map(view => [view.uri, view]));
+
+    if (!posts.has(postIds[0]!)) {
+      throw new MetricsError(`Bluesky post ${postIds[0]} no longer exists`, 404);
+    }
+
+    const parts = postIds.map(uri => this.toMetrics(posts.get(uri)));
+
+    return postIds.length > 1 ? sumThreadMetrics(postIds, parts) : parts[0]!;
+  }
+
+  /**
+   * Bluesky reports no impressions or views
+   */
+  private toMetrics(view: BlueskyPostView | undefined): PostMetrics {
+    return {
+      likes: view?.likeCount ?? 0,
+      shares: (view?.repostCount ?? 0) + (view?.quoteCount ?? 0),
+      comments: view?.replyCount ?? 0,
+      views: 0,
+      impressions: 0,
+      platformSpecific: {
+        reposts: view?.repostCount ?? 0,
+        quotes: view?.quoteCount ?? 0,
+      },
+    };
+  }
+}
@@ -0,0 +1,27 @@
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * How often a post's metrics are collected as it ages. Engagement moves fastest right
+ * after publishing, so snapshots are frequent at first, then daily, then stop.
+ */
+export const COLLECTION_SCHEDULE: Array<{ untilAgeMs: number; intervalMs: number }> = [
+  { untilAgeMs: 6 * HOUR_MS, intervalMs: 15 * MINUTE_MS },
+  { untilAgeMs: 48 * HOUR_MS, intervalMs: HOUR_MS },
+  { untilAgeMs: 30 * DAY_MS, intervalMs: DAY_MS },
+];
+
+// Claimed posts are pushed this far out, so a collector that dies mid-batch doesn't lose them
+export const COLLECTION_LEASE_MS = 10 * MINUTE_MS;
+
+/**
+ * When a post published at publishedAt is next due for collection after now,
+ * or null once it's past the end of the schedule
+ */
+export function getNextCollectionAt(publishedAt: Date, now: Date): Date | null {
+  const age = now.getTime() - publishedAt.getTime();
+  const stage = COLLECTION_SCHEDULE.find(candidate => age < candidate.untilAgeMs);
+
+  return stage ? new Date(now.getTime() + stage.intervalMs) : null;
+}
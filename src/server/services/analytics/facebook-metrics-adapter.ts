@@ -0,0 +1,81 @@
+import { SocialPlatform } from "@/server/services/auth/base-auth-provider";
+import {
+  MetricsAdapter,
+  type MetricsPost,
+  type MetricsTarget,
+  type PostMetrics
+} from "./base-metrics-adapter";
+
+interface FacebookPostEngagement {
+  id: string;
+  reactions?: { summary?: { total_count: number } };
+  comments?: { summary?: { total_count: number } };
+  shares?: { count: number };
+}
+
+interface FacebookInsightsResponse {
+  data: Array<{
+    name: string;
+    values: Array<{ value: number }>;
+  }>;
+}
+
+export class FacebookMetricsAdapter extends MetricsAdapter {
+  private readonly apiVersion = "v19.0";
+  private readonly baseUrl = "https://graph.facebook.com";
+
+  constructor() {
+    super(SocialPlatform.FACEBOOK);
+  }
+
+  async fetchMetrics(target: MetricsTarget, post: MetricsPost): Promise<PostMetrics> {
+    const accessToken = target.credentials.accessToken;
+
+    const params = new URLSearchParams({
+      fields: 'reactions.summary(total_count).limit(0),comments.summary(total_count).limit(0),shares',
+      access_token: accessToken,
+    });
+
+    const response = await fetch(`${this.baseUrl}/${this.apiVersion}/${post.platformPostId}?${params.toString()}`);
+    await this.ensureOk(response, "Get Facebook post engagement");
+
+    const engagement: FacebookPostEngagement = await response.json();
+    const insights = await this.getInsights(post.platformPostId, accessToken);
+
+    return {
+      likes: engagement.reactions?.summary?.total_count ?? 0,
+      shares: engagement.shares?.count ?? 0,
+      comments: engagement.comments?.summary?.total_count ?? 0,
+      views: insights.post_video_views ?? 0,
+      impressions: insights.post_impressions ?? 0,
+      platformSpecific: {
+        reach: insights.post_impressions_unique ?? 0,
+        clicks: insights.post_clicks ?? 0,
+        insightsAvailable: Object.keys(insights).length > 0,
+      },
+    };
+  }
+
+  /**
+   * Page insights are optional: they need read_insights and lag behind for new posts
+   */
+  private async getInsights(postId: string, accessToken: string): Promise<Record<string, number>> {
+    try {
+      const params = new URLSearchParams({
+        metric: 'post_impressions,post_impressions_unique,post_clicks,post_video_views',
+        access_token: accessToken,
+      });
+
+      const response = await fetch(`${this.baseUrl}/${this.apiVersion}/${postId}/insights?${params.toString()}`);
+      if (!response.ok) {
+        return {};
+      }
+
+      const data: FacebookInsightsResponse = await response.json();
+      return Object.fromEntries(data.data.map(metric => [metric.name, metric.values[0]?.value ?? 0]));
+    } catch (error) {
+      console.warn("Failed to get Facebook post insights:", error);
+      return {};
+    }
+  }
+}
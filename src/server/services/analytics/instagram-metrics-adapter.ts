@@ -0,0 +1,83 @@
+import { SocialPlatform } from "@/server/services/auth/base-auth-provider";
+import {
+  MetricsAdapter,
+  type MetricsPost,
+  type MetricsTarget,
+  type PostMetrics
+} from "./base-metrics-adapter";
+
+interface InstagramMediaCounts {
+  id: string;
+  like_count?: number;
+  comments_count?: number;
+  media_product_type?: "FEED" | "REELS" | "STORY" | "AD";
+}
+
+interface InstagramInsightsResponse {
+  data: Array<{
+    name: string;
+    values: Array<{ value: number }>;
+  }>;
+}
+
+export class InstagramMetricsAdapter extends MetricsAdapter {
+  private readonly apiVersion = "v19.0";
+  private readonly baseUrl = "https://graph.facebook.com";
+
+  constructor() {
+    super(SocialPlatform.INSTAGRAM);
+  }
+
+  async fetchMetrics(target: MetricsTarget, post: MetricsPost): Promise<PostMetrics> {
+    const accessToken = target.credentials.accessToken;
+
+    const params = new URLSearchParams({
+      fields: 'like_count,comments_count,media_product_type',
+      access_token: accessToken,
+    });
+
+    const response = await fetch(`${this.baseUrl}/${this.apiVersion}/${post.platformPostId}?${params.toString()}`);
+    await this.ensureOk(response, "Get Instagram media");
+
+    const media: InstagramMediaCounts = await response.json();
+    const isReel = media.media_product_type === 'REELS';
+    const insights = await this.getInsights(post.platformPostId, accessToken, isReel);
+
+    return {
+      likes: media.like_count ?? 0,
+      shares: insights.shares ?? 0,
+      comments: media.comments_count ?? 0,
+      views: isReel ? insights.plays ?? 0 : 0,
+      impressions: insights.impressions ?? 0,
+      platformSpecific: {
+        reach: insights.reach ?? 0,
+        saved: insights.saved ?? 0,
+        mediaProductType: media.media_product_type,
+        insightsAvailable: Object.keys(insights).length > 0,
+      },
+    };
+  }
+
+  /**
+   * Insights need instagram_manage_insights; reels report plays where feed posts report impressions
+   */
+  private async getInsights(mediaId: string, accessToken: string, isReel: boolean): Promise<Record<string, number>> {
+    try {
+      const params = new URLSearchParams({
+        metric: isReel ? 'plays,reach,saved,shares' : 'impressions,reach,saved,shares',
+        access_token: accessToken,
+      });
+
+      const response = await fetch(`${this.baseUrl}/${this.apiVersion}/${mediaId}/insights?${params.toString()}`);
+      if (!response.ok) {
+        return {};
+      }
+
+      const data: InstagramInsightsResponse = await response.json();
+      return Object.fromEntries(data.data.map(metric => [metric.name, metric.values[0]?.value ?? 0]));
+    } catch (error) {
+      console.warn("Failed to get Instagram media insights:", error);
+      return {};
+    }
+  }
+}
@@ -0,0 +1,106 @@
+import { SocialPlatform, AccountType } from "@/server/services/auth/base-auth-provider";
+import {
+  MetricsAdapter,
+  type MetricsPost,
+  type MetricsTarget,
+  type PostMetrics
+} from "./base-metrics-adapter";
+
+interface LinkedInSocialActions {
+  likesSummary?: { totalLikes: number };
+  commentsSummary?: { aggregatedTotalComments: number };
+}
+
+interface LinkedInShareStatistics {
+  elements: Array<{
+    totalShareStatistics: {
+      impressionCount: number;
+      uniqueImpressionsCount: number;
+      shareCount: number;
+      clickCount: number;
+      engagement: number;
+    };
+  }>;
+}
+
+export class LinkedInMetricsAdapter extends MetricsAdapter {
+  private readonly apiVersion = "202405";
+  private readonly baseUrl = "https://api.linkedin.com/rest";
+
+  constructor() {
+    super(SocialPlatform.LINKEDIN);
+  }
+
+  async fetchMetrics(target: MetricsTarget, post: MetricsPost): Promise<PostMetrics> {
+    const accessToken = target.credentials.accessToken;
+    const postUrn = post.platformPostId;
+
+    const response = await fetch(`${this.baseUrl}/socialActions/${encodeURIComponent(postUrn)}`, {
+      headers: this.getHeaders(accessToken),
+    });
+
+    await this.ensureOk(response, "Get LinkedIn social actions");
+
+    const actions: LinkedInSocialActions = await response.json();
+
+    const metrics: PostMetrics = {
+      likes: actions.likesSummary?.totalLikes ?? 0,
+      shares: 0,
+      comments: actions.commentsSummary?.aggregatedTotalComments ?? 0,
+      views: 0,
+      impressions: 0,
+      platformSpecific: {},
+    };
+
+    // Impressions and reshares are only reported for organization posts
+    if (target.accountType === AccountType.BUSINESS) {
+      const statistics = await this.getShareStatistics(accessToken, target.platformAccountId, postUrn);
+      if (statistics) {
+        metrics.shares = statistics.shareCount;
+        metrics.impressions = statistics.impressionCount;
+        metrics.platformSpecific = {
+          uniqueImpressions: statistics.uniqueImpressionsCount,
+          clicks: statistics.clickCount,
+          engagementRate: statistics.engagement,
+        };
+      }
+    }
+
+    return metrics;
+  }
+
+  private async getShareStatistics(
+    accessToken: string,
+    organizationId: string,
+    postUrn: string
+  ): Promise<LinkedInShareStatistics["elements"][number]["totalShareStatistics"] | null> {
+    try {
+      // Posts made through the Posts API are either shares or ugcPosts
+      const postParam = postUrn.startsWith('urn:li:ugcPost:') ? 'ugcPosts' : 'shares';
+      const organization = encodeURIComponent(`urn:li:organization:${organizationId}`);
+
+      const response = await fetch(
+        `${this.baseUrl}/organizationalEntityShareStatistics?q=organizationalEntity&organizationalEntity=${organization}&${postParam}=List(${encodeURIComponent(postUrn)})`,
+        { headers: this.getHeaders(accessToken) }
+      );
+
+      if (!response.ok) {
+        return null;
+      }
+
+      const data: LinkedInShareStatistics = await response.json();
+      return data.elements[0]?.totalShareStatistics ?? null;
+    } catch (error) {
+      console.warn("Failed to get LinkedIn share statistics:", error);
+      return null;
+    }
+  }
+
+  private getHeaders(accessToken: string): Record<string, string> {
+    return {
+      'Authorization': `Bearer ${accessToken}`,
+      'LinkedIn-Version': this.apiVersion,
+      'X-Restli-Protocol-Version': '2.0.0',
+    };
+  }
+}
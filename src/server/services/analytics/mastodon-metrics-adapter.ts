@@ -0,0 +1,65 @@
+import { SocialPlatform } from "@/server/services/auth/base-auth-provider";
+import {
+  MetricsAdapter,
+  MetricsError,
+  sumThreadMetrics,
+  type MetricsPost,
+  type MetricsTarget,
+  type PostMetrics
+} from "./base-metrics-adapter";
+
+interface MastodonStatusCounts {
+  id: string;
+  favourites_count: number;
+  reblogs_count: number;
+  replies_count: number;
+}
+
+export class MastodonMetricsAdapter extends MetricsAdapter {
+  constructor() {
+    super(SocialPlatform.MASTODON);
+  }
+
+  async fetchMetrics(target: MetricsTarget, post: MetricsPost): Promise<PostMetrics> {
+    const instanceUrl = target.credentials.platformMetadata.instanceUrl;
+    if (typeof instanceUrl !== 'string' || !instanceUrl) {
+      throw new MetricsError("Mastodon account has no instance; please reconnect it", 400);
+    }
+
+    const postIds = this.getPostIds(post);
+    const parts: PostMetrics[] = [];
+
+    for (const id of postIds) {
+      const response = await fetch(`${instanceUrl}/api/v1/statuses/${id}`, {
+        headers: {
+          'Authorization': `Bearer ${target.credentials.accessToken}`,
+        },
+      });
+
+      // Replies deleted later in a thread count as zero
+      if (response.status === 404 && parts.length > 0) {
+        parts.push(this.toMetrics());
+        continue;
+      }
+
+      await this.ensureOk(response, "Get Mastodon status");
+      parts.push(this.toMetrics(await response.json()));
+    }
+
+    return postIds.length > 1 ? sumThreadMetrics(postIds, parts) : parts[0]!;
+  }
+
+  /**
+   * Mastodon reports no impressions or views
+   */
+  private toMetrics(status?: MastodonStatusCounts): PostMetrics {
+    return {
+      likes: status?.favourites_count ?? 0,
+      shares: status?.reblogs_count ?? 0,
+      comments: status?.replies_count ?? 0,
+      views: 0,
+      impressions: 0,
+      platformSpecific: {},
+    };
+  }
+}
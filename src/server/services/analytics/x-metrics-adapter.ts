@@ -0,0 +1,82 @@
+import { SocialPlatform } from "@/server/services/auth/base-auth-provider";
+import {
+  MetricsAdapter,
+  MetricsError,
+  sumThreadMetrics,
+  type MetricsPost,
+  type MetricsTarget,
+  type PostMetrics
+} from "./base-metrics-adapter";
+
+interface XTweetMetrics {
+  id: string;
+  public_metrics: {
+    retweet_count: number;
+    reply_count: number;
+    like_count: number;
+    quote_count: number;
+    bookmark_count?: number;
+    impression_count?: number;
+  };
+}
+
+interface XTweetsResponse {
+  data?: XTweetMetrics[];
+  errors?: Array<{ resource_id?: string; title: string }>; // Deleted posts are reported here
+}
+
+export class XMetricsAdapter extends MetricsAdapter {
+  private readonly apiVersion = "2";
+  private readonly baseUrl = "https://api.twitter.com";
+
+  constructor() {
+    super(SocialPlatform.X);
+  }
+
+  async fetchMetrics(target: MetricsTarget, post: MetricsPost): Promise<PostMetrics> {
+    const postIds = this.getPostIds(post);
+
+    // A thread fits in one lookup; up to 100 posts can be fetched at once
+    const params = new URLSearchParams({
+      ids: postIds.join(','),
+      'tweet.fields': 'public_metrics',
+    });
+
+    const response = await fetch(`${this.baseUrl}/${this.apiVersion}/tweets?${params.toString()}`, {
+      headers: {
+        'Authorization': `Bearer ${target.credentials.accessToken}`,
+      },
+    });
+
+    await this.ensureOk(response, "Get X post metrics");
+
+    const data: XTweetsResponse = await response.json();
+    const tweets = new Map((data.data ?? []).map(tweet => [tweet.id, tweet]));
+
+    if (!tweets.has(postIds[0]!)) {
+      throw new MetricsError(`X post ${postIds[0]} no longer exists`, 404);
+    }
+
+    // Parts deleted later in a thread count as zero
+    const parts = postIds.map(id => this.toMetrics(tweets.get(id)));
+
+    return postIds.length > 1 ? sumThreadMetrics(postIds, parts) : parts[0]!;
+  }
+
+  private toMetrics(tweet: XTweetMetrics | undefined): PostMetrics {
+    const metrics = tweet?.public_metrics;
+
+    return {
+      likes: metrics?.like_count ?? 0,
+      shares: (metrics?.retweet_count ?? 0) + (metrics?.quote_count ?? 0),
+      comments: metrics?.reply_count ?? 0,
+      views: 0,
+      impressions: metrics?.impression_count ?? 0,
+      platformSpecific: {
+        retweets: metrics?.retweet_count ?? 0,
+        quotes: metrics?.quote_count ?? 0,
+        bookmarks: metrics?.bookmark_count ?? 0,
+      },
+    };
+  }
+}
@@ -1,17 +1,77 @@
+import crypto from "crypto";
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
 import { TRPCError } from "@trpc/server";
 import { type PrismaClient } from "@prisma/client";
+import { env } from "@/env";
+import { decryptObject, encryptObject, loadKeyring } from "@/lib/encryption";
 import { CredentialService, type SocialCredentials } from "@/server/services/credential";
+import { type CredentialAuditContext } from "@/server/services/credential-audit";
+import { SubscriptionService } from "@/server/services/subscription";
+import { WorkspacePermission, hasPermission, type WorkspaceRole } from "@/server/services/workspace";
+import { OAuthStateManager, type OAuthState } from "./oauth-state-manager";
+import { createOAuthSessionStore, type OAuthSessionStore } from "./oauth-session-store";
+
+// Addresses a user-supplied server may not point at: private, loopback, link-local,
+// carrier-grade NAT, benchmarking, multicast and reserved ranges
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+// BlockList also matches IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) against the IPv4 ranges
+for (const [network, prefix] of [["::", 127], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+function isPrivateAddress(address: string): boolean {
+  return PRIVATE_ADDRESSES.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
 
 export enum SocialPlatform {
   FACEBOOK = "facebook",
   X = "x",
-  LINKEDIN = "linkedin"
+  LINKEDIN = "linkedin",
+  MASTODON = "mastodon",
+  BLUESKY = "bluesky",
+  INSTAGRAM = "instagram",
+  SLACK = "slack",
+  DISCORD = "discord",
+  TEAMS = "teams"
 }
 
 export enum AccountType {
   PERSONAL = "personal",
   BUSINESS = "business",
-  PAGE = "page"
+  PAGE = "page",
+  WEBHOOK = "webhook" // A chat channel posted to through an incoming webhook
+}
+
+/**
+ * How an account gets connected: an OAuth redirect, credentials the user enters here,
+ * or an incoming-webhook URL pasted from a chat product
+ */
+export enum ConnectMethod {
+  OAUTH = "oauth",
+  CREDENTIALS = "credentials",
+  WEBHOOK = "webhook"
+}
+
+export interface CredentialConnectInput {
+  identifier: string; // Handle or email
+  password: string; // An app-specific password, never the account password
+  service?: string; // Server to sign in to, when it isn't the platform's default
+}
+
+export interface WebhookConnectInput {
+  url: string; // The incoming-webhook URL; anyone holding it can post to the channel
+  name?: string; // Shown in place of the channel's own name
+}
+
+export interface InitiateAuthOptions {
+  instance?: string; // Server to connect to, for federated platforms like Mastodon
 }
 
 export interface AuthUrl {
@@ -37,9 +97,105 @@ export interface PlatformAccount {
   metadata: Record<string, any>;
 }
 
+/**
+ * A page or organization the user can connect, offered after the callback
+ */
+export interface AccountSelectionOption {
+  id: string;
+  name: string;
+  username?: string;
+  profilePicture?: string;
+  accountType: AccountType;
+  platform: SocialPlatform;
+}
+
+export interface PendingAccountSelection {
+  selectionId: string;
+  options: AccountSelectionOption[];
+}
+
 export interface AuthCallbackResult {
   account: PlatformAccount;
   tokens: OAuthTokens;
+  selection?: PendingAccountSelection; // Set when the user still has to pick which accounts to connect
+}
+
+/**
+ * An account found during the callback, with the token it publishes with
+ */
+export interface AccountCandidate {
+  account: PlatformAccount;
+  tokens: OAuthTokens;
+  platform?: SocialPlatform; // When it's stored under another platform, e.g. a Page's linked Instagram account
+}
+
+interface StoredAccountSelection {
+  workspaceId: string;
+  userId: string;
+  platform: SocialPlatform;
+  candidates: string; // Encrypted AccountCandidate[]; they carry access tokens
+}
+
+const ACCOUNT_SELECTION_TTL_MS = 15 * 60 * 1000; // 15 minutes
+
+function toSelectionOption(candidate: AccountCandidate, defaultPlatform: SocialPlatform): AccountSelectionOption {
+  const { account } = candidate;
+  return {
+    id: account.id,
+    name: account.name,
+    username: account.username,
+    profilePicture: account.profilePicture,
+    accountType: account.accountType,
+    platform: candidate.platform ?? defaultPlatform,
+  };
+}
+
+// OAuth error codes that point at our app's configuration rather than the user's grant
+const CLIENT_ERROR_CODES = new Set(["invalid_client", "unauthorized_client"]);
+
+/**
+ * Error raised when a platform's OAuth endpoint rejects a request
+ */
+export class OAuthRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly errorCode?: string // The OAuth "error" field, e.g. invalid_grant
+  ) {
+    super(message);
+    this.name = "OAuthRequestError";
+  }
+
+  /**
+   * Build an error from a failed response, reading the OAuth error code from the body
+   */
+  static async fromResponse(response: Response, context: string): Promise<OAuthRequestError> {
+    const body = await response.text();
+    let errorCode: string | undefined;
+
+    try {
+      const parsed = JSON.parse(body);
+      // Facebook nests the error in an object; the others use a plain string
+      errorCode = typeof parsed.error === 'string' ? parsed.error : parsed.error?.type;
+    } catch {
+      // Not JSON; keep the status only
+    }
+
+    return new OAuthRequestError(
+      `${context} failed: ${response.status} ${response.statusText} - ${body}`,
+      response.status,
+      errorCode
+    );
+  }
+
+  /**
+   * Whether the platform refused the grant itself (revoked, expired or already-used
+   * refresh token), as opposed to a temporary or configuration problem
+   */
+  isGrantRejected(): boolean {
+    return (this.status === 400 || this.status === 401) &&
+      !(this.errorCode && CLIENT_ERROR_CODES.has(this.errorCode));
+  }
 }
 
 /**
@@ -47,12 +203,16 @@ export interface AuthCallbackResult {
  */
 export abstract class SocialAuthProvider {
   protected credentialService: CredentialService;
+  protected sessionStore: OAuthSessionStore;
+  readonly connectMethod: ConnectMethod = ConnectMethod.OAUTH;
 
   constructor(
     protected db: PrismaClient,
-    protected platform: SocialPlatform
+    protected platform: SocialPlatform,
+    auditContext: CredentialAuditContext = {}
   ) {
-    this.credentialService = new CredentialService(db);
+    this.credentialService = new CredentialService(db, auditContext);
+    this.sessionStore = createOAuthSessionStore(db);
   }
 
   /**
@@ -63,23 +223,54 @@ export abstract class SocialAuthProvider {
   }
 
   /**
-   * Initiate OAuth flow and return authorization URL
+   * Initiate OAuth flow for a user and return authorization URL
    */
   abstract initiateAuth(
     workspaceId: string,
+    userId: string,
     accountType: AccountType,
-    redirectUri: string
+    redirectUri: string,
+    options?: InitiateAuthOptions
   ): Promise<AuthUrl>;
 
   /**
-   * Handle OAuth callback and exchange code for tokens
+   * Handle OAuth callback for the user who started the flow and exchange code for tokens
    */
   abstract handleCallback(
     code: string,
     state: string,
-    redirectUri: string
+    redirectUri: string,
+    userId: string
   ): Promise<AuthCallbackResult>;
 
+  /**
+   * Connect an account with credentials instead of a redirect. Only providers whose
+   * connectMethod is CREDENTIALS support this.
+   */
+  async connectWithCredentials(
+    _workspaceId: string,
+    _input: CredentialConnectInput
+  ): Promise<AuthCallbackResult> {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `${this.platform} accounts are connected through the platform's sign-in page`
+    });
+  }
+
+  /**
+   * Connect a chat channel by its incoming-webhook URL. Only providers whose
+   * connectMethod is WEBHOOK support this.
+   */
+  async connectWebhook(
+    _workspaceId: string,
+    _input: WebhookConnectInput
+  ): Promise<AuthCallbackResult> {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `${this.platform} accounts can't be connected with a webhook URL`
+    });
+  }
+
   /**
    * Refresh access token using refresh token
    */
@@ -106,13 +297,17 @@ export abstract class SocialAuthProvider {
   abstract getRequiredScopes(): string[];
 
   /**
-   * Store credentials after successful authentication
+   * Store credentials after successful authentication. Accounts found through another
+   * platform's sign-in (Instagram through Facebook) pass their own platform.
    */
   protected async storeCredentials(
     workspaceId: string,
     account: PlatformAccount,
-    tokens: OAuthTokens
+    tokens: OAuthTokens,
+    platform: SocialPlatform = this.platform
   ): Promise<void> {
+    await this.ensureAccountLimit(workspaceId, platform, account.id);
+
     const expiresAt = tokens.expiresIn
       ? new Date(Date.now() + tokens.expiresIn * 1000)
       : undefined;
@@ -130,7 +325,7 @@ export abstract class SocialAuthProvider {
 
     await this.credentialService.storeCredentials(
       workspaceId,
-      this.platform,
+      platform,
       account.accountType,
       credentials
     );
@@ -140,7 +335,8 @@ export abstract class SocialAuthProvider {
    * Get stored credentials for an account
    */
   protected async getStoredCredentials(accountId: string): Promise<SocialCredentials | null> {
-    return this.credentialService.getCredentials(accountId);
+    // Refresh and revoke must still work once the access token has expired
+    return this.credentialService.getCredentials(accountId, { allowExpired: true });
   }
 
   /**
@@ -154,51 +350,250 @@ export abstract class SocialAuthProvider {
   }
 
   /**
-   * Generate OAuth state parameter with workspace and platform info
+   * Generate OAuth state parameter with workspace, user and platform info
+   */
+  protected async generateState(
+    workspaceId: string,
+    userId: string,
+    accountType: AccountType
+  ): Promise<string> {
+    return OAuthStateManager.generateState(this.sessionStore, workspaceId, userId, this.platform, accountType);
+  }
+
+  /**
+   * Validate the callback's state and use it up so the callback can't be replayed.
+   * The caller must be the user who started the flow and still be allowed to connect
+   * accounts in the workspace.
+   */
+  protected async consumeState(state: string, userId: string): Promise<OAuthState> {
+    const stateResult = await OAuthStateManager.consumeState(this.sessionStore, state, this.platform, userId);
+    if (!stateResult.isValid || !stateResult.data) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `Invalid OAuth state: ${stateResult.error ?? "unknown error"}`
+      });
+    }
+
+    await this.ensureCanConnect(stateResult.data.workspaceId, userId);
+
+    return stateResult.data;
+  }
+
+  /**
+   * Hold the pages or organizations found during the callback until the user picks
+   * which ones to connect. Nothing is stored as a social account yet.
    */
-  protected generateState(workspaceId: string, accountType: AccountType): string {
-    const crypto = require('crypto');
-    const timestamp = Date.now().toString();
-    const randomBytes = crypto.randomBytes(16).toString('hex');
-    const data = `${workspaceId}:${this.platform}:${accountType}:${timestamp}:${randomBytes}`;
-    return Buffer.from(data).toString('base64url');
+  protected async startAccountSelection(
+    state: OAuthState,
+    candidates: AccountCandidate[]
+  ): Promise<PendingAccountSelection> {
+    await loadKeyring();
+
+    const selectionId = crypto.randomBytes(16).toString('hex');
+    const selection: StoredAccountSelection = {
+      workspaceId: state.workspaceId,
+      userId: state.userId,
+      platform: this.platform,
+      candidates: encryptObject(candidates),
+    };
+
+    await this.sessionStore.set(this.getSelectionKey(selectionId), selection, ACCOUNT_SELECTION_TTL_MS);
+
+    return {
+      selectionId,
+      options: candidates.map(candidate => toSelectionOption(candidate, this.platform)),
+    };
+  }
+
+  /**
+   * Store each chosen page or organization as its own social account.
+   * A selection can only be completed once, by the user who started the flow.
+   */
+  async completeAccountSelection(
+    selectionId: string,
+    userId: string,
+    accountIds: string[]
+  ): Promise<AccountSelectionOption[]> {
+    const selection = await this.sessionStore.get<StoredAccountSelection>(this.getSelectionKey(selectionId));
+
+    if (!selection || selection.platform !== this.platform || selection.userId !== userId) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "This account selection has expired or was already completed. Please connect again."
+      });
+    }
+
+    await this.ensureCanConnect(selection.workspaceId, userId);
+
+    await loadKeyring();
+    const chosen = decryptObject<AccountCandidate[]>(selection.candidates)
+      .filter(candidate => accountIds.includes(candidate.account.id));
+
+    if (chosen.length === 0) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Select at least one account to connect"
+      });
+    }
+
+    for (const { account, tokens, platform } of chosen) {
+      await this.storeCredentials(selection.workspaceId, account, tokens, platform);
+    }
+
+    return chosen.map(candidate => toSelectionOption(candidate, this.platform));
+  }
+
+  /**
+   * Check the user can still connect accounts in the workspace; their role may have
+   * changed since they started the flow
+   */
+  private async ensureCanConnect(workspaceId: string, userId: string): Promise<void> {
+    const member = await this.db.workspaceMember.findUnique({
+      where: {
+        userId_workspaceId: {
+          userId,
+          workspaceId,
+        },
+      },
+      select: { role: true },
+    });
+
+    if (!member || !hasPermission(member.role as WorkspaceRole, WorkspacePermission.CONNECT_SOCIAL_ACCOUNTS)) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "You are not allowed to connect social accounts to this workspace"
+      });
+    }
+  }
+
+  private getSelectionKey(selectionId: string): string {
+    return `account-selection:${selectionId}`;
   }
 
   /**
-   * Parse and validate OAuth state parameter
+   * Turn a user-entered server ("mastodon.social", "https://bsky.social/") into an origin.
+   * Plain http is only accepted for local servers outside production, for testing.
+   *
+   * The server makes requests to this origin, so hosts that are or resolve to private,
+   * loopback or link-local addresses are refused to keep it from reaching internal services.
    */
-  protected parseState(state: string): {
-    workspaceId: string;
-    platform: SocialPlatform;
-    accountType: AccountType;
-    timestamp: number;
-    isValid: boolean;
-  } {
+  protected async normalizeServerUrl(input: string | undefined, label: string): Promise<string> {
+    const value = input?.trim();
+    if (!value) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `Enter the ${label} to connect to`
+      });
+    }
+
+    let url: URL;
     try {
-      const decoded = Buffer.from(state, 'base64url').toString();
-      const [workspaceId, platform, accountType, timestampStr, randomBytes] = decoded.split(':');
+      url = new URL(/^https?:\/\//i.test(value) ? value : `https://${value}`);
+    } catch {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `"${value}" is not a valid ${label}`
+      });
+    }
 
-      if (!workspaceId || !platform || !accountType || !timestampStr || !randomBytes) {
-        return { workspaceId: '', platform: this.platform, accountType: AccountType.PERSONAL, timestamp: 0, isValid: false };
-      }
+    const isLocal = url.hostname === 'localhost' || url.hostname === '127.0.0.1';
+    if (isLocal && env.NODE_ENV !== 'production') {
+      return url.origin;
+    }
 
-      const timestamp = parseInt(timestampStr, 10);
-      const now = Date.now();
-      const maxAge = 10 * 60 * 1000; // 10 minutes
+    if (url.protocol !== 'https:') {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `The ${label} must be reached over https`
+      });
+    }
+
+    await this.ensurePublicHost(url.hostname, label);
 
-      // Check if state is not too old and platform matches
-      const isValid = (now - timestamp) <= maxAge && platform === this.platform;
+    return url.origin;
+  }
 
-      return {
-        workspaceId,
-        platform: platform as SocialPlatform,
-        accountType: accountType as AccountType,
-        timestamp,
-        isValid
-      };
-    } catch (error) {
-      console.error("Failed to parse OAuth state:", error);
-      return { workspaceId: '', platform: this.platform, accountType: AccountType.PERSONAL, timestamp: 0, isValid: false };
+  /**
+   * Refuse single-label names and anything that resolves to a non-public address.
+   * The check happens before connecting, so it can't stop DNS rebinding; it does stop
+   * the direct cases like https://169.254.169.254 or https://internal-svc.
+   */
+  private async ensurePublicHost(hostname: string, label: string): Promise<void> {
+    const host = hostname.replace(/^\[|\]$/g, "");
+    const refuse = () => new TRPCError({
+      code: "BAD_REQUEST",
+      message: `The ${label} must be a public server`
+    });
+
+    if (isIP(host)) {
+      if (isPrivateAddress(host)) throw refuse();
+      return;
+    }
+
+    if (!host.includes(".") || host.endsWith(".local") || host.endsWith(".internal")) {
+      throw refuse();
+    }
+
+    let addresses: Array<{ address: string }>;
+    try {
+      addresses = await lookup(host, { all: true });
+    } catch {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `The ${label} "${host}" could not be found`
+      });
+    }
+
+    if (addresses.some(({ address }) => isPrivateAddress(address))) {
+      throw refuse();
+    }
+  }
+
+  /**
+   * Check the workspace owner's plan has room for another account.
+   * Reconnecting an account that's already stored doesn't count as a new one.
+   */
+  private async ensureAccountLimit(
+    workspaceId: string,
+    platform: SocialPlatform,
+    platformAccountId: string
+  ): Promise<void> {
+    const [workspace, existingAccount] = await Promise.all([
+      this.db.workspace.findUnique({
+        where: { id: workspaceId },
+        select: { ownerId: true },
+      }),
+      this.db.socialAccount.findUnique({
+        where: {
+          workspaceId_platform_platformAccountId: {
+            workspaceId,
+            platform,
+            platformAccountId,
+          },
+        },
+        select: { id: true },
+      }),
+    ]);
+
+    if (!workspace) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Workspace not found"
+      });
+    }
+    if (existingAccount) {
+      return;
+    }
+
+    // Social account limits belong to the workspace owner's plan
+    const subscriptionService = new SubscriptionService(this.db);
+    const usage = await subscriptionService.checkUsageLimit(workspace.ownerId, "socialAccounts");
+
+    if (!usage.allowed) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: `Social account limit reached (${usage.current}/${usage.limit}). Upgrade your subscription to connect more accounts.`
+      });
     }
   }
 
@@ -208,30 +603,49 @@ export abstract class SocialAuthProvider {
   protected handleOAuthError(error: any, context: string): never {
     console.error(`OAuth error in ${context}:`, error);
 
-    if (error.response?.status === 401) {
+    if (error instanceof TRPCError) {
+      throw error;
+    }
+
+    const status = error instanceof OAuthRequestError ? error.status : error.response?.status;
+
+    if (error instanceof OAuthRequestError && error.isGrantRejected()) {
+      throw new TRPCError({
+        code: "UNAUTHORIZED",
+        message: "The platform no longer accepts this account's authorization. Please reconnect the account.",
+        cause: error
+      });
+    }
+
+    if (status === 401) {
       throw new TRPCError({
         code: "UNAUTHORIZED",
-        message: "Authentication failed. Please try connecting your account again."
+        message: "Authentication failed. Please try connecting your account again.",
+        cause: error
       });
     }
 
-    if (error.response?.status === 403) {
+    if (status === 403) {
       throw new TRPCError({
         code: "FORBIDDEN",
-        message: "Insufficient permissions. Please grant the required permissions."
+        message: "Insufficient permissions. Please grant the required permissions.",
+        cause: error
       });
     }
 
-    if (error.response?.status === 429) {
+    if (status === 429) {
       throw new TRPCError({
         code: "TOO_MANY_REQUESTS",
-        message: "Rate limit exceeded. Please try again later."
+        message: "Rate limit exceeded. Please try again later.",
+        cause: error
       });
     }
 
     throw new TRPCError({
       code: "INTERNAL_SERVER_ERROR",
-      message: `Failed to ${context}. Please try again.`
+      message: `Failed to ${context}. Please try again.`,
+      cause: error
     });
   }
+
 }
\ No newline at end of file
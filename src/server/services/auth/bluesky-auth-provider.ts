@@ -0,0 +1,301 @@
+import { type PrismaClient } from "@prisma/client";
+import { type CredentialAuditContext } from "@/server/services/credential-audit";
+import { TRPCError } from "@trpc/server";
+import {
+  SocialAuthProvider,
+  OAuthRequestError,
+  SocialPlatform,
+  AccountType,
+  ConnectMethod,
+  type AuthUrl,
+  type OAuthTokens,
+  type PlatformAccount,
+  type AuthCallbackResult,
+  type CredentialConnectInput
+} from "./base-auth-provider";
+
+interface BlueskySession {
+  did: string;
+  handle: string;
+  email?: string;
+  accessJwt: string;
+  refreshJwt: string;
+  active?: boolean;
+  didDoc?: {
+    service?: Array<{
+      id: string;
+      type: string;
+      serviceEndpoint: string;
+    }>;
+  };
+}
+
+interface BlueskyProfile {
+  did: string;
+  handle: string;
+  displayName?: string;
+  avatar?: string;
+  followersCount?: number;
+  followsCount?: number;
+  postsCount?: number;
+}
+
+const DEFAULT_SERVICE = "https://bsky.social";
+
+/**
+ * Bluesky (AT Protocol) has no redirect flow for third parties yet: accounts connect with
+ * their handle and an app password, which creates a session of short-lived access and
+ * rotating refresh JWTs. The app password itself is never stored.
+ */
+export class BlueskyAuthProvider extends SocialAuthProvider {
+  readonly connectMethod = ConnectMethod.CREDENTIALS;
+
+  constructor(db: PrismaClient, auditContext: CredentialAuditContext = {}) {
+    super(db, SocialPlatform.BLUESKY, auditContext);
+  }
+
+  async initiateAuth(): Promise<AuthUrl> {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Bluesky accounts are connected with a handle and app password"
+    });
+  }
+
+  async handleCallback(): Promise<AuthCallbackResult> {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Bluesky accounts are connected with a handle and app password"
+    });
+  }
+
+  async connectWithCredentials(
+    workspaceId: string,
+    input: CredentialConnectInput
+  ): Promise<AuthCallbackResult> {
+    const serviceUrl = await this.normalizeServerUrl(input.service ?? DEFAULT_SERVICE, "Bluesky server");
+
+    let session: BlueskySession;
+    try {
+      session = await this.createSession(serviceUrl, input.identifier.trim().replace(/^@/, ''), input.password);
+    } catch (error) {
+      if (error instanceof OAuthRequestError && error.status === 401) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "Bluesky didn't accept that handle and app password",
+          cause: error
+        });
+      }
+      this.handleOAuthError(error, "Bluesky sign-in");
+    }
+
+    try {
+      // Accounts hosted elsewhere are served by their own PDS, not the server we signed in to
+      const pdsUrl = (await this.getPdsUrl(session)) ?? serviceUrl;
+      const tokens = this.toTokens(session);
+
+      const account = await this.getAccountInfo(tokens.accessToken, pdsUrl, session);
+
+      // Store credentials
+      await this.storeCredentials(workspaceId, account, tokens);
+
+      return { account, tokens };
+    } catch (error) {
+      this.handleOAuthError(error, "Bluesky connect");
+    }
+  }
+
+  async refreshToken(accountId: string): Promise<OAuthTokens> {
+    const credentials = await this.getStoredCredentials(accountId);
+    if (!credentials || !credentials.refreshToken) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "No refresh token available"
+      });
+    }
+
+    try {
+      const pdsUrl = await this.normalizeServerUrl(credentials.platformMetadata.pdsUrl as string | undefined, "Bluesky PDS");
+
+      const response = await fetch(`${pdsUrl}/xrpc/com.atproto.server.refreshSession`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${credentials.refreshToken}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw await OAuthRequestError.fromResponse(response, "Session refresh");
+      }
+
+      // The refresh JWT rotates; the old one stops working once used
+      const session: BlueskySession = await response.json();
+      const tokens = this.toTokens(session);
+
+      // Update stored credentials
+      await this.updateStoredCredentials(accountId, {
+        accessToken: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
+        expiresAt: tokens.expiresIn ? new Date(Date.now() + tokens.expiresIn * 1000) : undefined,
+      });
+
+      return tokens;
+    } catch (error) {
+      this.handleOAuthError(error, "Bluesky session refresh");
+    }
+  }
+
+  async revokeAccess(accountId: string): Promise<void> {
+    const credentials = await this.getStoredCredentials(accountId);
+    if (!credentials) {
+      return; // Already revoked or doesn't exist
+    }
+
+    try {
+      // Ending the session invalidates its refresh JWT; the app password stays with the user
+      if (credentials.refreshToken) {
+        const pdsUrl = await this.normalizeServerUrl(credentials.platformMetadata.pdsUrl as string | undefined, "Bluesky PDS");
+        const response = await fetch(`${pdsUrl}/xrpc/com.atproto.server.deleteSession`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${credentials.refreshToken}`,
+          },
+        });
+
+        if (!response.ok) {
+          console.warn(`Failed to end Bluesky session: ${response.statusText}`);
+        }
+      }
+
+      // Mark credentials as revoked in our system
+      await this.credentialService.revokeCredentials(accountId);
+    } catch (error) {
+      console.error("Error revoking Bluesky access:", error);
+      // Still mark as revoked in our system even if API call fails
+      await this.credentialService.revokeCredentials(accountId);
+    }
+  }
+
+  /**
+   * Sessions belong to the account's PDS, so its URL is required
+   */
+  async getAccountInfo(
+    accessToken: string,
+    pdsUrl?: string,
+    session?: Pick<BlueskySession, 'did' | 'handle' | 'email'>
+  ): Promise<PlatformAccount> {
+    if (!pdsUrl) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Bluesky account info needs the account's server"
+      });
+    }
+
+    try {
+      const actor = session?.did ?? (await this.getSessionInfo(pdsUrl, accessToken)).did;
+      const params = new URLSearchParams({ actor });
+
+      const response = await fetch(`${pdsUrl}/xrpc/app.bsky.actor.getProfile?${params.toString()}`, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw await OAuthRequestError.fromResponse(response, "Get profile");
+      }
+
+      const profile: BlueskyProfile = await response.json();
+
+      return {
+        id: profile.did,
+        name: profile.displayName || profile.handle,
+        username: `@${profile.handle}`,
+        email: session?.email,
+        profilePicture: profile.avatar,
+        accountType: AccountType.PERSONAL,
+        permissions: this.getRequiredScopes(),
+        metadata: {
+          platform: 'bluesky',
+          pdsUrl,
+          handle: profile.handle,
+          followersCount: profile.followersCount,
+          followsCount: profile.followsCount,
+          postsCount: profile.postsCount,
+        }
+      };
+    } catch (error) {
+      this.handleOAuthError(error, "get Bluesky account info");
+    }
+  }
+
+  validatePermissions(permissions: string[]): boolean {
+    const requiredScopes = this.getRequiredScopes();
+    return requiredScopes.every(scope => permissions.includes(scope));
+  }
+
+  getRequiredScopes(): string[] {
+    // App passwords aren't scoped; they can do everything except account management
+    return ['app-password'];
+  }
+
+  private async createSession(serviceUrl: string, identifier: string, password: string): Promise<BlueskySession> {
+    const response = await fetch(`${serviceUrl}/xrpc/com.atproto.server.createSession`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ identifier, password }),
+    });
+
+    if (!response.ok) {
+      throw await OAuthRequestError.fromResponse(response, "Create session");
+    }
+
+    return response.json();
+  }
+
+  private async getSessionInfo(pdsUrl: string, accessToken: string): Promise<Pick<BlueskySession, 'did' | 'handle'>> {
+    const response = await fetch(`${pdsUrl}/xrpc/com.atproto.server.getSession`, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+    });
+
+    if (!response.ok) {
+      throw await OAuthRequestError.fromResponse(response, "Get session");
+    }
+
+    return response.json();
+  }
+
+  /**
+   * The PDS comes from the account's DID document, which its owner controls, so it gets
+   * the same checks as a server the user typed in before anything is sent to it
+   */
+  private async getPdsUrl(session: BlueskySession): Promise<string | undefined> {
+    const endpoint = session.didDoc?.service?.find(service => service.id === '#atproto_pds')?.serviceEndpoint;
+    return endpoint ? this.normalizeServerUrl(endpoint, "Bluesky PDS") : undefined;
+  }
+
+  /**
+   * The access JWT's lifetime comes from its exp claim; Bluesky doesn't report it separately
+   */
+  private toTokens(session: BlueskySession): OAuthTokens {
+    let expiresIn: number | undefined;
+    try {
+      const payload = JSON.parse(Buffer.from(session.accessJwt.split('.')[1] ?? '', 'base64url').toString('utf8'));
+      if (typeof payload.exp === 'number') {
+        expiresIn = Math.max(0, payload.exp - Math.floor(Date.now() / 1000));
+      }
+    } catch {
+      // Not a readable JWT; refresh only when a request is rejected
+    }
+
+    return {
+      accessToken: session.accessJwt,
+      refreshToken: session.refreshJwt,
+      expiresIn,
+      scope: this.getRequiredScopes(),
+    };
+  }
+}
@@ -1,15 +1,17 @@
 import { type PrismaClient } from "@prisma/client";
+import { type CredentialAuditContext } from "@/server/services/credential-audit";
 import { TRPCError } from "@trpc/server";
 import {
   SocialAuthProvider,
+  OAuthRequestError,
   SocialPlatform,
   AccountType,
   type AuthUrl,
   type OAuthTokens,
   type PlatformAccount,
-  type AuthCallbackResult
+  type AuthCallbackResult,
+  type AccountCandidate
 } from "./base-auth-provider";
-import { OAuthStateManager } from "./oauth-state-manager";
 
 interface FacebookTokenResponse {
   access_token: string;
@@ -34,6 +36,21 @@ interface FacebookPage {
   access_token: string;
   category: string;
   tasks: string[];
+  picture?: {
+    data: {
+      url: string;
+    };
+  };
+  instagram_business_account?: InstagramBusinessAccount;
+}
+
+// An Instagram professional account linked to a Page; it publishes with the Page's token
+interface InstagramBusinessAccount {
+  id: string;
+  username: string;
+  name?: string;
+  profile_picture_url?: string;
+  followers_count?: number;
 }
 
 export class FacebookAuthProvider extends SocialAuthProvider {
@@ -42,8 +59,8 @@ export class FacebookAuthProvider extends SocialAuthProvider {
   private readonly apiVersion = "v19.0";
   private readonly baseUrl = "https://graph.facebook.com";
 
-  constructor(db: PrismaClient) {
-    super(db, SocialPlatform.FACEBOOK);
+  constructor(db: PrismaClient, auditContext: CredentialAuditContext = {}) {
+    super(db, SocialPlatform.FACEBOOK, auditContext);
 
     this.clientId = process.env.FACEBOOK_APP_ID!;
     this.clientSecret = process.env.FACEBOOK_APP_SECRET!;
@@ -55,10 +72,11 @@ export class FacebookAuthProvider extends SocialAuthProvider {
 
   async initiateAuth(
     workspaceId: string,
+    userId: string,
     accountType: AccountType,
     redirectUri: string
   ): Promise<AuthUrl> {
-    const state = OAuthStateManager.generateState(workspaceId, this.platform, accountType);
+    const state = await this.generateState(workspaceId, userId, accountType);
     const scopes = this.getRequiredScopes();
 
     const params = new URLSearchParams({
@@ -77,16 +95,11 @@ export class FacebookAuthProvider extends SocialAuthProvider {
   async handleCallback(
     code: string,
     state: string,
-    redirectUri: string
+    redirectUri: string,
+    userId: string
   ): Promise<AuthCallbackResult> {
-    // Validate state
-    const stateResult = OAuthStateManager.parseState(state);
-    if (!stateResult.isValid || !stateResult.data) {
-      throw new TRPCError({
-        code: "BAD_REQUEST",
-        message: "Invalid or expired OAuth state"
-      });
-    }
+    // Validate state; each state can only be used once
+    const stateData = await this.consumeState(state, userId);
 
     try {
       // Exchange code for access token
@@ -95,16 +108,33 @@ export class FacebookAuthProvider extends SocialAuthProvider {
       // Get account information
       const account = await this.getAccountInfo(tokens.accessToken);
 
-      // If requesting page access, get page tokens
-      if (stateResult.data.accountType === AccountType.PAGE) {
-        const pages = await this.getUserPages(tokens.accessToken);
-        // For now, we'll handle page selection in the UI
-        // Store the available pages in metadata
-        account.metadata.availablePages = pages;
+      // Pages are connected as their own accounts once the user picks them
+      if (stateData.accountType === AccountType.PAGE) {
+        // Page tokens fetched with a long-lived user token don't expire
+        const longLivedTokens = await this.exchangeForLongLivedToken(tokens.accessToken);
+        const pages = await this.getUserPages(longLivedTokens.accessToken);
+
+        if (pages.length === 0) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "No Facebook Pages found that you can manage"
+          });
+        }
+
+        // Instagram accounts linked to the pages are offered alongside them
+        const candidates = pages.flatMap(page => [
+          this.toPageCandidate(page, account.permissions),
+          ...(page.instagram_business_account
+            ? [this.toInstagramCandidate(page, page.instagram_business_account, account.permissions)]
+            : []),
+        ]);
+        const selection = await this.startAccountSelection(stateData, candidates);
+
+        return { account, tokens, selection };
       }
 
       // Store credentials
-      await this.storeCredentials(stateResult.data.workspaceId, account, tokens);
+      await this.storeCredentials(stateData.workspaceId, account, tokens);
 
       return { account, tokens };
     } catch (error) {
@@ -138,7 +168,7 @@ export class FacebookAuthProvider extends SocialAuthProvider {
       });
 
       if (!response.ok) {
-        throw new Error(`Token refresh failed: ${response.statusText}`);
+        throw await OAuthRequestError.fromResponse(response, "Token refresh");
       }
 
       const tokenData: FacebookTokenResponse = await response.json();
@@ -203,7 +233,7 @@ export class FacebookAuthProvider extends SocialAuthProvider {
       const response = await fetch(`${this.baseUrl}/${this.apiVersion}/me?${params.toString()}`);
 
       if (!response.ok) {
-        throw new Error(`Failed to get user info: ${response.statusText}`);
+        throw await OAuthRequestError.fromResponse(response, "Get user info");
       }
 
       const userInfo: FacebookUserInfo = await response.json();
@@ -239,7 +269,10 @@ export class FacebookAuthProvider extends SocialAuthProvider {
       'pages_read_engagement',
       'pages_manage_posts',
       'publish_to_groups',
-      'read_insights'
+      'read_insights',
+      'instagram_basic', // Linked Instagram accounts
+      'instagram_content_publish',
+      'instagram_manage_insights'
     ];
   }
 
@@ -260,7 +293,7 @@ export class FacebookAuthProvider extends SocialAuthProvider {
     });
 
     if (!response.ok) {
-      throw new Error(`Token exchange failed: ${response.statusText}`);
+      throw await OAuthRequestError.fromResponse(response, "Token exchange");
     }
 
     const tokenData: FacebookTokenResponse = await response.json();
@@ -271,6 +304,84 @@ export class FacebookAuthProvider extends SocialAuthProvider {
     };
   }
 
+  private async exchangeForLongLivedToken(accessToken: string): Promise<OAuthTokens> {
+    const params = new URLSearchParams({
+      grant_type: 'fb_exchange_token',
+      client_id: this.clientId,
+      client_secret: this.clientSecret,
+      fb_exchange_token: accessToken,
+    });
+
+    const response = await fetch(`${this.baseUrl}/oauth/access_token?${params.toString()}`);
+
+    if (!response.ok) {
+      throw await OAuthRequestError.fromResponse(response, "Long-lived token exchange");
+    }
+
+    const tokenData: FacebookTokenResponse = await response.json();
+
+    return {
+      accessToken: tokenData.access_token,
+      expiresIn: tokenData.expires_in,
+    };
+  }
+
+  /**
+   * A page publishes with its own page access token
+   */
+  private toPageCandidate(page: FacebookPage, permissions: string[]): AccountCandidate {
+    return {
+      account: {
+        id: page.id,
+        name: page.name,
+        profilePicture: page.picture?.data?.url,
+        accountType: AccountType.PAGE,
+        permissions,
+        metadata: {
+          platform: 'facebook',
+          apiVersion: this.apiVersion,
+          category: page.category,
+          tasks: page.tasks,
+        }
+      },
+      tokens: {
+        accessToken: page.access_token,
+      }
+    };
+  }
+
+  /**
+   * Instagram has no tokens of its own here; the Graph API accepts the linked Page's token
+   */
+  private toInstagramCandidate(
+    page: FacebookPage,
+    instagram: InstagramBusinessAccount,
+    permissions: string[]
+  ): AccountCandidate {
+    return {
+      account: {
+        id: instagram.id,
+        name: instagram.name || instagram.username,
+        username: `@${instagram.username}`,
+        profilePicture: instagram.profile_picture_url,
+        accountType: AccountType.BUSINESS,
+        permissions,
+        metadata: {
+          platform: 'instagram',
+          apiVersion: this.apiVersion,
+          pageId: page.id,
+          pageName: page.name,
+          username: instagram.username,
+          followersCount: instagram.followers_count,
+        }
+      },
+      tokens: {
+        accessToken: page.access_token,
+      },
+      platform: SocialPlatform.INSTAGRAM,
+    };
+  }
+
   private async getUserPermissions(accessToken: string): Promise<string[]> {
     try {
       const params = new URLSearchParams({
@@ -297,7 +408,7 @@ export class FacebookAuthProvider extends SocialAuthProvider {
   private async getUserPages(accessToken: string): Promise<FacebookPage[]> {
     try {
       const params = new URLSearchParams({
-        fields: 'id,name,access_token,category,tasks',
+        fields: 'id,name,access_token,category,tasks,picture,instagram_business_account{id,username,name,profile_picture_url,followers_count}',
         access_token: accessToken,
       });
 
@@ -0,0 +1,122 @@
+import { type PrismaClient } from "@prisma/client";
+import { type CredentialAuditContext } from "@/server/services/credential-audit";
+import { TRPCError } from "@trpc/server";
+import {
+  SocialAuthProvider,
+  OAuthRequestError,
+  SocialPlatform,
+  AccountType,
+  type AuthUrl,
+  type OAuthTokens,
+  type PlatformAccount,
+  type AuthCallbackResult
+} from "./base-auth-provider";
+
+interface InstagramUserInfo {
+  id: string;
+  username: string;
+  name?: string;
+  profile_picture_url?: string;
+  followers_count?: number;
+  media_count?: number;
+}
+
+/**
+ * Instagram Business accounts are found while connecting Facebook Pages (see
+ * FacebookAuthProvider) and publish with their Page's token through the Graph API.
+ * This provider only looks after accounts once they're stored.
+ */
+export class InstagramAuthProvider extends SocialAuthProvider {
+  private readonly apiVersion = "v19.0";
+  private readonly baseUrl = "https://graph.facebook.com";
+
+  constructor(db: PrismaClient, auditContext: CredentialAuditContext = {}) {
+    super(db, SocialPlatform.INSTAGRAM, auditContext);
+  }
+
+  async initiateAuth(): Promise<AuthUrl> {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Instagram Business accounts are connected through their Facebook Page"
+    });
+  }
+
+  async handleCallback(): Promise<AuthCallbackResult> {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Instagram Business accounts are connected through their Facebook Page"
+    });
+  }
+
+  async refreshToken(accountId: string): Promise<OAuthTokens> {
+    // Page tokens from a long-lived user token don't expire; reconnect the Page if one stops working
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: `No refresh token available for Instagram account ${accountId}`
+    });
+  }
+
+  async revokeAccess(accountId: string): Promise<void> {
+    // The token belongs to the Facebook Page, which may still be connected, so it stays valid on Facebook
+    await this.credentialService.revokeCredentials(accountId);
+  }
+
+  /**
+   * A Page token can see several Instagram accounts, so the account id is required
+   */
+  async getAccountInfo(accessToken: string, instagramAccountId?: string): Promise<PlatformAccount> {
+    if (!instagramAccountId) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Instagram account info needs the Instagram account id"
+      });
+    }
+
+    try {
+      const params = new URLSearchParams({
+        fields: 'id,username,name,profile_picture_url,followers_count,media_count',
+        access_token: accessToken,
+      });
+
+      const response = await fetch(`${this.baseUrl}/${this.apiVersion}/${instagramAccountId}?${params.toString()}`);
+
+      if (!response.ok) {
+        throw await OAuthRequestError.fromResponse(response, "Get Instagram account");
+      }
+
+      const userInfo: InstagramUserInfo = await response.json();
+
+      return {
+        id: userInfo.id,
+        name: userInfo.name || userInfo.username,
+        username: `@${userInfo.username}`,
+        profilePicture: userInfo.profile_picture_url,
+        accountType: AccountType.BUSINESS,
+        permissions: this.getRequiredScopes(),
+        metadata: {
+          platform: 'instagram',
+          apiVersion: this.apiVersion,
+          username: userInfo.username,
+          followersCount: userInfo.followers_count,
+          mediaCount: userInfo.media_count,
+        }
+      };
+    } catch (error) {
+      this.handleOAuthError(error, "get Instagram account info");
+    }
+  }
+
+  validatePermissions(permissions: string[]): boolean {
+    const requiredScopes = this.getRequiredScopes();
+    return requiredScopes.every(scope => permissions.includes(scope));
+  }
+
+  getRequiredScopes(): string[] {
+    // Granted on the Facebook login
+    return [
+      'instagram_basic',
+      'instagram_content_publish',
+      'instagram_manage_insights'
+    ];
+  }
+}
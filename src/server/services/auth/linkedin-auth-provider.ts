@@ -1,15 +1,17 @@
 import { type PrismaClient } from "@prisma/client";
+import { type CredentialAuditContext } from "@/server/services/credential-audit";
 import { TRPCError } from "@trpc/server";
 import {
   SocialAuthProvider,
+  OAuthRequestError,
   SocialPlatform,
   AccountType,
   type AuthUrl,
   type OAuthTokens,
   type PlatformAccount,
-  type AuthCallbackResult
+  type AuthCallbackResult,
+  type AccountCandidate
 } from "./base-auth-provider";
-import { OAuthStateManager } from "./oauth-state-manager";
 
 interface LinkedInTokenResponse {
   access_token: string;
@@ -43,14 +45,27 @@ interface LinkedInOrganization {
   organizationType: string;
 }
 
+// One entry of the organizationAcls response, with the organization~ projection requested
+interface LinkedInOrganizationAcl {
+  organization: string; // URN, e.g. urn:li:organization:123
+  'organization~'?: {
+    id: number;
+    localizedName: string;
+    vanityName?: string;
+    logoV2?: {
+      original?: string;
+    };
+  };
+}
+
 export class LinkedInAuthProvider extends SocialAuthProvider {
   private readonly clientId: string;
   private readonly clientSecret: string;
   private readonly apiVersion = "v2";
   private readonly baseUrl = "https://api.linkedin.com";
 
-  constructor(db: PrismaClient) {
-    super(db, SocialPlatform.LINKEDIN);
+  constructor(db: PrismaClient, auditContext: CredentialAuditContext = {}) {
+    super(db, SocialPlatform.LINKEDIN, auditContext);
 
     this.clientId = process.env.LINKEDIN_CLIENT_ID!;
     this.clientSecret = process.env.LINKEDIN_CLIENT_SECRET!;
@@ -62,10 +77,11 @@ export class LinkedInAuthProvider extends SocialAuthProvider {
 
   async initiateAuth(
     workspaceId: string,
+    userId: string,
     accountType: AccountType,
     redirectUri: string
   ): Promise<AuthUrl> {
-    const state = OAuthStateManager.generateState(workspaceId, this.platform, accountType);
+    const state = await this.generateState(workspaceId, userId, accountType);
     const scopes = this.getRequiredScopes();
 
     const params = new URLSearchParams({
@@ -84,16 +100,11 @@ export class LinkedInAuthProvider extends SocialAuthProvider {
   async handleCallback(
     code: string,
     state: string,
-    redirectUri: string
+    redirectUri: string,
+    userId: string
   ): Promise<AuthCallbackResult> {
-    // Validate state
-    const stateResult = OAuthStateManager.parseState(state);
-    if (!stateResult.isValid || !stateResult.data) {
-      throw new TRPCError({
-        code: "BAD_REQUEST",
-        message: "Invalid or expired OAuth state"
-      });
-    }
+    // Validate state; each state can only be used once
+    const stateData = await this.consumeState(state, userId);
 
     try {
       // Exchange code for access token
@@ -102,14 +113,25 @@ export class LinkedInAuthProvider extends SocialAuthProvider {
       // Get account information
       const account = await this.getAccountInfo(tokens.accessToken);
 
-      // If requesting organization access, get organizations
-      if (stateResult.data.accountType === AccountType.BUSINESS) {
+      // Organizations are connected as their own accounts once the user picks them
+      if (stateData.accountType === AccountType.BUSINESS) {
         const organizations = await this.getUserOrganizations(tokens.accessToken);
-        account.metadata.availableOrganizations = organizations;
+
+        if (organizations.length === 0) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "No LinkedIn organizations found that you administer"
+          });
+        }
+
+        const candidates = organizations.map(organization => this.toOrganizationCandidate(organization, tokens));
+        const selection = await this.startAccountSelection(stateData, candidates);
+
+        return { account, tokens, selection };
       }
 
       // Store credentials
-      await this.storeCredentials(stateResult.data.workspaceId, account, tokens);
+      await this.storeCredentials(stateData.workspaceId, account, tokens);
 
       return { account, tokens };
     } catch (error) {
@@ -143,7 +165,7 @@ export class LinkedInAuthProvider extends SocialAuthProvider {
       });
 
       if (!response.ok) {
-        throw new Error(`Token refresh failed: ${response.statusText}`);
+        throw await OAuthRequestError.fromResponse(response, "Token refresh");
       }
 
       const tokenData: LinkedInTokenResponse = await response.json();
@@ -213,7 +235,7 @@ export class LinkedInAuthProvider extends SocialAuthProvider {
       });
 
       if (!response.ok) {
-        throw new Error(`Failed to get user info: ${response.statusText}`);
+        throw await OAuthRequestError.fromResponse(response, "Get user info");
       }
 
       const userInfo: LinkedInUserInfo = await response.json();
@@ -273,8 +295,7 @@ export class LinkedInAuthProvider extends SocialAuthProvider {
     });
 
     if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Token exchange failed: ${response.statusText} - ${errorText}`);
+      throw await OAuthRequestError.fromResponse(response, "Token exchange");
     }
 
     const tokenData: LinkedInTokenResponse = await response.json();
@@ -287,10 +308,32 @@ export class LinkedInAuthProvider extends SocialAuthProvider {
     };
   }
 
+  /**
+   * LinkedIn has no organization-scoped tokens; an administrator's token posts as the organization
+   */
+  private toOrganizationCandidate(organization: LinkedInOrganization, tokens: OAuthTokens): AccountCandidate {
+    return {
+      account: {
+        id: organization.id,
+        name: organization.name,
+        username: organization.vanityName,
+        profilePicture: organization.logoV2?.original,
+        accountType: AccountType.BUSINESS,
+        permissions: tokens.scope ?? this.getRequiredScopes(),
+        metadata: {
+          platform: 'linkedin',
+          organizationType: organization.organizationType,
+          apiVersion: this.apiVersion,
+        }
+      },
+      tokens
+    };
+  }
+
   private async getUserOrganizations(accessToken: string): Promise<LinkedInOrganization[]> {
     try {
       // Get organizations the user can manage
-      const response = await fetch(`${this.baseUrl}/${this.apiVersion}/organizationAcls?q=roleAssignee&role=ADMINISTRATOR&projection=(elements*(organization~(id,name,vanityName,logoV2)))`, {
+      const response = await fetch(`${this.baseUrl}/${this.apiVersion}/organizationAcls?q=roleAssignee&role=ADMINISTRATOR&projection=(elements*(organization~(id,localizedName,vanityName,logoV2)))`, {
         headers: {
           'Authorization': `Bearer ${accessToken}`,
         },
@@ -301,15 +344,23 @@ export class LinkedInAuthProvider extends SocialAuthProvider {
         return [];
       }
 
-      const data = await response.json();
+      const data: { elements?: LinkedInOrganizationAcl[] } = await response.json();
 
-      return data.elements?.map((element: any) => ({
-        id: element.organization?.id,
-        name: element.organization?.name,
-        vanityName: element.organization?.vanityName,
-        logoV2: element.organization?.logoV2,
-        organizationType: 'company',
-      })) || [];
+      // "organization" is the URN; the projected fields are under "organization~"
+      return (data.elements ?? []).flatMap((element) => {
+        const organization = element['organization~'];
+        if (!organization?.id) {
+          return [];
+        }
+
+        return [{
+          id: String(organization.id),
+          name: organization.localizedName,
+          vanityName: organization.vanityName,
+          logoV2: organization.logoV2,
+          organizationType: 'company',
+        }];
+      });
     } catch (error) {
       console.error("Error getting LinkedIn organizations:", error);
       return [];
@@ -0,0 +1,363 @@
+import { type MastodonApp, type PrismaClient } from "@prisma/client";
+import { type CredentialAuditContext } from "@/server/services/credential-audit";
+import { TRPCError } from "@trpc/server";
+import { decrypt, encrypt, loadKeyring } from "@/lib/encryption";
+import {
+  SocialAuthProvider,
+  OAuthRequestError,
+  SocialPlatform,
+  AccountType,
+  type AuthUrl,
+  type OAuthTokens,
+  type PlatformAccount,
+  type AuthCallbackResult,
+  type InitiateAuthOptions
+} from "./base-auth-provider";
+
+interface MastodonAppResponse {
+  id: string;
+  name: string;
+  client_id: string;
+  client_secret: string;
+}
+
+interface MastodonTokenResponse {
+  access_token: string;
+  token_type: string;
+  scope: string;
+  created_at: number;
+}
+
+interface MastodonAccount {
+  id: string;
+  username: string;
+  acct: string;
+  display_name: string;
+  url: string;
+  avatar?: string;
+  bot?: boolean;
+  followers_count?: number;
+  following_count?: number;
+  statuses_count?: number;
+}
+
+// The instance a flow was started against, kept until its callback
+interface MastodonFlowData {
+  instanceUrl: string;
+}
+
+const CLIENT_NAME = "GistReach";
+
+/**
+ * Mastodon is federated: every instance is its own OAuth server. An app is registered on
+ * an instance the first time someone connects from it, and its client credentials are
+ * kept per instance for everyone after.
+ */
+export class MastodonAuthProvider extends SocialAuthProvider {
+  constructor(db: PrismaClient, auditContext: CredentialAuditContext = {}) {
+    super(db, SocialPlatform.MASTODON, auditContext);
+  }
+
+  async initiateAuth(
+    workspaceId: string,
+    userId: string,
+    accountType: AccountType,
+    redirectUri: string,
+    options: InitiateAuthOptions = {}
+  ): Promise<AuthUrl> {
+    const instanceUrl = await this.normalizeServerUrl(options.instance, "Mastodon instance");
+    const app = await this.getOrRegisterApp(instanceUrl, redirectUri);
+
+    const state = await this.generateState(workspaceId, userId, accountType);
+
+    // Remember which instance the callback belongs to
+    await this.sessionStore.set(`mastodon:${state}`, { instanceUrl } satisfies MastodonFlowData);
+
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: app.clientId,
+      redirect_uri: redirectUri,
+      scope: this.getRequiredScopes().join(' '),
+      state,
+    });
+
+    const url = `${instanceUrl}/oauth/authorize?${params.toString()}`;
+
+    return { url, state };
+  }
+
+  async handleCallback(
+    code: string,
+    state: string,
+    redirectUri: string,
+    userId: string
+  ): Promise<AuthCallbackResult> {
+    // Validate state; each state can only be used once
+    const stateData = await this.consumeState(state, userId);
+
+    const flowData = await this.sessionStore.get<MastodonFlowData>(`mastodon:${state}`);
+    if (!flowData?.instanceUrl) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Mastodon instance for this sign-in not found"
+      });
+    }
+
+    try {
+      const app = await this.getApp(flowData.instanceUrl, redirectUri);
+
+      // Exchange code for access token
+      const tokens = await this.exchangeCodeForTokens(app, code, redirectUri);
+
+      // Get account information
+      const account = await this.getAccountInfo(tokens.accessToken, flowData.instanceUrl);
+
+      // Store credentials, remembering which app issued the token so it can be revoked
+      await this.storeCredentials(
+        stateData.workspaceId,
+        { ...account, metadata: { ...account.metadata, clientId: app.clientId } },
+        tokens
+      );
+
+      return { account, tokens };
+    } catch (error) {
+      this.handleOAuthError(error, "Mastodon OAuth callback");
+    }
+  }
+
+  async refreshToken(accountId: string): Promise<OAuthTokens> {
+    // Mastodon access tokens don't expire, so there is never a refresh token to use
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: `No refresh token available for Mastodon account ${accountId}`
+    });
+  }
+
+  async revokeAccess(accountId: string): Promise<void> {
+    const credentials = await this.getStoredCredentials(accountId);
+    if (!credentials) {
+      return; // Already revoked or doesn't exist
+    }
+
+    try {
+      const instanceUrl = credentials.platformMetadata.instanceUrl as string;
+      const app = await this.getIssuingApp(instanceUrl, credentials.platformMetadata.clientId as string | undefined);
+
+      const params = new URLSearchParams({
+        client_id: app.clientId,
+        client_secret: await this.decryptClientSecret(app),
+        token: credentials.accessToken,
+      });
+
+      const response = await fetch(`${instanceUrl}/oauth/revoke`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: params.toString(),
+      });
+
+      if (!response.ok) {
+        console.warn(`Failed to revoke Mastodon token: ${response.statusText}`);
+      }
+
+      // Mark credentials as revoked in our system
+      await this.credentialService.revokeCredentials(accountId);
+    } catch (error) {
+      console.error("Error revoking Mastodon access:", error);
+      // Still mark as revoked in our system even if API call fails
+      await this.credentialService.revokeCredentials(accountId);
+    }
+  }
+
+  /**
+   * Tokens only work on the instance that issued them, so the instance is required
+   */
+  async getAccountInfo(accessToken: string, instanceUrl?: string): Promise<PlatformAccount> {
+    if (!instanceUrl) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Mastodon account info needs the account's instance"
+      });
+    }
+
+    try {
+      const response = await fetch(`${instanceUrl}/api/v1/accounts/verify_credentials`, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw await OAuthRequestError.fromResponse(response, "Get user info");
+      }
+
+      const userInfo: MastodonAccount = await response.json();
+      const domain = new URL(instanceUrl).host;
+
+      return {
+        // Account ids are only unique within an instance
+        id: `${userInfo.id}@${domain}`,
+        name: userInfo.display_name || userInfo.username,
+        username: `@${userInfo.username}@${domain}`,
+        profilePicture: userInfo.avatar,
+        accountType: AccountType.PERSONAL,
+        permissions: this.getRequiredScopes(),
+        metadata: {
+          platform: 'mastodon',
+          instanceUrl,
+          accountId: userInfo.id,
+          profileUrl: userInfo.url,
+          bot: userInfo.bot,
+          followersCount: userInfo.followers_count,
+          followingCount: userInfo.following_count,
+          statusesCount: userInfo.statuses_count,
+        }
+      };
+    } catch (error) {
+      this.handleOAuthError(error, "get Mastodon account info");
+    }
+  }
+
+  validatePermissions(permissions: string[]): boolean {
+    const requiredScopes = this.getRequiredScopes();
+    return requiredScopes.every(scope => permissions.includes(scope));
+  }
+
+  getRequiredScopes(): string[] {
+    return [
+      'read:accounts',
+      'read:statuses', // Post metrics
+      'write:statuses',
+      'write:media'
+    ];
+  }
+
+  private async getApp(instanceUrl: string, redirectUri: string): Promise<MastodonApp> {
+    const app = await this.db.mastodonApp.findUnique({
+      where: { instanceUrl_redirectUri: { instanceUrl, redirectUri } }
+    });
+    if (!app) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: `No app registered on ${instanceUrl} for ${redirectUri}`
+      });
+    }
+    return app;
+  }
+
+  /**
+   * The app whose client issued an account's token. Accounts connected before the
+   * client id was stored fall back to the instance's most recently registered app.
+   */
+  private async getIssuingApp(instanceUrl: string, clientId?: string): Promise<MastodonApp> {
+    const app = await this.db.mastodonApp.findFirst({
+      where: clientId ? { instanceUrl, clientId } : { instanceUrl },
+      orderBy: { updatedAt: "desc" }
+    });
+    if (!app) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: `No app registered on ${instanceUrl}`
+      });
+    }
+    return app;
+  }
+
+  /**
+   * Reuse the app registered for this instance and redirect URI, registering one on
+   * first use or when our scopes changed since it was registered
+   */
+  private async getOrRegisterApp(instanceUrl: string, redirectUri: string): Promise<MastodonApp> {
+    const scopes = this.getRequiredScopes().join(' ');
+    const where = { instanceUrl_redirectUri: { instanceUrl, redirectUri } };
+    const existing = await this.db.mastodonApp.findUnique({ where });
+
+    if (existing && existing.scopes === scopes) {
+      return existing;
+    }
+
+    const registered = await this.registerApp(instanceUrl, redirectUri, scopes);
+    await loadKeyring();
+
+    const data = {
+      clientId: registered.client_id,
+      encryptedClientSecret: encrypt(registered.client_secret),
+      scopes,
+    };
+
+    if (existing) {
+      return this.db.mastodonApp.update({ where: { id: existing.id }, data });
+    }
+
+    try {
+      return await this.db.mastodonApp.create({ data: { instanceUrl, redirectUri, ...data } });
+    } catch (error) {
+      // Someone else registered the same app at the same time; use theirs
+      const winner = await this.db.mastodonApp.findUnique({ where });
+      if (winner) {
+        return winner;
+      }
+      throw error;
+    }
+  }
+
+  private async registerApp(instanceUrl: string, redirectUri: string, scopes: string): Promise<MastodonAppResponse> {
+    try {
+      const response = await fetch(`${instanceUrl}/api/v1/apps`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          client_name: CLIENT_NAME,
+          redirect_uris: redirectUri,
+          scopes,
+        }),
+      });
+
+      if (!response.ok) {
+        throw await OAuthRequestError.fromResponse(response, "App registration");
+      }
+
+      return await response.json();
+    } catch (error) {
+      this.handleOAuthError(error, `register with Mastodon instance ${instanceUrl}`);
+    }
+  }
+
+  private async decryptClientSecret(app: MastodonApp): Promise<string> {
+    await loadKeyring();
+    return decrypt(app.encryptedClientSecret);
+  }
+
+  private async exchangeCodeForTokens(app: MastodonApp, code: string, redirectUri: string): Promise<OAuthTokens> {
+    const params = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      client_id: app.clientId,
+      client_secret: await this.decryptClientSecret(app),
+      redirect_uri: redirectUri,
+      scope: app.scopes,
+    });
+
+    const response = await fetch(`${app.instanceUrl}/oauth/token`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: params.toString(),
+    });
+
+    if (!response.ok) {
+      throw await OAuthRequestError.fromResponse(response, "Token exchange");
+    }
+
+    const tokenData: MastodonTokenResponse = await response.json();
+
+    return {
+      accessToken: tokenData.access_token,
+      scope: tokenData.scope.split(' '),
+    };
+  }
+}
@@ -0,0 +1,162 @@
+import { type PrismaClient, type Prisma } from "@prisma/client";
+import { env } from "@/env";
+
+const DEFAULT_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+/**
+ * Short-lived data that has to survive between starting an OAuth flow and its callback
+ * (PKCE verifiers, state nonces). Entries are one-time use: get removes them.
+ */
+export interface OAuthSessionStore {
+  set(key: string, data: unknown, ttlMs?: number): Promise<void>;
+  get<T = any>(key: string): Promise<T | null>;
+  has(key: string): Promise<boolean>;
+}
+
+/**
+ * In-memory store for temporary OAuth data.
+ * Only works when the callback reaches the same process that started the flow, so it suits
+ * development and single-instance deployments.
+ */
+export class MemoryOAuthSessionStore implements OAuthSessionStore {
+  private static store = new Map<string, { data: any; expiresAt: number }>();
+  private static readonly CLEANUP_INTERVAL = 5 * 60 * 1000; // 5 minutes
+  private static cleanupTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Store temporary OAuth session data
+   */
+  async set(key: string, data: unknown, ttlMs: number = DEFAULT_TTL_MS): Promise<void> {
+    const expiresAt = Date.now() + ttlMs;
+    MemoryOAuthSessionStore.store.set(key, { data, expiresAt });
+
+    // Start cleanup timer if not already running
+    if (!MemoryOAuthSessionStore.cleanupTimer) {
+      MemoryOAuthSessionStore.startCleanup();
+    }
+  }
+
+  /**
+   * Retrieve and remove temporary OAuth session data
+   */
+  async get<T = any>(key: string): Promise<T | null> {
+    const entry = MemoryOAuthSessionStore.store.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    // Remove on retrieval (one-time use), expired or not
+    MemoryOAuthSessionStore.store.delete(key);
+
+    if (Date.now() > entry.expiresAt) {
+      return null;
+    }
+
+    return entry.data as T;
+  }
+
+  /**
+   * Check if a key exists and is not expired
+   */
+  async has(key: string): Promise<boolean> {
+    const entry = MemoryOAuthSessionStore.store.get(key);
+    if (!entry) {
+      return false;
+    }
+
+    if (Date.now() > entry.expiresAt) {
+      MemoryOAuthSessionStore.store.delete(key);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Clear expired entries
+   */
+  private static cleanup(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.store.entries()) {
+      if (now > entry.expiresAt) {
+        this.store.delete(key);
+      }
+    }
+
+    // Stop cleanup timer if store is empty
+    if (this.store.size === 0 && this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+  }
+
+  /**
+   * Start periodic cleanup of expired entries
+   */
+  private static startCleanup(): void {
+    this.cleanupTimer = setInterval(() => {
+      this.cleanup();
+    }, this.CLEANUP_INTERVAL);
+    // Don't keep scripts and workers alive just to clean up
+    this.cleanupTimer.unref();
+  }
+}
+
+/**
+ * OAuth session data in the database, shared by every instance and kept across deploys
+ */
+export class PrismaOAuthSessionStore implements OAuthSessionStore {
+  constructor(private db: PrismaClient) { }
+
+  async set(key: string, data: unknown, ttlMs: number = DEFAULT_TTL_MS): Promise<void> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + ttlMs);
+    const value = data as Prisma.InputJsonValue;
+
+    await this.db.oAuthSession.upsert({
+      where: { key },
+      create: { key, data: value, expiresAt },
+      update: { data: value, expiresAt },
+    });
+
+    // Flows that were never completed leave rows behind; sweep them as new ones arrive
+    await this.db.oAuthSession.deleteMany({
+      where: { expiresAt: { lt: now } },
+    });
+  }
+
+  /**
+   * Delete and return in one statement, so two callbacks racing for the same entry
+   * can't both get it
+   */
+  async get<T = any>(key: string): Promise<T | null> {
+    const rows = await this.db.$queryRaw<Array<{ data: T; expiresAt: Date }>>`
+      DELETE FROM "OAuthSession"
+      WHERE "key" = ${key}
+      RETURNING "data", "expiresAt"
+    `;
+
+    const row = rows[0];
+    if (!row || row.expiresAt <= new Date()) {
+      return null;
+    }
+
+    return row.data;
+  }
+
+  async has(key: string): Promise<boolean> {
+    const count = await this.db.oAuthSession.count({
+      where: { key, expiresAt: { gt: new Date() } },
+    });
+    return count > 0;
+  }
+}
+
+/**
+ * Build the store selected by OAUTH_SESSION_STORE
+ */
+export function createOAuthSessionStore(db: PrismaClient): OAuthSessionStore {
+  return env.OAUTH_SESSION_STORE === "memory"
+    ? new MemoryOAuthSessionStore()
+    : new PrismaOAuthSessionStore(db);
+}
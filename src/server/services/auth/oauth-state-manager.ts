@@ -1,64 +1,77 @@
 import crypto from "crypto";
-import { SocialPlatform, AccountType } from "./base-auth-provider";
+import { env } from "@/env";
+import { type SocialPlatform, type AccountType } from "./base-auth-provider";
+import { type OAuthSessionStore } from "./oauth-session-store";
 
 export interface OAuthState {
   workspaceId: string;
+  userId: string; // Who started the flow; only they can complete it
   platform: SocialPlatform;
   accountType: AccountType;
   timestamp: number;
   nonce: string;
 }
 
+export interface OAuthStateResult {
+  data: OAuthState | null;
+  isValid: boolean;
+  error?: string;
+}
+
+/**
+ * The one place OAuth state is created and checked.
+ * State is the JSON payload and its HMAC, both base64url encoded and joined by a dot. Its nonce is
+ * recorded when issued and consumed by the callback, so a replayed callback is rejected.
+ */
 export class OAuthStateManager {
   private static readonly STATE_EXPIRY_MS = 10 * 60 * 1000; // 10 minutes
 
   /**
-   * Generate a secure OAuth state parameter
+   * Generate a signed OAuth state parameter and remember its nonce
    */
-  static generateState(
+  static async generateState(
+    store: OAuthSessionStore,
     workspaceId: string,
+    userId: string,
     platform: SocialPlatform,
     accountType: AccountType
-  ): string {
-    const timestamp = Date.now();
-    const nonce = crypto.randomBytes(16).toString('hex');
-
+  ): Promise<string> {
     const stateData: OAuthState = {
       workspaceId,
+      userId,
       platform,
       accountType,
-      timestamp,
-      nonce
+      timestamp: Date.now(),
+      nonce: crypto.randomBytes(16).toString('hex')
     };
 
-    // Encrypt the state data
-    const stateJson = JSON.stringify(stateData);
-    const cipher = crypto.createCipher('aes-256-cbc', this.getStateSecret());
-    let encrypted = cipher.update(stateJson, 'utf8', 'hex');
-    encrypted += cipher.final('hex');
+    const payload = Buffer.from(JSON.stringify(stateData), 'utf8').toString('base64url');
 
-    return Buffer.from(encrypted, 'hex').toString('base64url');
+    await store.set(this.getNonceKey(stateData.nonce), { platform }, this.STATE_EXPIRY_MS);
+
+    return `${payload}.${this.sign(payload)}`;
   }
 
   /**
-   * Parse and validate OAuth state parameter
+   * Verify the state's signature and expiry without consuming it
    */
-  static parseState(state: string): {
-    data: OAuthState | null;
-    isValid: boolean;
-    error?: string;
-  } {
+  static parseState(state: string): OAuthStateResult {
     try {
-      // Decrypt the state data
-      const encrypted = Buffer.from(state, 'base64url').toString('hex');
-      const decipher = crypto.createDecipher('aes-256-cbc', this.getStateSecret());
-      let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-      decrypted += decipher.final('utf8');
+      const [payload, signature] = state.split('.');
+      if (!payload || !signature) {
+        return { data: null, isValid: false, error: "Invalid state format" };
+      }
+
+      const expected = Buffer.from(this.sign(payload), 'utf8');
+      const actual = Buffer.from(signature, 'utf8');
+      if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+        return { data: null, isValid: false, error: "Invalid state signature" };
+      }
 
-      const stateData: OAuthState = JSON.parse(decrypted);
+      const stateData: OAuthState = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
 
       // Validate required fields
-      if (!stateData.workspaceId || !stateData.platform || !stateData.accountType || !stateData.timestamp || !stateData.nonce) {
+      if (!stateData.workspaceId || !stateData.userId || !stateData.platform || !stateData.accountType || !stateData.timestamp || !stateData.nonce) {
         return {
           data: null,
           isValid: false,
@@ -90,6 +103,37 @@ export class OAuthStateManager {
     }
   }
 
+  /**
+   * Verify the state for a callback on the given platform by the user who started the flow,
+   * and use up its nonce. A second callback with the same state is rejected.
+   */
+  static async consumeState(
+    store: OAuthSessionStore,
+    state: string,
+    platform: SocialPlatform,
+    userId: string
+  ): Promise<OAuthStateResult> {
+    const result = this.parseState(state);
+    if (!result.isValid || !result.data) {
+      return result;
+    }
+
+    if (result.data.platform !== platform) {
+      return { data: null, isValid: false, error: "State was issued for a different platform" };
+    }
+
+    // Left unconsumed so the user who started the flow can still finish it
+    if (result.data.userId !== userId) {
+      return { data: null, isValid: false, error: "State was issued to a different user" };
+    }
+
+    if (!await store.get(this.getNonceKey(result.data.nonce))) {
+      return { data: null, isValid: false, error: "State has already been used" };
+    }
+
+    return result;
+  }
+
   /**
    * Generate a secure random string for PKCE code verifier
    */
@@ -129,102 +173,22 @@ export class OAuthStateManager {
     );
   }
 
+  private static getNonceKey(nonce: string): string {
+    return `oauth-state:${nonce}`;
+  }
+
+  private static sign(payload: string): string {
+    return crypto.createHmac('sha256', this.getStateSecret()).update(payload).digest('base64url');
+  }
+
   /**
-   * Get the secret used for state encryption
+   * Get the secret used to sign state
    */
   private static getStateSecret(): string {
-    // In production, this should come from environment variables
-    const secret = process.env.OAUTH_STATE_SECRET || process.env.AUTH_SECRET;
+    const secret = env.OAUTH_STATE_SECRET ?? env.AUTH_SECRET;
     if (!secret) {
       throw new Error("OAuth state secret not configured");
     }
     return secret;
   }
 }
-
-/**
- * In-memory store for temporary OAuth data (PKCE verifiers, etc.)
- * In production, this should be replaced with Redis or similar
- */
-export class OAuthSessionStore {
-  private static store = new Map<string, { data: any; expiresAt: number }>();
-  private static readonly CLEANUP_INTERVAL = 5 * 60 * 1000; // 5 minutes
-  private static cleanupTimer: NodeJS.Timeout | null = null;
-
-  /**
-   * Store temporary OAuth session data
-   */
-  static set(key: string, data: any, ttlMs: number = 10 * 60 * 1000): void {
-    const expiresAt = Date.now() + ttlMs;
-    this.store.set(key, { data, expiresAt });
-
-    // Start cleanup timer if not already running
-    if (!this.cleanupTimer) {
-      this.startCleanup();
-    }
-  }
-
-  /**
-   * Retrieve and remove temporary OAuth session data
-   */
-  static get(key: string): any | null {
-    const entry = this.store.get(key);
-    if (!entry) {
-      return null;
-    }
-
-    // Check if expired
-    if (Date.now() > entry.expiresAt) {
-      this.store.delete(key);
-      return null;
-    }
-
-    // Remove after retrieval (one-time use)
-    this.store.delete(key);
-    return entry.data;
-  }
-
-  /**
-   * Check if a key exists and is not expired
-   */
-  static has(key: string): boolean {
-    const entry = this.store.get(key);
-    if (!entry) {
-      return false;
-    }
-
-    if (Date.now() > entry.expiresAt) {
-      this.store.delete(key);
-      return false;
-    }
-
-    return true;
-  }
-
-  /**
-   * Clear expired entries
-   */
-  private static cleanup(): void {
-    const now = Date.now();
-    for (const [key, entry] of this.store.entries()) {
-      if (now > entry.expiresAt) {
-        this.store.delete(key);
-      }
-    }
-
-    // Stop cleanup timer if store is empty
-    if (this.store.size === 0 && this.cleanupTimer) {
-      clearInterval(this.cleanupTimer);
-      this.cleanupTimer = null;
-    }
-  }
-
-  /**
-   * Start periodic cleanup of expired entries
-   */
-  private static startCleanup(): void {
-    this.cleanupTimer = setInterval(() => {
-      this.cleanup();
-    }, this.CLEANUP_INTERVAL);
-  }
-}
\ No newline at end of file
@@ -1,18 +1,37 @@
 import { type PrismaClient } from "@prisma/client";
 import { TRPCError } from "@trpc/server";
-import { SocialAuthProvider, SocialPlatform, AccountType } from "./base-auth-provider";
+import { type CredentialAuditContext } from "@/server/services/credential-audit";
+import {
+  SocialAuthProvider,
+  SocialPlatform,
+  AccountType,
+  type ConnectMethod,
+  type CredentialConnectInput,
+  type InitiateAuthOptions,
+  type WebhookConnectInput
+} from "./base-auth-provider";
 import { FacebookAuthProvider } from "./facebook-auth-provider";
 import { XAuthProvider } from "./x-auth-provider";
 import { LinkedInAuthProvider } from "./linkedin-auth-provider";
+import { MastodonAuthProvider } from "./mastodon-auth-provider";
+import { BlueskyAuthProvider } from "./bluesky-auth-provider";
+import { InstagramAuthProvider } from "./instagram-auth-provider";
+import { WebhookChannelProvider } from "./webhook-channel-provider";
 
 export class SocialAuthService {
   private providers: Map<SocialPlatform, SocialAuthProvider> = new Map();
 
-  constructor(private db: PrismaClient) {
+  constructor(private db: PrismaClient, auditContext: CredentialAuditContext = {}) {
     // Initialize providers
-    this.providers.set(SocialPlatform.FACEBOOK, new FacebookAuthProvider(db));
-    this.providers.set(SocialPlatform.X, new XAuthProvider(db));
-    this.providers.set(SocialPlatform.LINKEDIN, new LinkedInAuthProvider(db));
+    this.providers.set(SocialPlatform.FACEBOOK, new FacebookAuthProvider(db, auditContext));
+    this.providers.set(SocialPlatform.X, new XAuthProvider(db, auditContext));
+    this.providers.set(SocialPlatform.LINKEDIN, new LinkedInAuthProvider(db, auditContext));
+    this.providers.set(SocialPlatform.MASTODON, new MastodonAuthProvider(db, auditContext));
+    this.providers.set(SocialPlatform.BLUESKY, new BlueskyAuthProvider(db, auditContext));
+    this.providers.set(SocialPlatform.INSTAGRAM, new InstagramAuthProvider(db, auditContext));
+    this.providers.set(SocialPlatform.SLACK, new WebhookChannelProvider(db, SocialPlatform.SLACK, auditContext));
+    this.providers.set(SocialPlatform.DISCORD, new WebhookChannelProvider(db, SocialPlatform.DISCORD, auditContext));
+    this.providers.set(SocialPlatform.TEAMS, new WebhookChannelProvider(db, SocialPlatform.TEAMS, auditContext));
   }
 
   /**
@@ -37,29 +56,78 @@ export class SocialAuthService {
   }
 
   /**
-   * Initiate OAuth flow for a platform
+   * How each platform's accounts are connected
+   */
+  getConnectMethods(): Record<SocialPlatform, ConnectMethod> {
+    return Object.fromEntries(
+      Array.from(this.providers, ([platform, provider]) => [platform, provider.connectMethod])
+    ) as Record<SocialPlatform, ConnectMethod>;
+  }
+
+  /**
+   * Initiate OAuth flow for a platform on behalf of a user
    */
   async initiateAuth(
     platform: SocialPlatform,
     workspaceId: string,
+    userId: string,
     accountType: AccountType,
-    redirectUri: string
+    redirectUri: string,
+    options: InitiateAuthOptions = {}
   ) {
     const provider = this.getProvider(platform);
-    return provider.initiateAuth(workspaceId, accountType, redirectUri);
+    return provider.initiateAuth(workspaceId, userId, accountType, redirectUri, options);
   }
 
   /**
-   * Handle OAuth callback for a platform
+   * Handle OAuth callback for a platform; only the user who started the flow can complete it
    */
   async handleCallback(
     platform: SocialPlatform,
     code: string,
     state: string,
-    redirectUri: string
+    redirectUri: string,
+    userId: string
+  ) {
+    const provider = this.getProvider(platform);
+    return provider.handleCallback(code, state, redirectUri, userId);
+  }
+
+  /**
+   * Connect an account with credentials, for platforms without an OAuth redirect
+   */
+  async connectWithCredentials(
+    platform: SocialPlatform,
+    workspaceId: string,
+    input: CredentialConnectInput
+  ) {
+    const provider = this.getProvider(platform);
+    return provider.connectWithCredentials(workspaceId, input);
+  }
+
+  /**
+   * Connect a chat channel by its incoming-webhook URL
+   */
+  async connectWebhook(
+    platform: SocialPlatform,
+    workspaceId: string,
+    input: WebhookConnectInput
+  ) {
+    const provider = this.getProvider(platform);
+    return provider.connectWebhook(workspaceId, input);
+  }
+
+  /**
+   * Connect the pages or organizations the user picked after the callback
+   */
+  async completeAccountSelection(
+    platform: SocialPlatform,
+    selectionId: string,
+    userId: string,
+    accountIds: string[]
   ) {
     const provider = this.getProvider(platform);
-    return provider.handleCallback(code, state, redirectUri);
+    return provider.completeAccountSelection(selectionId, userId, accountIds);
   }
 
   /**
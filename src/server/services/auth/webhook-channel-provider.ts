@@ -0,0 +1,191 @@
+import crypto from "crypto";
+import { type PrismaClient } from "@prisma/client";
+import { type CredentialAuditContext } from "@/server/services/credential-audit";
+import { TRPCError } from "@trpc/server";
+import {
+  SocialAuthProvider,
+  OAuthRequestError,
+  SocialPlatform,
+  AccountType,
+  ConnectMethod,
+  type AuthUrl,
+  type OAuthTokens,
+  type PlatformAccount,
+  type AuthCallbackResult,
+  type WebhookConnectInput
+} from "./base-auth-provider";
+
+export type WebhookPlatform = SocialPlatform.SLACK | SocialPlatform.DISCORD | SocialPlatform.TEAMS;
+
+interface WebhookProduct {
+  name: string;
+  urlPattern: RegExp;
+  example: string;
+}
+
+// Discord describes a webhook when its URL is fetched
+interface DiscordWebhook {
+  id: string;
+  name: string | null;
+  channel_id: string;
+  guild_id?: string;
+  avatar?: string | null;
+}
+
+const WEBHOOK_PRODUCTS: Record<WebhookPlatform, WebhookProduct> = {
+  [SocialPlatform.SLACK]: {
+    name: "Slack",
+    urlPattern: /^https:\/\/hooks\.slack\.com\/services\/[A-Z0-9]+\/[A-Z0-9]+\/[A-Za-z0-9]+$/,
+    example: "https://hooks.slack.com/services/T000/B000/XXXX",
+  },
+  [SocialPlatform.DISCORD]: {
+    name: "Discord",
+    urlPattern: /^https:\/\/(?:canary\.|ptb\.)?discord(?:app)?\.com\/api\/webhooks\/\d+\/[\w-]+$/,
+    example: "https://discord.com/api/webhooks/123/abc",
+  },
+  [SocialPlatform.TEAMS]: {
+    // Office 365 connectors, and the Workflows (Power Automate) webhooks replacing them
+    name: "Microsoft Teams",
+    urlPattern: /^https:\/\/[\w.-]+\.(?:webhook\.office\.com|logic\.azure\.com(?::443)?|api\.powerplatform\.com(?::443)?)\/\S+$/,
+    example: "https://example.webhook.office.com/webhookb2/...",
+  },
+};
+
+export function isWebhookPlatform(platform: SocialPlatform): platform is WebhookPlatform {
+  return platform in WEBHOOK_PRODUCTS;
+}
+
+/**
+ * Chat channels (Slack, Discord, Teams) are connected by pasting an incoming-webhook URL;
+ * there is no OAuth. The URL is the only secret, so it's stored encrypted in place of an
+ * access token and never kept in the account's metadata.
+ */
+export class WebhookChannelProvider extends SocialAuthProvider {
+  readonly connectMethod = ConnectMethod.WEBHOOK;
+  private readonly product: WebhookProduct;
+
+  constructor(db: PrismaClient, platform: WebhookPlatform, auditContext: CredentialAuditContext = {}) {
+    super(db, platform, auditContext);
+    this.product = WEBHOOK_PRODUCTS[platform];
+  }
+
+  async initiateAuth(): Promise<AuthUrl> {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `${this.product.name} channels are connected with an incoming webhook URL`
+    });
+  }
+
+  async handleCallback(): Promise<AuthCallbackResult> {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `${this.product.name} channels are connected with an incoming webhook URL`
+    });
+  }
+
+  async connectWebhook(
+    workspaceId: string,
+    input: WebhookConnectInput
+  ): Promise<AuthCallbackResult> {
+    const url = input.url.trim();
+    if (!this.product.urlPattern.test(url)) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `That doesn't look like a ${this.product.name} webhook URL (expected something like ${this.product.example})`
+      });
+    }
+
+    const tokens: OAuthTokens = { accessToken: url };
+
+    try {
+      const account = await this.describeWebhook(url, input.name?.trim() || undefined);
+
+      // Store credentials
+      await this.storeCredentials(workspaceId, account, tokens);
+
+      return { account, tokens };
+    } catch (error) {
+      if (error instanceof OAuthRequestError && (error.status === 401 || error.status === 404)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `${this.product.name} didn't recognize that webhook URL; it may have been deleted`,
+          cause: error
+        });
+      }
+      this.handleOAuthError(error, `${this.product.name} webhook connect`);
+    }
+  }
+
+  async refreshToken(accountId: string): Promise<OAuthTokens> {
+    // Webhook URLs don't expire; a deleted one has to be replaced by connecting a new one
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: `No refresh token available for ${this.product.name} channel ${accountId}`
+    });
+  }
+
+  async revokeAccess(accountId: string): Promise<void> {
+    // The webhook stays in the chat product, where other tools may use it; we only forget the URL
+    await this.credentialService.revokeCredentials(accountId);
+  }
+
+  /**
+   * The access token of a webhook channel is its URL
+   */
+  async getAccountInfo(accessToken: string): Promise<PlatformAccount> {
+    try {
+      return await this.describeWebhook(accessToken);
+    } catch (error) {
+      this.handleOAuthError(error, `get ${this.product.name} webhook info`);
+    }
+  }
+
+  validatePermissions(): boolean {
+    return true;
+  }
+
+  getRequiredScopes(): string[] {
+    // A webhook can only post to its own channel
+    return [];
+  }
+
+  /**
+   * Discord can tell us about a webhook, which also proves the URL works. Slack and Teams
+   * can't be checked without posting to the channel, so their URLs are taken as given.
+   */
+  private async describeWebhook(url: string, name?: string): Promise<PlatformAccount> {
+    if (this.platform === SocialPlatform.DISCORD) {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw await OAuthRequestError.fromResponse(response, "Get Discord webhook");
+      }
+
+      const webhook: DiscordWebhook = await response.json();
+
+      return this.toAccount(webhook.id, name ?? webhook.name ?? "Discord channel", {
+        channelId: webhook.channel_id,
+        guildId: webhook.guild_id,
+      });
+    }
+
+    // Identify the channel by a hash so the URL itself never leaves the credential store
+    const urlHash = crypto.createHash('sha256').update(url).digest('hex').slice(0, 32);
+
+    return this.toAccount(urlHash, name ?? `${this.product.name} channel`, {
+      host: new URL(url).host,
+    });
+  }
+
+  private toAccount(id: string, name: string, metadata: Record<string, unknown>): PlatformAccount {
+    return {
+      id,
+      name,
+      accountType: AccountType.WEBHOOK,
+      permissions: this.getRequiredScopes(),
+      metadata: {
+        platform: this.platform,
+        ...metadata,
+      }
+    };
+  }
+}
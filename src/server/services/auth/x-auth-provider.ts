@@ -1,7 +1,9 @@
 import { type PrismaClient } from "@prisma/client";
+import { type CredentialAuditContext } from "@/server/services/credential-audit";
 import { TRPCError } from "@trpc/server";
 import {
   SocialAuthProvider,
+  OAuthRequestError,
   SocialPlatform,
   AccountType,
   type AuthUrl,
@@ -9,7 +11,7 @@ import {
   type PlatformAccount,
   type AuthCallbackResult
 } from "./base-auth-provider";
-import { OAuthStateManager, OAuthSessionStore } from "./oauth-state-manager";
+import { OAuthStateManager } from "./oauth-state-manager";
 
 interface XTokenResponse {
   access_token: string;
@@ -40,8 +42,8 @@ export class XAuthProvider extends SocialAuthProvider {
   private readonly apiVersion = "2";
   private readonly baseUrl = "https://api.twitter.com";
 
-  constructor(db: PrismaClient) {
-    super(db, SocialPlatform.X);
+  constructor(db: PrismaClient, auditContext: CredentialAuditContext = {}) {
+    super(db, SocialPlatform.X, auditContext);
 
     this.clientId = process.env.TWITTER_CLIENT_ID!;
     this.clientSecret = process.env.TWITTER_CLIENT_SECRET!;
@@ -53,15 +55,16 @@ export class XAuthProvider extends SocialAuthProvider {
 
   async initiateAuth(
     workspaceId: string,
+    userId: string,
     accountType: AccountType,
     redirectUri: string
   ): Promise<AuthUrl> {
-    const state = OAuthStateManager.generateState(workspaceId, this.platform, accountType);
+    const state = await this.generateState(workspaceId, userId, accountType);
     const codeVerifier = OAuthStateManager.generateCodeVerifier();
     const codeChallenge = OAuthStateManager.generateCodeChallenge(codeVerifier);
 
     // Store code verifier for later use
-    OAuthSessionStore.set(`pkce:${state}`, { codeVerifier });
+    await this.sessionStore.set(`pkce:${state}`, { codeVerifier });
 
     const scopes = this.getRequiredScopes();
 
@@ -83,19 +86,14 @@ export class XAuthProvider extends SocialAuthProvider {
   async handleCallback(
     code: string,
     state: string,
-    redirectUri: string
+    redirectUri: string,
+    userId: string
   ): Promise<AuthCallbackResult> {
-    // Validate state
-    const stateResult = OAuthStateManager.parseState(state);
-    if (!stateResult.isValid || !stateResult.data) {
-      throw new TRPCError({
-        code: "BAD_REQUEST",
-        message: "Invalid or expired OAuth state"
-      });
-    }
+    // Validate state; each state can only be used once
+    const stateData = await this.consumeState(state, userId);
 
     // Get stored code verifier
-    const pkceData = OAuthSessionStore.get(`pkce:${state}`);
+    const pkceData = await this.sessionStore.get<{ codeVerifier: string }>(`pkce:${state}`);
     if (!pkceData?.codeVerifier) {
       throw new TRPCError({
         code: "BAD_REQUEST",
@@ -111,7 +109,7 @@ export class XAuthProvider extends SocialAuthProvider {
       const account = await this.getAccountInfo(tokens.accessToken);
 
       // Store credentials
-      await this.storeCredentials(stateResult.data.workspaceId, account, tokens);
+      await this.storeCredentials(stateData.workspaceId, account, tokens);
 
       return { account, tokens };
     } catch (error) {
@@ -147,7 +145,7 @@ export class XAuthProvider extends SocialAuthProvider {
       });
 
       if (!response.ok) {
-        throw new Error(`Token refresh failed: ${response.statusText}`);
+        throw await OAuthRequestError.fromResponse(response, "Token refresh");
       }
 
       const tokenData: XTokenResponse = await response.json();
@@ -222,7 +220,7 @@ export class XAuthProvider extends SocialAuthProvider {
       });
 
       if (!response.ok) {
-        throw new Error(`Failed to get user info: ${response.statusText}`);
+        throw await OAuthRequestError.fromResponse(response, "Get user info");
       }
 
       const userInfo: XUserInfo = await response.json();
@@ -282,8 +280,7 @@ export class XAuthProvider extends SocialAuthProvider {
     });
 
     if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Token exchange failed: ${response.statusText} - ${errorText}`);
+      throw await OAuthRequestError.fromResponse(response, "Token exchange");
     }
 
     const tokenData: XTokenResponse = await response.json();
@@ -0,0 +1,401 @@
+import { TRPCError } from "@trpc/server";
+import { type Prisma, type PrismaClient } from "@prisma/client";
+import { type Clock } from "@/server/services/publishing/publishing-service";
+import { CampaignStatus, PublishStatus } from "@/server/services/statuses";
+
+// Completed is final; drafts can complete without ever running if their dates pass
+const STATUS_TRANSITIONS: Record<CampaignStatus, CampaignStatus[]> = {
+  [CampaignStatus.DRAFT]: [CampaignStatus.ACTIVE, CampaignStatus.COMPLETED],
+  [CampaignStatus.ACTIVE]: [CampaignStatus.PAUSED, CampaignStatus.COMPLETED],
+  [CampaignStatus.PAUSED]: [CampaignStatus.ACTIVE, CampaignStatus.COMPLETED],
+  [CampaignStatus.COMPLETED]: [],
+};
+
+export interface CampaignInput {
+  name: string;
+  description?: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface CampaignUpdate {
+  name?: string;
+  description?: string | null;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface CampaignFilters {
+  status?: CampaignStatus;
+  limit?: number;
+  offset?: number;
+}
+
+export interface LifecycleSummary {
+  activated: number;
+  completed: number;
+  cancelledPosts: number;
+}
+
+export class CampaignService {
+  constructor(
+    private db: PrismaClient,
+    private clock: Clock = () => new Date()
+  ) {}
+
+  /**
+   * Create a campaign in draft; it activates on its start date
+   */
+  async createCampaign(workspaceId: string, input: CampaignInput) {
+    this.validateDates(input.startDate, input.endDate);
+
+    return this.db.campaign.create({
+      data: {
+        workspaceId,
+        name: input.name,
+        description: input.description,
+        startDate: input.startDate,
+        endDate: input.endDate,
+        status: CampaignStatus.DRAFT,
+      }
+    });
+  }
+
+  /**
+   * Update a campaign's details or dates
+   */
+  async updateCampaign(workspaceId: string, campaignId: string, updates: CampaignUpdate) {
+    const campaign = await this.getEditableCampaign(workspaceId, campaignId);
+
+    if (updates.startDate || updates.endDate) {
+      this.validateDates(updates.startDate ?? campaign.startDate, updates.endDate ?? campaign.endDate);
+    }
+
+    return this.db.campaign.update({
+      where: { id: campaignId },
+      data: updates
+    });
+  }
+
+  /**
+   * Get a campaign with its content
+   */
+  async getCampaign(workspaceId: string, campaignId: string) {
+    const campaign = await this.db.campaign.findFirst({
+      where: { id: campaignId, workspaceId },
+      include: {
+        contents: {
+          include: {
+            content: {
+              select: {
+                id: true,
+                title: true,
+                type: true,
+                status: true
+              }
+            }
+          },
+          orderBy: { addedAt: "asc" }
+        }
+      }
+    });
+
+    if (!campaign) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Campaign not found"
+      });
+    }
+
+    return campaign;
+  }
+
+  /**
+   * List a workspace's campaigns, soonest start first
+   */
+  async getCampaigns(workspaceId: string, filters: CampaignFilters = {}) {
+    const { status, limit = 20, offset = 0 } = filters;
+    const where = { workspaceId, status };
+
+    const [campaigns, total] = await Promise.all([
+      this.db.campaign.findMany({
+        where,
+        include: {
+          _count: {
+            select: { contents: true }
+          }
+        },
+        orderBy: { startDate: "asc" },
+        take: limit,
+        skip: offset
+      }),
+      this.db.campaign.count({ where })
+    ]);
+
+    return {
+      campaigns,
+      total,
+      hasMore: offset + limit < total
+    };
+  }
+
+  /**
+   * Delete a campaign. Its content stays; posts it was holding go back in the queue.
+   */
+  async deleteCampaign(workspaceId: string, campaignId: string) {
+    await this.getCampaign(workspaceId, campaignId);
+
+    await this.db.$transaction(async (tx) => {
+      const contentIds = await this.getContentIds(tx, campaignId);
+
+      await tx.campaign.delete({
+        where: { id: campaignId }
+      });
+      await this.releaseHeldPosts(tx, contentIds);
+    });
+
+    return { success: true };
+  }
+
+  /**
+   * Move a campaign to a new status.
+   *
+   * Pausing holds every scheduled post of the campaign's content; resuming releases them,
+   * so posts whose time passed during the pause go out right away. Completing a paused
+   * campaign cancels what it was holding rather than publishing after the campaign ended.
+   */
+  async changeStatus(workspaceId: string, campaignId: string, status: CampaignStatus) {
+    const campaign = await this.getCampaign(workspaceId, campaignId);
+    const current = campaign.status as CampaignStatus;
+
+    if (!STATUS_TRANSITIONS[current].includes(status)) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `A ${current} campaign can't be moved to ${status}`
+      });
+    }
+
+    if (status === CampaignStatus.ACTIVE && campaign.endDate <= this.clock()) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "This campaign has already ended; extend its end date to run it again"
+      });
+    }
+
+    const affectedPosts = await this.applyTransition(campaignId, current, status);
+    if (affectedPosts === null) {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: "This campaign changed while you were editing it. Refresh and try again."
+      });
+    }
+
+    return this.db.campaign.findUniqueOrThrow({
+      where: { id: campaignId }
+    });
+  }
+
+  /**
+   * Attach content to a campaign; content can belong to several campaigns
+   */
+  async addContent(workspaceId: string, campaignId: string, contentIds: string[]) {
+    const campaign = await this.getEditableCampaign(workspaceId, campaignId);
+
+    const content = await this.db.content.findMany({
+      where: {
+        id: { in: contentIds },
+        workspaceId
+      },
+      select: { id: true }
+    });
+
+    if (content.length !== new Set(contentIds).size) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Some of that content was not found in this workspace"
+      });
+    }
+
+    await this.db.$transaction(async (tx) => {
+      await tx.campaignContent.createMany({
+        data: contentIds.map(contentId => ({ campaignId, contentId })),
+        skipDuplicates: true
+      });
+
+      if (campaign.status === CampaignStatus.PAUSED) {
+        await this.holdScheduledPosts(tx, contentIds);
+      }
+    });
+
+    return this.getCampaign(workspaceId, campaignId);
+  }
+
+  /**
+   * Detach content from a campaign, releasing posts this campaign was holding
+   */
+  async removeContent(workspaceId: string, campaignId: string, contentIds: string[]) {
+    await this.getEditableCampaign(workspaceId, campaignId);
+
+    await this.db.$transaction(async (tx) => {
+      await tx.campaignContent.deleteMany({
+        where: {
+          campaignId,
+          contentId: { in: contentIds }
+        }
+      });
+      await this.releaseHeldPosts(tx, contentIds);
+    });
+
+    return this.getCampaign(workspaceId, campaignId);
+  }
+
+  /**
+   * Activate drafts whose start date has come and complete campaigns whose end date has passed
+   */
+  async advanceLifecycle(): Promise<LifecycleSummary> {
+    const now = this.clock();
+    const summary: LifecycleSummary = { activated: 0, completed: 0, cancelledPosts: 0 };
+
+    const ended = await this.db.campaign.findMany({
+      where: {
+        status: { in: [CampaignStatus.DRAFT, CampaignStatus.ACTIVE, CampaignStatus.PAUSED] },
+        endDate: { lte: now }
+      },
+      select: { id: true, status: true }
+    });
+
+    for (const campaign of ended) {
+      const cancelledPosts = await this.applyTransition(campaign.id, campaign.status as CampaignStatus, CampaignStatus.COMPLETED);
+
+      // Null if someone changed the campaign since it was read
+      if (cancelledPosts !== null) {
+        summary.completed++;
+        summary.cancelledPosts += cancelledPosts;
+      }
+    }
+
+    const activated = await this.db.campaign.updateMany({
+      where: {
+        status: CampaignStatus.DRAFT,
+        startDate: { lte: now },
+        endDate: { gt: now }
+      },
+      data: { status: CampaignStatus.ACTIVE }
+    });
+    summary.activated = activated.count;
+
+    return summary;
+  }
+
+  /**
+   * Flip the status only if it's still what was read, then hold, release or cancel the
+   * campaign's scheduled posts to match. Returns how many posts that touched, or null if
+   * the campaign had already moved on.
+   *
+   * Both happen in one transaction: a campaign must never read as paused while its posts
+   * are still queued, and the posts' row locks keep the publishing worker from claiming
+   * them halfway through.
+   */
+  private async applyTransition(campaignId: string, from: CampaignStatus, to: CampaignStatus): Promise<number | null> {
+    return this.db.$transaction(async (tx) => {
+      const result = await tx.campaign.updateMany({
+        where: { id: campaignId, status: from },
+        data: { status: to }
+      });
+
+      if (result.count === 0) {
+        return null;
+      }
+
+      const contentIds = await this.getContentIds(tx, campaignId);
+
+      if (to === CampaignStatus.PAUSED) {
+        return this.holdScheduledPosts(tx, contentIds);
+      }
+      if (from === CampaignStatus.PAUSED && to === CampaignStatus.ACTIVE) {
+        return this.releaseHeldPosts(tx, contentIds);
+      }
+      if (from === CampaignStatus.PAUSED && to === CampaignStatus.COMPLETED) {
+        return this.cancelHeldPosts(tx, contentIds);
+      }
+
+      return 0;
+    });
+  }
+
+  private async holdScheduledPosts(tx: Prisma.TransactionClient, contentIds: string[]): Promise<number> {
+    const result = await tx.publishedPost.updateMany({
+      where: {
+        contentId: { in: contentIds },
+        status: PublishStatus.PENDING
+      },
+      data: { status: PublishStatus.HELD }
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Requeue held posts, except those another paused campaign is still holding
+   */
+  private async releaseHeldPosts(tx: Prisma.TransactionClient, contentIds: string[]): Promise<number> {
+    const result = await tx.publishedPost.updateMany({
+      where: this.getReleasableWhere(contentIds),
+      data: { status: PublishStatus.PENDING }
+    });
+
+    return result.count;
+  }
+
+  private async cancelHeldPosts(tx: Prisma.TransactionClient, contentIds: string[]): Promise<number> {
+    const result = await tx.publishedPost.updateMany({
+      where: this.getReleasableWhere(contentIds),
+      data: { status: PublishStatus.CANCELLED }
+    });
+
+    return result.count;
+  }
+
+  private getReleasableWhere(contentIds: string[]) {
+    return {
+      contentId: { in: contentIds },
+      status: PublishStatus.HELD,
+      content: {
+        campaigns: {
+          none: { campaign: { status: CampaignStatus.PAUSED } }
+        }
+      }
+    };
+  }
+
+  private async getContentIds(tx: Prisma.TransactionClient, campaignId: string): Promise<string[]> {
+    const links = await tx.campaignContent.findMany({
+      where: { campaignId },
+      select: { contentId: true }
+    });
+
+    return links.map(link => link.contentId);
+  }
+
+  private async getEditableCampaign(workspaceId: string, campaignId: string) {
+    const campaign = await this.getCampaign(workspaceId, campaignId);
+
+    if (campaign.status === CampaignStatus.COMPLETED) {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: "Completed campaigns can no longer be changed"
+      });
+    }
+
+    return campaign;
+  }
+
+  private validateDates(startDate: Date, endDate: Date): void {
+    if (endDate <= startDate) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Campaign must end after it starts"
+      });
+    }
+  }
+}
@@ -0,0 +1,301 @@
+import { type PrismaClient } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { OAuthRequestError, type SocialPlatform } from "@/server/services/auth/base-auth-provider";
+import { SocialAuthService } from "@/server/services/auth/social-auth-service";
+import { CredentialService, type SocialCredentials } from "@/server/services/credential";
+import { type CredentialAuditContext } from "@/server/services/credential-audit";
+
+// How long a refresh may hold an account before another process may take over
+const REFRESH_LEASE_MS = 60 * 1000;
+
+// How often to check whether another process's refresh has finished
+const REFRESH_LEASE_POLL_MS = 500;
+
+// How long the refresh worker leaves an account alone after a temporary failure, so
+// accounts that keep failing don't take the batch from the rest
+const REFRESH_RETRY_DELAY_MS = 15 * 60 * 1000;
+
+// Matches CredentialService.needsRefresh
+const JUST_IN_TIME_WINDOW_MS = 5 * 60 * 1000;
+
+export interface RefreshSummary {
+  checked: number;
+  refreshed: number;
+  deactivated: number;
+  failed: number; // Temporary failures; retried on the next run
+}
+
+/**
+ * Hands out credentials that are safe to use for a platform API call, refreshing
+ * the access token first when it is about to expire.
+ */
+export class CredentialAccessService {
+  // Refreshes in flight in this process, so concurrent callers share one request
+  private static refreshes: Map<string, Promise<void>> = new Map();
+
+  private credentialService: CredentialService;
+
+  constructor(
+    private db: PrismaClient,
+    private auditContext: CredentialAuditContext = {}
+  ) {
+    this.credentialService = new CredentialService(db, auditContext);
+  }
+
+  /**
+   * Get credentials with a usable access token, refreshing them if needed.
+   * Returns null when the account is inactive or its token expired and can't be refreshed.
+   */
+  async getValidCredentials(accountId: string): Promise<SocialCredentials | null> {
+    const account = await this.db.socialAccount.findUnique({
+      where: { id: accountId },
+      select: {
+        platform: true,
+        isActive: true,
+        encryptedRefreshToken: true
+      }
+    });
+
+    if (!account || !account.isActive) {
+      return null;
+    }
+
+    // Without a refresh token the current token is all we have, valid or not
+    if (account.encryptedRefreshToken && await this.credentialService.needsRefresh(accountId)) {
+      await this.refreshOnce(
+        accountId,
+        account.platform as SocialPlatform,
+        new Date(Date.now() + JUST_IN_TIME_WINDOW_MS)
+      );
+    }
+
+    return this.credentialService.getCredentials(accountId);
+  }
+
+  /**
+   * Refresh an account's token now, even if it isn't close to expiring
+   */
+  async refreshCredentials(accountId: string): Promise<void> {
+    const account = await this.db.socialAccount.findUnique({
+      where: { id: accountId },
+      select: { platform: true }
+    });
+
+    if (!account) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Social account not found"
+      });
+    }
+
+    await this.refreshOnce(accountId, account.platform as SocialPlatform, null);
+  }
+
+  /**
+   * Refresh every active account whose token expires within the window.
+   * Accounts are only deactivated when the platform definitively rejects the refresh;
+   * rate limits and outages leave them active and back off before the next attempt.
+   */
+  async refreshExpiringAccounts(windowMs: number, limit: number): Promise<RefreshSummary> {
+    const now = new Date();
+    const refreshBefore = new Date(now.getTime() + windowMs);
+
+    const accounts = await this.db.socialAccount.findMany({
+      where: {
+        isActive: true,
+        tokenExpiresAt: { lte: refreshBefore },
+        AND: [
+          // Tokens without a refresh token only need attention once they've actually expired
+          {
+            OR: [
+              { encryptedRefreshToken: { not: null } },
+              { tokenExpiresAt: { lte: now } }
+            ]
+          },
+          {
+            OR: [
+              { refreshRetryAt: null },
+              { refreshRetryAt: { lte: now } }
+            ]
+          }
+        ]
+      },
+      select: {
+        id: true,
+        platform: true,
+        encryptedRefreshToken: true
+      },
+      orderBy: { tokenExpiresAt: "asc" },
+      take: limit
+    });
+
+    const summary: RefreshSummary = { checked: accounts.length, refreshed: 0, deactivated: 0, failed: 0 };
+
+    for (const account of accounts) {
+      if (!account.encryptedRefreshToken) {
+        await this.credentialService.deactivateAccount(
+          account.id,
+          "Access token expired and the platform did not issue a refresh token"
+        );
+        summary.deactivated++;
+        continue;
+      }
+
+      try {
+        await this.refreshOnce(account.id, account.platform as SocialPlatform, refreshBefore);
+        await this.setRefreshRetryAt(account.id, null);
+        summary.refreshed++;
+      } catch (error) {
+        if (this.isDefinitiveRefreshFailure(error)) {
+          summary.deactivated++;
+        } else {
+          summary.failed++;
+          await this.setRefreshRetryAt(account.id, new Date(Date.now() + REFRESH_RETRY_DELAY_MS));
+          console.error(`[CREDENTIAL_REFRESH] Temporary failure refreshing account ${account.id}:`, error);
+        }
+      }
+    }
+
+    return summary;
+  }
+
+  private async setRefreshRetryAt(accountId: string, refreshRetryAt: Date | null): Promise<void> {
+    await this.db.socialAccount.updateMany({
+      where: { id: accountId },
+      data: { refreshRetryAt }
+    });
+  }
+
+  /**
+   * Join a refresh already running in this process, or start one.
+   * refreshBefore skips the refresh if someone else already pushed the expiry past it;
+   * null always refreshes.
+   */
+  private async refreshOnce(
+    accountId: string,
+    platform: SocialPlatform,
+    refreshBefore: Date | null
+  ): Promise<void> {
+    const inFlight = CredentialAccessService.refreshes.get(accountId);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const refresh = this.refreshWithLock(accountId, platform, refreshBefore).finally(() => {
+      CredentialAccessService.refreshes.delete(accountId);
+    });
+
+    CredentialAccessService.refreshes.set(accountId, refresh);
+    return refresh;
+  }
+
+  /**
+   * Refresh under a lease on the account row so workers and web instances don't race.
+   * Platforms that rotate refresh tokens invalidate the old one on use, so a second
+   * concurrent refresh would fail and could lock the account out.
+   *
+   * The platform request runs outside any transaction, so it holds no pooled connection
+   * while it waits and the rotated tokens are stored as soon as they arrive.
+   */
+  private async refreshWithLock(
+    accountId: string,
+    platform: SocialPlatform,
+    refreshBefore: Date | null
+  ): Promise<void> {
+    const leaseUntil = await this.acquireRefreshLease(accountId);
+    if (!leaseUntil) {
+      return;
+    }
+
+    try {
+      // Another process may have refreshed while we waited for the lease
+      const current = await this.db.socialAccount.findUnique({
+        where: { id: accountId },
+        select: { isActive: true, tokenExpiresAt: true }
+      });
+
+      if (!current?.isActive) {
+        return;
+      }
+      if (refreshBefore && (!current.tokenExpiresAt || current.tokenExpiresAt > refreshBefore)) {
+        return;
+      }
+
+      try {
+        await new SocialAuthService(this.db, this.auditContext).refreshToken(platform, accountId);
+      } catch (error) {
+        if (this.isDefinitiveRefreshFailure(error)) {
+          await this.credentialService.deactivateAccount(accountId, this.getFailureReason(error));
+        }
+        throw error;
+      }
+    } finally {
+      // Only clear our own lease; once it ran out another process may hold the account
+      await this.db.socialAccount.updateMany({
+        where: { id: accountId, refreshLeaseUntil: leaseUntil },
+        data: { refreshLeaseUntil: null }
+      });
+    }
+  }
+
+  /**
+   * Wait until no other process is refreshing the account, then take the lease.
+   * A lease left behind by a crashed process runs out after REFRESH_LEASE_MS.
+   * Returns null when the account no longer exists.
+   */
+  private async acquireRefreshLease(accountId: string): Promise<Date | null> {
+    for (;;) {
+      const now = new Date();
+      const leaseUntil = new Date(now.getTime() + REFRESH_LEASE_MS);
+
+      const { count } = await this.db.socialAccount.updateMany({
+        where: {
+          id: accountId,
+          OR: [
+            { refreshLeaseUntil: null },
+            { refreshLeaseUntil: { lte: now } }
+          ]
+        },
+        data: { refreshLeaseUntil: leaseUntil }
+      });
+
+      if (count > 0) {
+        return leaseUntil;
+      }
+
+      const account = await this.db.socialAccount.findUnique({
+        where: { id: accountId },
+        select: { id: true }
+      });
+      if (!account) {
+        return null;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, REFRESH_LEASE_POLL_MS));
+    }
+  }
+
+  /**
+   * Whether the platform refused the refresh for good, so retrying can't help
+   */
+  private isDefinitiveRefreshFailure(error: unknown): boolean {
+    const cause = error instanceof TRPCError ? error.cause : error;
+
+    if (cause instanceof OAuthRequestError) {
+      return cause.isGrantRejected();
+    }
+
+    // The provider found no refresh token to use
+    return error instanceof TRPCError && error.code === "NOT_FOUND";
+  }
+
+  private getFailureReason(error: unknown): string {
+    const cause = error instanceof TRPCError ? error.cause : error;
+
+    if (cause instanceof OAuthRequestError) {
+      return `Token refresh was rejected by the platform (${cause.errorCode ?? `HTTP ${cause.status}`})`;
+    }
+
+    return error instanceof Error ? `Token refresh failed: ${error.message}` : "Token refresh failed";
+  }
+}
@@ -0,0 +1,142 @@
+import { type PrismaClient } from "@prisma/client";
+
+export enum CredentialAuditAction {
+  STORED = "STORED",
+  ACCESSED = "ACCESSED",
+  UPDATED = "UPDATED",
+  REVOKED = "REVOKED",
+  EXPIRED = "EXPIRED",
+  DEACTIVATED = "DEACTIVATED",
+  ERROR = "ERROR"
+}
+
+/**
+ * Who triggered a credential operation. Empty for background jobs.
+ */
+export interface CredentialAuditContext {
+  userId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface CredentialAuditEntry {
+  workspaceId: string;
+  socialAccountId?: string;
+  action: CredentialAuditAction;
+  platform?: string;
+  details?: string;
+}
+
+export interface CredentialAuditFilters {
+  socialAccountId?: string;
+  userId?: string;
+  actions?: CredentialAuditAction[];
+  from?: Date;
+  to?: Date;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Build an audit context from the request that triggered the operation
+ */
+export function createAuditContext(headers: Headers, userId?: string): CredentialAuditContext {
+  // The first forwarded address is the client; the rest are proxies
+  const forwardedFor = headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+
+  return {
+    userId,
+    ipAddress: forwardedFor || headers.get("x-real-ip") || undefined,
+    userAgent: headers.get("user-agent") ?? undefined,
+  };
+}
+
+export class CredentialAuditService {
+  constructor(
+    private db: PrismaClient,
+    private context: CredentialAuditContext = {}
+  ) { }
+
+  /**
+   * Persist an audit entry. Never throws, so auditing can't break the operation it records.
+   */
+  async record(entry: CredentialAuditEntry): Promise<void> {
+    try {
+      await this.db.credentialAuditLog.create({
+        data: {
+          workspaceId: entry.workspaceId,
+          socialAccountId: entry.socialAccountId,
+          userId: this.context.userId,
+          action: entry.action,
+          platform: entry.platform,
+          details: entry.details,
+          ipAddress: this.context.ipAddress,
+          userAgent: this.context.userAgent,
+        },
+      });
+    } catch (error) {
+      // The entry would otherwise be lost, so say what it was
+      console.error(`Failed to write credential audit log (account ${entry.socialAccountId ?? "-"}, action ${entry.action}):`, error);
+    }
+  }
+
+  /**
+   * Get a workspace's audit entries, newest first
+   */
+  async getAuditLog(workspaceId: string, filters: CredentialAuditFilters) {
+    const where = {
+      workspaceId,
+      socialAccountId: filters.socialAccountId,
+      userId: filters.userId,
+      action: filters.actions?.length ? { in: filters.actions } : undefined,
+      createdAt: filters.from || filters.to
+        ? { gte: filters.from, lte: filters.to }
+        : undefined,
+    };
+
+    const [entries, total] = await Promise.all([
+      this.db.credentialAuditLog.findMany({
+        where,
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+          socialAccount: {
+            select: {
+              id: true,
+              platform: true,
+              displayName: true,
+            },
+          },
+        },
+        orderBy: { createdAt: "desc" },
+        take: filters.limit,
+        skip: filters.offset,
+      }),
+      this.db.credentialAuditLog.count({ where }),
+    ]);
+
+    return {
+      entries,
+      total,
+      hasMore: filters.offset + filters.limit < total,
+    };
+  }
+
+  /**
+   * Delete entries older than the retention period
+   */
+  async pruneExpiredEntries(retentionDays: number): Promise<number> {
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+    const result = await this.db.credentialAuditLog.deleteMany({
+      where: { createdAt: { lt: cutoff } },
+    });
+
+    return result.count;
+  }
+}
@@ -1,6 +1,11 @@
 import { TRPCError } from "@trpc/server";
 import { type PrismaClient } from "@prisma/client";
-import { CredentialManager } from "@/lib/encryption";
+import { CredentialManager, loadKeyring, needsReEncryption, reEncrypt } from "@/lib/encryption";
+import {
+  CredentialAuditAction,
+  CredentialAuditService,
+  type CredentialAuditContext
+} from "@/server/services/credential-audit";
 
 export interface SocialCredentials {
   accessToken: string;
@@ -21,6 +26,7 @@ export interface StoredCredentials {
   platformAccountId: string;
   displayName: string;
   isActive: boolean;
+  deactivatedReason?: string;
   tokenExpiresAt?: Date;
   permissions: string[];
   platformMetadata: Record<string, any>;
@@ -28,8 +34,28 @@ export interface StoredCredentials {
   updatedAt: Date;
 }
 
+export interface ReEncryptionSummary {
+  scanned: number;
+  reEncrypted: number;
+  failed: number; // Couldn't be decrypted with any configured key
+}
+
+// Enough of an account to attribute an audit entry to its workspace
+interface AuditedAccount {
+  id: string;
+  workspaceId: string;
+  platform: string;
+}
+
 export class CredentialService {
-  constructor(private db: PrismaClient) { }
+  private audit: CredentialAuditService;
+
+  constructor(
+    private db: PrismaClient,
+    auditContext: CredentialAuditContext = {}
+  ) {
+    this.audit = new CredentialAuditService(db, auditContext);
+  }
 
   /**
    * Store encrypted social media credentials
@@ -42,7 +68,7 @@ export class CredentialService {
   ): Promise<StoredCredentials> {
     try {
       // Encrypt the credentials
-      const encryptedData = CredentialManager.encryptCredentials({
+      const encryptedData = await CredentialManager.encryptCredentials({
         accessToken: credentials.accessToken,
         refreshToken: credentials.refreshToken,
         expiresAt: credentials.expiresAt,
@@ -72,6 +98,8 @@ export class CredentialService {
             encryptedRefreshToken: encryptedData.encryptedRefreshToken,
             tokenExpiresAt: credentials.expiresAt,
             isActive: true,
+            deactivatedReason: null,
+            deactivatedAt: null,
             permissions: credentials.permissions,
             platformMetadata: credentials.platformMetadata,
             updatedAt: new Date(),
@@ -97,7 +125,7 @@ export class CredentialService {
       }
 
       // Log the credential storage for audit purposes
-      await this.logCredentialAccess(socialAccount.id, "STORED", "Credentials stored successfully");
+      await this.logCredentialAccess(socialAccount, CredentialAuditAction.STORED, "Credentials stored successfully");
 
       return this.mapToStoredCredentials(socialAccount);
     } catch (error) {
@@ -110,9 +138,14 @@ export class CredentialService {
   }
 
   /**
-   * Retrieve and decrypt social media credentials
+   * Retrieve and decrypt social media credentials.
+   * Expired tokens are withheld unless allowExpired is set, which token refresh needs
+   * to reach the refresh token.
    */
-  async getCredentials(accountId: string): Promise<SocialCredentials | null> {
+  async getCredentials(
+    accountId: string,
+    options: { allowExpired?: boolean } = {}
+  ): Promise<SocialCredentials | null> {
     try {
       const socialAccount = await this.db.socialAccount.findUnique({
         where: { id: accountId },
@@ -123,19 +156,19 @@ export class CredentialService {
       }
 
       // Check if token is expired
-      if (socialAccount.tokenExpiresAt && socialAccount.tokenExpiresAt < new Date()) {
-        await this.logCredentialAccess(accountId, "EXPIRED", "Token expired");
+      if (!options.allowExpired && socialAccount.tokenExpiresAt && socialAccount.tokenExpiresAt < new Date()) {
+        await this.logCredentialAccess(socialAccount, CredentialAuditAction.EXPIRED, "Token expired");
         return null;
       }
 
       // Decrypt the credentials
-      const decryptedData = CredentialManager.decryptCredentials({
+      const decryptedData = await CredentialManager.decryptCredentials({
         encryptedAccessToken: socialAccount.encryptedAccessToken,
         encryptedRefreshToken: socialAccount.encryptedRefreshToken || undefined,
       });
 
       // Log the credential access for audit purposes
-      await this.logCredentialAccess(accountId, "ACCESSED", "Credentials accessed for API call");
+      await this.logCredentialAccess(socialAccount, CredentialAuditAction.ACCESSED, "Credentials accessed for API call");
 
       return {
         accessToken: decryptedData.accessToken,
@@ -149,7 +182,7 @@ export class CredentialService {
       };
     } catch (error) {
       console.error("Failed to retrieve credentials:", error);
-      await this.logCredentialAccess(accountId, "ERROR", `Failed to retrieve credentials: ${error}`);
+      await this.logCredentialAccess(accountId, CredentialAuditAction.ERROR, `Failed to retrieve credentials: ${error}`);
       throw new TRPCError({
         code: "INTERNAL_SERVER_ERROR",
         message: "Failed to retrieve credentials",
@@ -183,8 +216,8 @@ export class CredentialService {
 
       // If updating tokens, encrypt them
       if (updates.accessToken || updates.refreshToken) {
-        const currentCredentials = await this.getCredentials(accountId);
-        const encryptedData = CredentialManager.encryptCredentials({
+        const currentCredentials = await this.getCredentials(accountId, { allowExpired: true });
+        const encryptedData = await CredentialManager.encryptCredentials({
           accessToken: updates.accessToken || currentCredentials?.accessToken || "",
           refreshToken: updates.refreshToken || currentCredentials?.refreshToken,
           expiresAt: updates.expiresAt || currentCredentials?.expiresAt,
@@ -216,12 +249,12 @@ export class CredentialService {
         data: updateData,
       });
 
-      await this.logCredentialAccess(accountId, "UPDATED", "Credentials updated successfully");
+      await this.logCredentialAccess(updatedAccount, CredentialAuditAction.UPDATED, "Credentials updated successfully");
 
       return this.mapToStoredCredentials(updatedAccount);
     } catch (error) {
       console.error("Failed to update credentials:", error);
-      await this.logCredentialAccess(accountId, "ERROR", `Failed to update credentials: ${error}`);
+      await this.logCredentialAccess(accountId, CredentialAuditAction.ERROR, `Failed to update credentials: ${error}`);
       throw new TRPCError({
         code: "INTERNAL_SERVER_ERROR",
         message: "Failed to update credentials",
@@ -254,13 +287,13 @@ export class CredentialService {
         },
       });
 
-      await this.logCredentialAccess(accountId, "REVOKED", "Credentials revoked and deactivated");
+      await this.logCredentialAccess(socialAccount, CredentialAuditAction.REVOKED, "Credentials revoked and deactivated");
 
       // TODO: Call platform APIs to revoke tokens if needed
       // This would be implemented in the specific platform services
     } catch (error) {
       console.error("Failed to revoke credentials:", error);
-      await this.logCredentialAccess(accountId, "ERROR", `Failed to revoke credentials: ${error}`);
+      await this.logCredentialAccess(accountId, CredentialAuditAction.ERROR, `Failed to revoke credentials: ${error}`);
       throw new TRPCError({
         code: "INTERNAL_SERVER_ERROR",
         message: "Failed to revoke credentials",
@@ -268,6 +301,22 @@ export class CredentialService {
     }
   }
 
+  /**
+   * Disconnect an account that can no longer be used, recording why
+   */
+  async deactivateAccount(accountId: string, reason: string): Promise<void> {
+    const account = await this.db.socialAccount.update({
+      where: { id: accountId },
+      data: {
+        isActive: false,
+        deactivatedReason: reason,
+        deactivatedAt: new Date(),
+      },
+    });
+
+    await this.logCredentialAccess(account, CredentialAuditAction.DEACTIVATED, reason);
+  }
+
   /**
    * Get all social accounts for a workspace
    */
@@ -319,25 +368,49 @@ export class CredentialService {
   }
 
   /**
-   * Clean up expired credentials
+   * Clean up expired credentials that can't be refreshed.
+   * Accounts with a refresh token are left to the credential refresh worker.
    */
   async cleanupExpiredCredentials(): Promise<number> {
+    const reason = "Access token expired and the platform did not issue a refresh token";
+
     try {
-      const result = await this.db.socialAccount.updateMany({
+      const now = new Date();
+      const accounts = await this.db.socialAccount.findMany({
         where: {
           tokenExpiresAt: {
-            lt: new Date(),
+            lt: now,
           },
+          encryptedRefreshToken: null,
           isActive: true,
         },
-        data: {
-          isActive: false,
-          updatedAt: new Date(),
-        },
+        select: { id: true, workspaceId: true, platform: true },
       });
 
-      console.log(`Cleaned up ${result.count} expired credentials`);
-      return result.count;
+      let deactivated = 0;
+      for (const account of accounts) {
+        // Skip accounts reconnected or refreshed since they were selected
+        const { count } = await this.db.socialAccount.updateMany({
+          where: {
+            id: account.id,
+            tokenExpiresAt: { lt: now },
+            encryptedRefreshToken: null,
+            isActive: true,
+          },
+          data: {
+            isActive: false,
+            deactivatedReason: reason,
+            deactivatedAt: now,
+          },
+        });
+
+        if (count > 0) {
+          await this.logCredentialAccess(account, CredentialAuditAction.EXPIRED, reason);
+          deactivated++;
+        }
+      }
+
+      return deactivated;
     } catch (error) {
       console.error("Failed to cleanup expired credentials:", error);
       return 0;
@@ -345,26 +418,94 @@ export class CredentialService {
   }
 
   /**
-   * Log credential access for audit purposes
+   * Rewrite every stored token that isn't in the current format under the primary key, in batches.
+   * Safe to rerun and to run while the app is live: a row changed since it was read is
+   * left alone, since whatever changed it already used the primary key.
+   */
+  async reEncryptCredentials(batchSize: number): Promise<ReEncryptionSummary> {
+    const { primaryKeyId } = await loadKeyring();
+    const summary: ReEncryptionSummary = { scanned: 0, reEncrypted: 0, failed: 0 };
+    let cursor: string | undefined;
+
+    while (true) {
+      const accounts = await this.db.socialAccount.findMany({
+        select: {
+          id: true,
+          workspaceId: true,
+          platform: true,
+          encryptedAccessToken: true,
+          encryptedRefreshToken: true,
+        },
+        orderBy: { id: "asc" },
+        take: batchSize,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+
+      if (accounts.length === 0) {
+        break;
+      }
+      cursor = accounts[accounts.length - 1]!.id;
+      summary.scanned += accounts.length;
+
+      for (const account of accounts) {
+        const { encryptedAccessToken, encryptedRefreshToken } = account;
+        if (!needsReEncryption(encryptedAccessToken)
+          && !(encryptedRefreshToken && needsReEncryption(encryptedRefreshToken))) {
+          continue;
+        }
+
+        try {
+          const result = await this.db.socialAccount.updateMany({
+            where: { id: account.id, encryptedAccessToken, encryptedRefreshToken },
+            data: {
+              encryptedAccessToken: reEncrypt(encryptedAccessToken),
+              encryptedRefreshToken: encryptedRefreshToken ? reEncrypt(encryptedRefreshToken) : null,
+            },
+          });
+
+          if (result.count > 0) {
+            summary.reEncrypted++;
+            await this.logCredentialAccess(account, CredentialAuditAction.UPDATED, `Credentials re-encrypted with key ${primaryKeyId}`);
+          }
+        } catch (error) {
+          summary.failed++;
+          await this.logCredentialAccess(account, CredentialAuditAction.ERROR, `Failed to re-encrypt credentials: ${error}`);
+        }
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Log credential access for audit purposes.
+   * Pass the account record when it's already loaded to save a lookup.
    */
   private async logCredentialAccess(
-    accountId: string,
-    action: "STORED" | "ACCESSED" | "UPDATED" | "REVOKED" | "EXPIRED" | "ERROR",
+    account: string | AuditedAccount,
+    action: CredentialAuditAction,
     details: string
   ): Promise<void> {
     try {
-      // In a production system, you might want to store this in a separate audit log table
-      console.log(`[CREDENTIAL_AUDIT] ${new Date().toISOString()} - Account: ${accountId}, Action: ${action}, Details: ${details}`);
-
-      // TODO: Implement proper audit logging to database
-      // await this.db.credentialAuditLog.create({
-      //   data: {
-      //     accountId,
-      //     action,
-      //     details,
-      //     timestamp: new Date(),
-      //   },
-      // });
+      const audited = typeof account === "string"
+        ? await this.db.socialAccount.findUnique({
+          where: { id: account },
+          select: { id: true, workspaceId: true, platform: true },
+        })
+        : account;
+
+      // Entries belong to a workspace; there's nothing to record against a missing account
+      if (!audited) {
+        return;
+      }
+
+      await this.audit.record({
+        workspaceId: audited.workspaceId,
+        socialAccountId: audited.id,
+        action,
+        platform: audited.platform,
+        details,
+      });
     } catch (error) {
       console.error("Failed to log credential access:", error);
       // Don't throw here as this is just logging
@@ -383,6 +524,7 @@ export class CredentialService {
       platformAccountId: account.platformAccountId,
       displayName: account.displayName,
       isActive: account.isActive,
+      deactivatedReason: account.deactivatedReason ?? undefined,
       tokenExpiresAt: account.tokenExpiresAt,
       permissions: account.permissions as string[],
       platformMetadata: account.platformMetadata as Record<string, any>,
@@ -0,0 +1,120 @@
+import { type SocialPlatform, type AccountType } from "@/server/services/auth/base-auth-provider";
+import { type SocialCredentials } from "@/server/services/credential";
+import { type MediaAsset } from "@/server/services/content";
+
+export interface PublishTarget {
+  accountId: string;
+  platformAccountId: string;
+  accountType: AccountType;
+  credentials: SocialCredentials;
+}
+
+export interface OptimizedContent {
+  text: string;
+  mediaAssets: MediaAsset[];
+  link?: string; // Attached as a preview card where the platform supports it
+  hashtags?: string[];
+  thread?: string[]; // Parts to publish as a reply chain; media goes on the first
+  edited?: boolean; // Hand-edited by a user rather than generated
+}
+
+export interface PublishResult {
+  platformPostId: string;
+  url?: string;
+  threadPostIds?: string[]; // Every post in the thread, in order, including the first
+  metadata?: Record<string, any>;
+}
+
+export interface PublishProgress {
+  threadPostIds: string[]; // Thread parts already live from an earlier attempt
+}
+
+export interface ContentValidationResult {
+  isValid: boolean;
+  errors: string[];
+}
+
+/**
+ * Error raised when a platform API rejects a publish request
+ */
+export class PublishError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly responseBody?: string
+  ) {
+    super(message);
+    this.name = "PublishError";
+  }
+}
+
+/**
+ * Error raised when a thread fails part-way; the parts already published are kept
+ * so a retry can continue the chain instead of posting it twice
+ */
+export class PartialPublishError extends PublishError {
+  constructor(
+    public readonly cause: unknown,
+    public readonly threadPostIds: string[]
+  ) {
+    super(
+      cause instanceof Error ? cause.message : String(cause),
+      cause instanceof PublishError ? cause.status : undefined,
+      cause instanceof PublishError ? cause.responseBody : undefined
+    );
+    this.name = "PartialPublishError";
+  }
+}
+
+/**
+ * Abstract base class for platform-specific publishers
+ */
+export abstract class SocialPublisher {
+  constructor(protected platform: SocialPlatform) { }
+
+  /**
+   * Get the platform this publisher handles
+   */
+  getPlatform(): SocialPlatform {
+    return this.platform;
+  }
+
+  /**
+   * Publish content to the target account and return the platform post reference
+   */
+  abstract publish(
+    target: PublishTarget,
+    content: OptimizedContent,
+    progress?: PublishProgress
+  ): Promise<PublishResult>;
+
+  /**
+   * Check content against the platform's constraints before publishing
+   */
+  abstract validateContent(content: OptimizedContent): ContentValidationResult;
+
+  /**
+   * Throw a PublishError carrying the HTTP status if the response failed
+   */
+  protected async ensureOk(response: Response, context: string): Promise<void> {
+    if (response.ok) {
+      return;
+    }
+
+    const body = await response.text();
+    throw new PublishError(
+      `${context} failed: ${response.status} ${response.statusText} - ${body}`,
+      response.status,
+      body
+    );
+  }
+
+  /**
+   * Download a media asset so it can be uploaded to the platform
+   */
+  protected async fetchMedia(asset: MediaAsset): Promise<Blob> {
+    const response = await fetch(asset.url);
+    await this.ensureOk(response, `Download media ${asset.filename}`);
+    return response.blob();
+  }
+}
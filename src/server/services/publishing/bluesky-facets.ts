@@ -0,0 +1,99 @@
+// Bluesky doesn't parse post text; links, mentions and hashtags only work when they're
+// sent as facets, which point at UTF-8 byte ranges of the text.
+
+export type FacetFeature =
+  | { $type: "app.bsky.richtext.facet#link"; uri: string }
+  | { $type: "app.bsky.richtext.facet#mention"; did: string }
+  | { $type: "app.bsky.richtext.facet#tag"; tag: string };
+
+export interface RichTextFacet {
+  index: {
+    byteStart: number;
+    byteEnd: number;
+  };
+  features: FacetFeature[];
+}
+
+const LINK_PATTERN = /https?:\/\/[^\s<>"]+[^\s<>".,;:!?)\]'}]/g;
+const MENTION_PATTERN = /(^|[\s(])@([a-zA-Z0-9-]+(?:\.[a-zA-Z0-9-]+)*\.[a-zA-Z]{2,})\b/g;
+const TAG_PATTERN = /(^|\s)#([\p{L}\p{N}_]*[\p{L}_][\p{L}\p{N}_]*)/gu;
+
+// Bluesky rejects longer tags
+const MAX_TAG_LENGTH = 64;
+
+interface Match {
+  start: number; // UTF-16 index into the text
+  end: number;
+  feature: FacetFeature;
+}
+
+/**
+ * Find the links, mentions and hashtags in a post.
+ * Mentions need a DID; handles that don't resolve are left as plain text.
+ */
+export async function detectFacets(
+  text: string,
+  resolveHandle: (handle: string) => Promise<string | null>
+): Promise<RichTextFacet[]> {
+  const matches: Match[] = [];
+
+  for (const match of text.matchAll(LINK_PATTERN)) {
+    matches.push({
+      start: match.index,
+      end: match.index + match[0].length,
+      feature: { $type: "app.bsky.richtext.facet#link", uri: match[0] },
+    });
+  }
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const handle = match[2]!;
+    const did = await resolveHandle(handle.toLowerCase());
+    if (!did) {
+      continue;
+    }
+
+    const start = match.index + match[1]!.length;
+    matches.push({
+      start,
+      end: start + handle.length + 1,
+      feature: { $type: "app.bsky.richtext.facet#mention", did },
+    });
+  }
+
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    const tag = match[2]!;
+    if (tag.length > MAX_TAG_LENGTH) {
+      continue;
+    }
+
+    const start = match.index + match[1]!.length;
+    matches.push({
+      start,
+      end: start + tag.length + 1,
+      feature: { $type: "app.bsky.richtext.facet#tag", tag },
+    });
+  }
+
+  // Facets may not overlap, e.g. a mention-like string inside a link
+  matches.sort((a, b) => a.start - b.start);
+
+  const facets: RichTextFacet[] = [];
+  let lastEnd = 0;
+
+  for (const match of matches) {
+    if (match.start < lastEnd) {
+      continue;
+    }
+
+    facets.push({
+      index: {
+        byteStart: Buffer.byteLength(text.slice(0, match.start), "utf8"),
+        byteEnd: Buffer.byteLength(text.slice(0, match.end), "utf8"),
+      },
+      features: [match.feature],
+    });
+    lastEnd = match.end;
+  }
+
+  return facets;
+}
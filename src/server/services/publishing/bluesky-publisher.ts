@@ -0,0 +1,239 @@
+import { SocialPlatform } from "@/server/services/auth/base-auth-provider";
+import { type MediaAsset } from "@/server/services/content";
+import {
+  SocialPublisher,
+  PublishError,
+  PartialPublishError,
+  type ContentValidationResult,
+  type OptimizedContent,
+  type PublishProgress,
+  type PublishResult,
+  type PublishTarget
+} from "./base-publisher";
+import { detectFacets } from "./bluesky-facets";
+import { getTextLength } from "./content-transformer";
+
+// A record in the author's repo; replies must reference both
+interface StrongRef {
+  uri: string;
+  cid: string;
+}
+
+interface BlueskyBlob {
+  $type: "blob";
+  ref: { $link: string };
+  mimeType: string;
+  size: number;
+}
+
+export class BlueskyPublisher extends SocialPublisher {
+  private readonly maxLength = 300;
+  private readonly maxBytes = 3000;
+  private readonly maxImages = 4;
+  private readonly maxImageSize = 1_000_000;
+  private readonly maxThreadLength = 25;
+
+  constructor() {
+    super(SocialPlatform.BLUESKY);
+  }
+
+  async publish(
+    target: PublishTarget,
+    content: OptimizedContent,
+    progress?: PublishProgress
+  ): Promise<PublishResult> {
+    const pdsUrl = this.getPdsUrl(target);
+    const did = target.platformAccountId;
+    const accessToken = target.credentials.accessToken;
+    const parts = content.thread && content.thread.length > 0 ? content.thread : [content.text];
+
+    // Resume after the parts an earlier attempt already published
+    const postIds = [...(progress?.threadPostIds ?? [])];
+    const handles = new Map<string, string | null>();
+    const resolveHandle = async (handle: string) => {
+      if (!handles.has(handle)) {
+        handles.set(handle, await this.resolveHandle(pdsUrl, handle));
+      }
+      return handles.get(handle) ?? null;
+    };
+
+    try {
+      // Replies point at the thread's root as well as their parent
+      let root = postIds.length > 0 ? await this.getRecordRef(pdsUrl, postIds[0]!) : undefined;
+      let parent = postIds.length > 0 ? await this.getRecordRef(pdsUrl, postIds[postIds.length - 1]!) : undefined;
+
+      for (let index = postIds.length; index < parts.length; index++) {
+        const text = parts[index]!;
+        const record: Record<string, any> = {
+          $type: 'app.bsky.feed.post',
+          text,
+          createdAt: new Date().toISOString(),
+        };
+
+        const facets = await detectFacets(text, resolveHandle);
+        if (facets.length > 0) {
+          record.facets = facets;
+        }
+
+        if (index === 0 && content.mediaAssets.length > 0) {
+          const images = [];
+          for (const asset of content.mediaAssets) {
+            images.push({ alt: '', image: await this.uploadBlob(pdsUrl, accessToken, asset) });
+          }
+          record.embed = { $type: 'app.bsky.embed.images', images };
+        }
+
+        if (root && parent) {
+          record.reply = { root, parent };
+        }
+
+        const ref = await this.createRecord(pdsUrl, accessToken, did, record);
+        root ??= ref;
+        parent = ref;
+        postIds.push(ref.uri);
+      }
+    } catch (error) {
+      if (postIds.length > 0) {
+        throw new PartialPublishError(error, postIds);
+      }
+      throw error;
+    }
+
+    const firstPostUri = postIds[0]!;
+
+    return {
+      platformPostId: firstPostUri,
+      url: `https://bsky.app/profile/${did}/post/${firstPostUri.split('/').pop()}`,
+      threadPostIds: parts.length > 1 ? postIds : undefined,
+    };
+  }
+
+  validateContent(content: OptimizedContent): ContentValidationResult {
+    const errors: string[] = [];
+
+    if (!content.text.trim() && content.mediaAssets.length === 0) {
+      errors.push("Bluesky posts need text or images");
+    }
+
+    const checkLength = (text: string, label: string) => {
+      if (getTextLength(text, SocialPlatform.BLUESKY) > this.maxLength) {
+        errors.push(`${label} is over the ${this.maxLength} character limit`);
+      } else if (Buffer.byteLength(text, 'utf8') > this.maxBytes) {
+        // Emoji sequences can hit the byte limit before the character limit
+        errors.push(`${label} is over Bluesky's ${this.maxBytes} byte limit`);
+      }
+    };
+
+    if (content.thread && content.thread.length > 0) {
+      if (content.thread.length > this.maxThreadLength) {
+        errors.push(`Bluesky threads are limited to ${this.maxThreadLength} posts`);
+      }
+
+      content.thread.forEach((part, index) => {
+        if (!part.trim()) {
+          errors.push(`Thread post ${index + 1} is empty`);
+        } else {
+          checkLength(part, `Thread post ${index + 1}`);
+        }
+      });
+    } else {
+      checkLength(content.text, "The post");
+    }
+
+    if (content.mediaAssets.length > this.maxImages) {
+      errors.push(`Bluesky posts support at most ${this.maxImages} images`);
+    }
+
+    if (content.mediaAssets.some(asset => asset.type === 'video')) {
+      errors.push("Video uploads to Bluesky are not supported yet");
+    }
+
+    if (content.mediaAssets.some(asset => asset.size > this.maxImageSize)) {
+      errors.push("Bluesky images must be under 1 MB");
+    }
+
+    return { isValid: errors.length === 0, errors };
+  }
+
+  /**
+   * Each account posts through its own PDS
+   */
+  private getPdsUrl(target: PublishTarget): string {
+    const pdsUrl = target.credentials.platformMetadata.pdsUrl;
+    if (typeof pdsUrl !== 'string' || !pdsUrl) {
+      throw new PublishError("Bluesky account has no server; please reconnect it", 400);
+    }
+    return pdsUrl;
+  }
+
+  private async createRecord(
+    pdsUrl: string,
+    accessToken: string,
+    did: string,
+    record: Record<string, any>
+  ): Promise<StrongRef> {
+    const response = await fetch(`${pdsUrl}/xrpc/com.atproto.repo.createRecord`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify({
+        repo: did,
+        collection: 'app.bsky.feed.post',
+        record,
+      }),
+    });
+
+    await this.ensureOk(response, "Create Bluesky post");
+
+    return response.json();
+  }
+
+  /**
+   * Look up a post's content hash, needed to reply to a post from an earlier attempt
+   */
+  private async getRecordRef(pdsUrl: string, uri: string): Promise<StrongRef> {
+    const [repo, collection, rkey] = uri.replace('at://', '').split('/');
+    const params = new URLSearchParams({ repo: repo!, collection: collection!, rkey: rkey! });
+
+    const response = await fetch(`${pdsUrl}/xrpc/com.atproto.repo.getRecord?${params.toString()}`);
+    await this.ensureOk(response, "Get Bluesky post");
+
+    const data: { uri: string; cid: string } = await response.json();
+    return { uri: data.uri, cid: data.cid };
+  }
+
+  private async resolveHandle(pdsUrl: string, handle: string): Promise<string | null> {
+    try {
+      const params = new URLSearchParams({ handle });
+      const response = await fetch(`${pdsUrl}/xrpc/com.atproto.identity.resolveHandle?${params.toString()}`);
+      if (!response.ok) {
+        return null;
+      }
+
+      const data: { did: string } = await response.json();
+      return data.did;
+    } catch {
+      return null;
+    }
+  }
+
+  private async uploadBlob(pdsUrl: string, accessToken: string, asset: MediaAsset): Promise<BlueskyBlob> {
+    const file = await this.fetchMedia(asset);
+
+    const response = await fetch(`${pdsUrl}/xrpc/com.atproto.repo.uploadBlob`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': asset.mimeType,
+        'Authorization': `Bearer ${accessToken}`,
+      },
+      body: file,
+    });
+
+    await this.ensureOk(response, "Upload Bluesky image");
+
+    const data: { blob: BlueskyBlob } = await response.json();
+    return data.blob;
+  }
+}
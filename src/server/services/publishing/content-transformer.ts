@@ -0,0 +1,392 @@
+import { SocialPlatform } from "@/server/services/auth/base-auth-provider";
+import { type MediaAsset } from "@/server/services/content";
+import { type OptimizedContent } from "./base-publisher";
+import { buildThread } from "./thread-builder";
+
+export enum HashtagPlacement {
+  INLINE = "inline", // Appended to the last line of the text
+  END = "end" // Separate block after a blank line
+}
+
+export enum LinkHandling {
+  INLINE = "inline", // Leave links in the text
+  PREVIEW = "preview" // Attach the first link as a preview card
+}
+
+export interface PlatformRules {
+  maxLength: number;
+  maxHashtags: number;
+  hashtagPlacement: HashtagPlacement;
+  linkHandling: LinkHandling;
+  maxMedia: number;
+  supportsVideo: boolean;
+  supportsThreads: boolean; // Long text can go out as a reply chain
+}
+
+export const platformRules: Record<SocialPlatform, PlatformRules> = {
+  [SocialPlatform.X]: {
+    maxLength: 280,
+    maxHashtags: 2,
+    hashtagPlacement: HashtagPlacement.INLINE,
+    linkHandling: LinkHandling.INLINE,
+    maxMedia: 4,
+    supportsVideo: false,
+    supportsThreads: true,
+  },
+  [SocialPlatform.LINKEDIN]: {
+    maxLength: 3000,
+    maxHashtags: 5,
+    hashtagPlacement: HashtagPlacement.END,
+    linkHandling: LinkHandling.INLINE,
+    maxMedia: 20,
+    supportsVideo: false,
+    supportsThreads: false,
+  },
+  [SocialPlatform.FACEBOOK]: {
+    maxLength: 63206,
+    maxHashtags: 3,
+    hashtagPlacement: HashtagPlacement.END,
+    linkHandling: LinkHandling.PREVIEW,
+    maxMedia: 10,
+    supportsVideo: true,
+    supportsThreads: false,
+  },
+  [SocialPlatform.MASTODON]: {
+    maxLength: 500, // The default; some instances allow more
+    maxHashtags: 5,
+    hashtagPlacement: HashtagPlacement.END,
+    linkHandling: LinkHandling.INLINE, // Instances build the preview card from the first link
+    maxMedia: 4,
+    supportsVideo: false,
+    supportsThreads: true,
+  },
+  [SocialPlatform.BLUESKY]: {
+    maxLength: 300,
+    maxHashtags: 3,
+    hashtagPlacement: HashtagPlacement.END,
+    linkHandling: LinkHandling.INLINE, // Links become link facets in the text
+    maxMedia: 4,
+    supportsVideo: false,
+    supportsThreads: true,
+  },
+  [SocialPlatform.INSTAGRAM]: {
+    maxLength: 2200,
+    maxHashtags: 10,
+    hashtagPlacement: HashtagPlacement.END,
+    linkHandling: LinkHandling.INLINE, // Caption links aren't clickable, but there's nowhere else to put them
+    maxMedia: 10, // Several images go out as a carousel
+    supportsVideo: true, // A single video goes out as a reel
+    supportsThreads: false,
+  },
+  // Chat channels posted to through incoming webhooks; hashtags mean nothing there
+  [SocialPlatform.SLACK]: {
+    maxLength: 3000, // A section block's text limit
+    maxHashtags: 0,
+    hashtagPlacement: HashtagPlacement.END,
+    linkHandling: LinkHandling.INLINE, // Slack unfurls links itself
+    maxMedia: 10,
+    supportsVideo: false,
+    supportsThreads: false,
+  },
+  [SocialPlatform.DISCORD]: {
+    maxLength: 4096, // An embed description's limit
+    maxHashtags: 0,
+    hashtagPlacement: HashtagPlacement.END,
+    linkHandling: LinkHandling.INLINE,
+    maxMedia: 10, // One embed per image
+    supportsVideo: false,
+    supportsThreads: false,
+  },
+  [SocialPlatform.TEAMS]: {
+    maxLength: 20000, // Teams rejects messages over about 28 KB, card markup included
+    maxHashtags: 0,
+    hashtagPlacement: HashtagPlacement.END,
+    linkHandling: LinkHandling.INLINE,
+    maxMedia: 10,
+    supportsVideo: false,
+    supportsThreads: false,
+  },
+};
+
+export interface TransformSource {
+  text: string;
+  mediaAssets: MediaAsset[];
+}
+
+export interface TransformOptions {
+  splitThreads?: boolean; // Split over-long text into a thread instead of shortening it
+  numberThreads?: boolean; // Append "1/n" counters to thread parts
+}
+
+export interface TransformedContent {
+  content: OptimizedContent;
+  warnings: string[];
+}
+
+const URL_PATTERN = /https?:\/\/[^\s<>"]+[^\s<>".,;:!?)\]'}]/g;
+const HASHTAG_PATTERN = /(^|[^\p{L}\p{N}_&/])#([\p{L}\p{N}_]+)/gu;
+const HASHTAG_ONLY_LINE = /^(\s*#[\p{L}\p{N}_]+)+\s*$/u;
+
+// X wraps every link in a fixed-length t.co URL
+const X_URL_LENGTH = 23;
+
+// Mastodon counts every link as this long, whatever its real length
+const MASTODON_URL_LENGTH = 23;
+
+const ELLIPSIS = "…";
+
+/**
+ * Count characters the way the platform does.
+ *
+ * X uses weighted counting: links count as 23, emoji and most non-Latin scripts count as 2.
+ * Mastodon counts links as 23 and everything else by code point.
+ * Bluesky counts graphemes, so an emoji sequence is one character.
+ * The other platforms count UTF-16 code units like String.length.
+ */
+export function getTextLength(text: string, platform: SocialPlatform): number {
+  if (platform === SocialPlatform.BLUESKY) {
+    const segmenter = new Intl.Segmenter(undefined, { granularity: "grapheme" });
+    return [...segmenter.segment(text)].length;
+  }
+
+  if (platform === SocialPlatform.MASTODON) {
+    let urlLength = 0;
+    const withoutUrls = text.replace(URL_PATTERN, () => {
+      urlLength += MASTODON_URL_LENGTH;
+      return "";
+    });
+    return urlLength + [...withoutUrls].length;
+  }
+
+  if (platform !== SocialPlatform.X) {
+    return text.length;
+  }
+
+  let length = 0;
+  const withoutUrls = text.replace(URL_PATTERN, () => {
+    length += X_URL_LENGTH;
+    return "";
+  });
+
+  const segmenter = new Intl.Segmenter(undefined, { granularity: "grapheme" });
+  for (const { segment } of segmenter.segment(withoutUrls)) {
+    if (/\p{Extended_Pictographic}/u.test(segment)) {
+      length += 2;
+      continue;
+    }
+
+    for (const char of segment) {
+      length += isXLightweightCodePoint(char.codePointAt(0)!) ? 1 : 2;
+    }
+  }
+
+  return length;
+}
+
+/**
+ * Extract the hashtags used in a piece of text, without the leading '#'
+ */
+export function extractHashtags(text: string): string[] {
+  return Array.from(text.matchAll(HASHTAG_PATTERN), match => match[2]!);
+}
+
+/**
+ * Extract the links used in a piece of text
+ */
+export function extractLinks(text: string): string[] {
+  return Array.from(text.matchAll(URL_PATTERN), match => match[0]);
+}
+
+/**
+ * Build the platform-specific variant of a piece of content
+ */
+export function transformContent(
+  source: TransformSource,
+  platform: SocialPlatform,
+  options: TransformOptions = {}
+): TransformedContent {
+  const rules = platformRules[platform];
+  const warnings: string[] = [];
+
+  const mediaAssets = selectMedia(source.mediaAssets, rules, platform, warnings);
+  let { body, hashtags } = splitTrailingHashtags(source.text.trim());
+
+  // Hashtags written into sentences stay where they are and count against the limit
+  const inlineTags = new Set(extractHashtags(body).map(tag => tag.toLowerCase()));
+  const trailingTags = dedupeHashtags(hashtags).filter(tag => !inlineTags.has(tag.toLowerCase()));
+  const allowedTrailing = Math.max(0, rules.maxHashtags - inlineTags.size);
+  if (trailingTags.length > allowedTrailing) {
+    warnings.push(`Dropped ${trailingTags.length - allowedTrailing} hashtag(s) to stay within ${rules.maxHashtags} on ${platform}`);
+  }
+  hashtags = trailingTags.slice(0, allowedTrailing);
+
+  // A trailing link becomes a preview card; Facebook ignores link cards on media posts
+  let link: string | undefined;
+  if (rules.linkHandling === LinkHandling.PREVIEW && mediaAssets.length === 0) {
+    const links = extractLinks(body);
+    if (links.length > 0) {
+      link = links[0]!;
+      if (body.endsWith(link)) {
+        body = body.slice(0, -link.length).trimEnd();
+      }
+    }
+  }
+
+  if (options.splitThreads && rules.supportsThreads) {
+    const text = composeText(body, hashtags, rules.hashtagPlacement);
+    const thread = buildThread(text, {
+      platform,
+      maxLength: rules.maxLength,
+      numbering: options.numberThreads ?? false,
+    });
+
+    if (thread.length > 1) {
+      warnings.push(`Split into a thread of ${thread.length} posts on ${platform}`);
+      return {
+        content: {
+          text,
+          mediaAssets,
+          link,
+          hashtags: extractHashtags(text),
+          thread,
+        },
+        warnings,
+      };
+    }
+  }
+
+  const fitted = fitToLength(body, hashtags, rules, platform);
+  if (fitted.droppedHashtags > 0) {
+    warnings.push(`Dropped ${fitted.droppedHashtags} hashtag(s) to fit the ${rules.maxLength} character limit on ${platform}`);
+  }
+  if (fitted.truncated) {
+    warnings.push(`Text was shortened to fit the ${rules.maxLength} character limit on ${platform}`);
+  }
+
+  return {
+    content: {
+      text: fitted.text,
+      mediaAssets,
+      link,
+      hashtags: extractHashtags(fitted.text),
+    },
+    warnings,
+  };
+}
+
+// Ranges X counts as a single character (twitter-text v3 configuration)
+function isXLightweightCodePoint(codePoint: number): boolean {
+  return (
+    (codePoint >= 0 && codePoint <= 4351) ||
+    (codePoint >= 8192 && codePoint <= 8205) ||
+    (codePoint >= 8208 && codePoint <= 8223) ||
+    (codePoint >= 8242 && codePoint <= 8247)
+  );
+}
+
+function splitTrailingHashtags(text: string): { body: string; hashtags: string[] } {
+  const lines = text.split("\n");
+  const hashtags: string[] = [];
+
+  while (lines.length > 1 && HASHTAG_ONLY_LINE.test(lines[lines.length - 1]!)) {
+    hashtags.unshift(...extractHashtags(lines.pop()!));
+  }
+
+  return { body: lines.join("\n").trimEnd(), hashtags };
+}
+
+function dedupeHashtags(hashtags: string[]): string[] {
+  const seen = new Set<string>();
+  return hashtags.filter(tag => {
+    const key = tag.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function composeText(body: string, hashtags: string[], placement: HashtagPlacement): string {
+  if (hashtags.length === 0) {
+    return body;
+  }
+
+  const tags = hashtags.map(tag => `#${tag}`).join(" ");
+  if (!body) {
+    return tags;
+  }
+
+  return placement === HashtagPlacement.END ? `${body}\n\n${tags}` : `${body} ${tags}`;
+}
+
+function fitToLength(
+  body: string,
+  hashtags: string[],
+  rules: PlatformRules,
+  platform: SocialPlatform
+): { text: string; droppedHashtags: number; truncated: boolean } {
+  const fits = (text: string) => getTextLength(text, platform) <= rules.maxLength;
+  const tags = [...hashtags];
+
+  // Hashtags go first: they are the least important part of the post
+  while (tags.length > 0 && !fits(composeText(body, tags, rules.hashtagPlacement))) {
+    tags.pop();
+  }
+
+  const droppedHashtags = hashtags.length - tags.length;
+  if (fits(composeText(body, tags, rules.hashtagPlacement))) {
+    return { text: composeText(body, tags, rules.hashtagPlacement), droppedHashtags, truncated: false };
+  }
+
+  // Keep a trailing link when shortening: it's usually the point of the post
+  const links = extractLinks(body);
+  const trailingLink = links.length > 0 && body.endsWith(links[links.length - 1]!)
+    ? links[links.length - 1]!
+    : undefined;
+  const suffix = trailingLink ? `${ELLIPSIS} ${trailingLink}` : ELLIPSIS;
+  const shortenable = trailingLink ? body.slice(0, -trailingLink.length).trimEnd() : body;
+
+  // Cut whole words from the end so links and hashtags in the body stay intact
+  const words = shortenable.split(/(\s+)/);
+  while (words.length > 1) {
+    words.pop();
+    const kept = words.join("").trimEnd();
+    if (kept && fits(`${kept}${suffix}`)) {
+      return { text: `${kept}${suffix}`, droppedHashtags, truncated: true };
+    }
+  }
+
+  // The first word alone is over the limit; fall back to cutting characters
+  const chars = Array.from(words[0] ?? "");
+  while (chars.length > 0 && !fits(`${chars.join("")}${suffix}`)) {
+    chars.pop();
+  }
+  return { text: `${chars.join("")}${suffix}`, droppedHashtags, truncated: true };
+}
+
+function selectMedia(
+  mediaAssets: MediaAsset[],
+  rules: PlatformRules,
+  platform: SocialPlatform,
+  warnings: string[]
+): MediaAsset[] {
+  const images = mediaAssets.filter(asset => asset.type === "image");
+  const videos = mediaAssets.filter(asset => asset.type === "video");
+
+  if (videos.length > 0 && !rules.supportsVideo) {
+    warnings.push(`Video is not supported on ${platform} yet; ${videos.length} video(s) left out`);
+  }
+
+  // Platforms that take video allow a single video with no images alongside it
+  if (videos.length > 0 && rules.supportsVideo) {
+    if (videos.length > 1 || images.length > 0) {
+      warnings.push("Only the first video is attached; other media is left out");
+    }
+    return [videos[0]!];
+  }
+
+  if (images.length > rules.maxMedia) {
+    warnings.push(`Only the first ${rules.maxMedia} images are attached on ${platform}`);
+  }
+
+  return images.slice(0, rules.maxMedia);
+}
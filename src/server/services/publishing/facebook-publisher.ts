@@ -0,0 +1,139 @@
+import { SocialPlatform, AccountType } from "@/server/services/auth/base-auth-provider";
+import { type MediaAsset } from "@/server/services/content";
+import {
+  SocialPublisher,
+  PublishError,
+  type ContentValidationResult,
+  type OptimizedContent,
+  type PublishResult,
+  type PublishTarget
+} from "./base-publisher";
+
+interface FacebookPostResponse {
+  id: string;
+  post_id?: string;
+}
+
+export class FacebookPublisher extends SocialPublisher {
+  private readonly apiVersion = "v19.0";
+  private readonly baseUrl = "https://graph.facebook.com";
+  private readonly maxLength = 63206;
+  private readonly maxImages = 10;
+
+  constructor() {
+    super(SocialPlatform.FACEBOOK);
+  }
+
+  async publish(target: PublishTarget, content: OptimizedContent): Promise<PublishResult> {
+    // The Graph API only allows publishing to Pages, not personal profiles
+    if (target.accountType !== AccountType.PAGE) {
+      throw new PublishError("Facebook publishing requires a connected Page account", 400);
+    }
+
+    const pageId = target.platformAccountId;
+    const accessToken = target.credentials.accessToken;
+    const images = content.mediaAssets.filter(asset => asset.type === 'image');
+    const video = content.mediaAssets.find(asset => asset.type === 'video');
+
+    let postId: string;
+
+    if (video) {
+      const response = await this.graphPost(`${pageId}/videos`, accessToken, {
+        file_url: video.url,
+        description: content.text,
+      });
+      postId = response.id;
+    } else if (images.length === 1) {
+      const response = await this.graphPost(`${pageId}/photos`, accessToken, {
+        url: images[0]!.url,
+        caption: content.text,
+      });
+      postId = response.post_id ?? response.id;
+    } else if (images.length > 1) {
+      postId = await this.publishMultiPhotoPost(pageId, accessToken, content.text, images);
+    } else {
+      const response = await this.graphPost(`${pageId}/feed`, accessToken, {
+        message: content.text,
+        ...(content.link ? { link: content.link } : {}),
+      });
+      postId = response.id;
+    }
+
+    return {
+      platformPostId: postId,
+      url: `https://www.facebook.com/${postId}`,
+    };
+  }
+
+  validateContent(content: OptimizedContent): ContentValidationResult {
+    const errors: string[] = [];
+    const images = content.mediaAssets.filter(asset => asset.type === 'image');
+    const videos = content.mediaAssets.filter(asset => asset.type === 'video');
+
+    if (!content.text.trim() && content.mediaAssets.length === 0 && !content.link) {
+      errors.push("Facebook posts need text, media or a link");
+    }
+
+    if (content.text.length > this.maxLength) {
+      errors.push(`Facebook posts are limited to ${this.maxLength} characters`);
+    }
+
+    if (videos.length > 1 || (videos.length === 1 && images.length > 0)) {
+      errors.push("Facebook posts can contain a single video or images, not both");
+    }
+
+    if (images.length > this.maxImages) {
+      errors.push(`Facebook posts support at most ${this.maxImages} images`);
+    }
+
+    return { isValid: errors.length === 0, errors };
+  }
+
+  private async publishMultiPhotoPost(
+    pageId: string,
+    accessToken: string,
+    message: string,
+    images: MediaAsset[]
+  ): Promise<string> {
+    // Upload each photo unpublished, then attach them all to a single feed post
+    const attachedMedia: Record<string, string> = {};
+
+    for (const [index, image] of images.entries()) {
+      const photo = await this.graphPost(`${pageId}/photos`, accessToken, {
+        url: image.url,
+        published: 'false',
+      });
+      attachedMedia[`attached_media[${index}]`] = JSON.stringify({ media_fbid: photo.id });
+    }
+
+    const response = await this.graphPost(`${pageId}/feed`, accessToken, {
+      message,
+      ...attachedMedia,
+    });
+
+    return response.id;
+  }
+
+  private async graphPost(
+    path: string,
+    accessToken: string,
+    fields: Record<string, string>
+  ): Promise<FacebookPostResponse> {
+    const params = new URLSearchParams({
+      ...fields,
+      access_token: accessToken,
+    });
+
+    const response = await fetch(`${this.baseUrl}/${this.apiVersion}/${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: params.toString(),
+    });
+
+    await this.ensureOk(response, `Facebook POST /${path}`);
+
+    return response.json();
+  }
+}
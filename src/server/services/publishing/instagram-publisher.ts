@@ -0,0 +1,264 @@
+import { SocialPlatform } from "@/server/services/auth/base-auth-provider";
+import { type MediaAsset } from "@/server/services/content";
+import {
+  SocialPublisher,
+  PublishError,
+  type ContentValidationResult,
+  type OptimizedContent,
+  type PublishResult,
+  type PublishTarget
+} from "./base-publisher";
+import { extractHashtags } from "./content-transformer";
+
+interface GraphIdResponse {
+  id: string;
+}
+
+// Instagram fetches the media itself after a container is created
+interface ContainerStatusResponse {
+  id: string;
+  status_code: "EXPIRED" | "ERROR" | "FINISHED" | "IN_PROGRESS" | "PUBLISHED";
+  status?: string; // Explains an ERROR
+}
+
+interface AspectRatioRange {
+  min: number; // width / height
+  max: number;
+  label: string;
+}
+
+// Feed images and carousel items: 4:5 portrait to 1.91:1 landscape
+const FEED_ASPECT_RATIO: AspectRatioRange = { min: 4 / 5, max: 1.91, label: "4:5 and 1.91:1" };
+const REEL_ASPECT_RATIO: AspectRatioRange = { min: 0.01, max: 10, label: "0.01:1 and 10:1" };
+
+/**
+ * Publishes to Instagram Business accounts through the Graph API with the linked Page's
+ * token. Every post is two steps: create a media container from public media URLs,
+ * then publish the container once Instagram has finished processing it.
+ */
+export class InstagramPublisher extends SocialPublisher {
+  private readonly apiVersion = "v19.0";
+  private readonly baseUrl = "https://graph.facebook.com";
+  private readonly maxLength = 2200;
+  private readonly maxHashtags = 30;
+  private readonly maxCarouselItems = 10;
+  private readonly maxImageSize = 8 * 1024 * 1024;
+  private readonly maxReelSize = 1024 * 1024 * 1024;
+  private readonly maxCarouselVideoSize = 100 * 1024 * 1024;
+  private readonly minVideoDuration = 3;
+  private readonly maxReelDuration = 15 * 60;
+  private readonly maxCarouselVideoDuration = 60;
+  private readonly containerPollIntervalMs = 3000;
+  private readonly containerPollAttempts = 60;
+
+  constructor() {
+    super(SocialPlatform.INSTAGRAM);
+  }
+
+  async publish(target: PublishTarget, content: OptimizedContent): Promise<PublishResult> {
+    const igUserId = target.platformAccountId;
+    const accessToken = target.credentials.accessToken;
+    const assets = content.mediaAssets;
+
+    let containerId: string;
+
+    if (assets.length > 1) {
+      // Each item is its own container; the carousel container holds them and the caption
+      const children: string[] = [];
+      for (const asset of assets) {
+        const item = await this.graphPost(`${igUserId}/media`, accessToken, {
+          ...this.getMediaFields(asset, 'VIDEO'),
+          is_carousel_item: 'true',
+        });
+        children.push(item.id);
+      }
+
+      for (const childId of children) {
+        await this.waitForContainer(childId, accessToken);
+      }
+
+      const carousel = await this.graphPost(`${igUserId}/media`, accessToken, {
+        media_type: 'CAROUSEL',
+        children: children.join(','),
+        caption: content.text,
+      });
+      containerId = carousel.id;
+    } else {
+      // A single video goes out as a reel, which also appears in the feed
+      const container = await this.graphPost(`${igUserId}/media`, accessToken, {
+        ...this.getMediaFields(assets[0]!, 'REELS'),
+        caption: content.text,
+      });
+      containerId = container.id;
+    }
+
+    await this.waitForContainer(containerId, accessToken);
+
+    const published = await this.graphPost(`${igUserId}/media_publish`, accessToken, {
+      creation_id: containerId,
+    });
+
+    return {
+      platformPostId: published.id,
+      url: await this.getPermalink(published.id, accessToken),
+    };
+  }
+
+  validateContent(content: OptimizedContent): ContentValidationResult {
+    const errors: string[] = [];
+    const assets = content.mediaAssets;
+
+    if (assets.length === 0) {
+      errors.push("Instagram posts need at least one image or video");
+    }
+
+    if (content.text.length > this.maxLength) {
+      errors.push(`Instagram captions are limited to ${this.maxLength} characters`);
+    }
+
+    if (extractHashtags(content.text).length > this.maxHashtags) {
+      errors.push(`Instagram captions can have at most ${this.maxHashtags} hashtags`);
+    }
+
+    if (assets.length > this.maxCarouselItems) {
+      errors.push(`Instagram carousels support at most ${this.maxCarouselItems} items`);
+    }
+
+    const isCarousel = assets.length > 1;
+
+    for (const asset of assets) {
+      if (asset.type === 'image') {
+        this.validateImage(asset, errors);
+      } else {
+        this.validateVideo(asset, isCarousel, errors);
+      }
+    }
+
+    return { isValid: errors.length === 0, errors };
+  }
+
+  private validateImage(asset: MediaAsset, errors: string[]): void {
+    if (asset.mimeType !== 'image/jpeg') {
+      errors.push(`${asset.filename}: Instagram only accepts JPEG images`);
+    }
+
+    if (asset.size > this.maxImageSize) {
+      errors.push(`${asset.filename}: Instagram images must be under 8 MB`);
+    }
+
+    this.validateAspectRatio(asset, FEED_ASPECT_RATIO, errors);
+  }
+
+  private validateVideo(asset: MediaAsset, isCarousel: boolean, errors: string[]): void {
+    const maxSize = isCarousel ? this.maxCarouselVideoSize : this.maxReelSize;
+    const maxDuration = isCarousel ? this.maxCarouselVideoDuration : this.maxReelDuration;
+
+    if (asset.mimeType !== 'video/mp4' && asset.mimeType !== 'video/quicktime') {
+      errors.push(`${asset.filename}: Instagram only accepts MP4 or MOV videos`);
+    }
+
+    if (asset.size > maxSize) {
+      errors.push(`${asset.filename}: Instagram ${isCarousel ? "carousel videos" : "reels"} must be under ${Math.round(maxSize / (1024 * 1024))} MB`);
+    }
+
+    if (asset.duration !== undefined && (asset.duration < this.minVideoDuration || asset.duration > maxDuration)) {
+      errors.push(`${asset.filename}: Instagram ${isCarousel ? "carousel videos" : "reels"} must be ${this.minVideoDuration}–${maxDuration} seconds long`);
+    }
+
+    // Carousel items share the feed's frame; a reel can be any shape but is shown 9:16
+    this.validateAspectRatio(asset, isCarousel ? FEED_ASPECT_RATIO : REEL_ASPECT_RATIO, errors);
+  }
+
+  /**
+   * Only checked when the asset's dimensions are known
+   */
+  private validateAspectRatio(asset: MediaAsset, range: AspectRatioRange, errors: string[]): void {
+    if (!asset.width || !asset.height) {
+      return;
+    }
+
+    const ratio = asset.width / asset.height;
+    if (ratio < range.min || ratio > range.max) {
+      errors.push(`${asset.filename}: aspect ratio must be between ${range.label} for Instagram (it is ${asset.width}x${asset.height})`);
+    }
+  }
+
+  private getMediaFields(asset: MediaAsset, videoType: 'REELS' | 'VIDEO'): Record<string, string> {
+    if (asset.type === 'video') {
+      return { media_type: videoType, video_url: asset.url };
+    }
+    return { image_url: asset.url };
+  }
+
+  /**
+   * A container can only be published once Instagram has fetched and processed its media
+   */
+  private async waitForContainer(containerId: string, accessToken: string): Promise<void> {
+    for (let attempt = 0; attempt < this.containerPollAttempts; attempt++) {
+      const container = await this.graphGet<ContainerStatusResponse>(containerId, accessToken, 'status_code,status');
+
+      if (container.status_code === 'FINISHED' || container.status_code === 'PUBLISHED') {
+        return;
+      }
+      if (container.status_code === 'ERROR' || container.status_code === 'EXPIRED') {
+        throw new PublishError(
+          `Instagram could not process the media (${container.status_code}${container.status ? `: ${container.status}` : ""})`,
+          400
+        );
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.containerPollIntervalMs));
+    }
+
+    throw new PublishError("Instagram is still processing the media", 503);
+  }
+
+  /**
+   * The post is already live; a missing permalink shouldn't fail the publish
+   */
+  private async getPermalink(mediaId: string, accessToken: string): Promise<string | undefined> {
+    try {
+      const media = await this.graphGet<{ permalink?: string }>(mediaId, accessToken, 'permalink');
+      return media.permalink;
+    } catch (error) {
+      console.warn("Failed to get Instagram permalink:", error);
+      return undefined;
+    }
+  }
+
+  private async graphGet<T>(path: string, accessToken: string, fields: string): Promise<T> {
+    const params = new URLSearchParams({
+      fields,
+      access_token: accessToken,
+    });
+
+    const response = await fetch(`${this.baseUrl}/${this.apiVersion}/${path}?${params.toString()}`);
+
+    await this.ensureOk(response, `Instagram GET /${path}`);
+
+    return response.json();
+  }
+
+  private async graphPost(
+    path: string,
+    accessToken: string,
+    fields: Record<string, string>
+  ): Promise<GraphIdResponse> {
+    const params = new URLSearchParams({
+      ...fields,
+      access_token: accessToken,
+    });
+
+    const response = await fetch(`${this.baseUrl}/${this.apiVersion}/${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: params.toString(),
+    });
+
+    await this.ensureOk(response, `Instagram POST /${path}`);
+
+    return response.json();
+  }
+}
@@ -0,0 +1,152 @@
+import { SocialPlatform, AccountType } from "@/server/services/auth/base-auth-provider";
+import { type MediaAsset } from "@/server/services/content";
+import {
+  SocialPublisher,
+  PublishError,
+  type ContentValidationResult,
+  type OptimizedContent,
+  type PublishResult,
+  type PublishTarget
+} from "./base-publisher";
+
+interface LinkedInImageUploadResponse {
+  value: {
+    uploadUrl: string;
+    image: string;
+  };
+}
+
+export class LinkedInPublisher extends SocialPublisher {
+  private readonly apiVersion = "202405";
+  private readonly baseUrl = "https://api.linkedin.com/rest";
+  private readonly maxLength = 3000;
+  private readonly maxImages = 20;
+
+  constructor() {
+    super(SocialPlatform.LINKEDIN);
+  }
+
+  async publish(target: PublishTarget, content: OptimizedContent): Promise<PublishResult> {
+    const author = this.getAuthorUrn(target);
+    const accessToken = target.credentials.accessToken;
+
+    const imageUrns: string[] = [];
+    for (const asset of content.mediaAssets) {
+      imageUrns.push(await this.uploadImage(accessToken, author, asset));
+    }
+
+    const body: Record<string, any> = {
+      author,
+      commentary: this.formatCommentary(content.text),
+      visibility: 'PUBLIC',
+      distribution: {
+        feedDistribution: 'MAIN_FEED',
+        targetEntities: [],
+        thirdPartyDistributionChannels: [],
+      },
+      lifecycleState: 'PUBLISHED',
+      isReshareDisabledByAuthor: false,
+    };
+
+    if (imageUrns.length === 1) {
+      body.content = { media: { id: imageUrns[0] } };
+    } else if (imageUrns.length > 1) {
+      body.content = { multiImage: { images: imageUrns.map(id => ({ id })) } };
+    }
+
+    const response = await fetch(`${this.baseUrl}/posts`, {
+      method: 'POST',
+      headers: this.getHeaders(accessToken),
+      body: JSON.stringify(body),
+    });
+
+    await this.ensureOk(response, "Create LinkedIn post");
+
+    // LinkedIn returns the new post URN in a header rather than the body
+    const postUrn = response.headers.get('x-restli-id');
+    if (!postUrn) {
+      throw new PublishError("LinkedIn did not return a post id", response.status);
+    }
+
+    return {
+      platformPostId: postUrn,
+      url: `https://www.linkedin.com/feed/update/${postUrn}`,
+    };
+  }
+
+  validateContent(content: OptimizedContent): ContentValidationResult {
+    const errors: string[] = [];
+
+    if (!content.text.trim()) {
+      errors.push("LinkedIn posts need text");
+    }
+
+    if (content.text.length > this.maxLength) {
+      errors.push(`LinkedIn posts are limited to ${this.maxLength} characters`);
+    }
+
+    if (content.mediaAssets.length > this.maxImages) {
+      errors.push(`LinkedIn posts support at most ${this.maxImages} images`);
+    }
+
+    if (content.mediaAssets.some(asset => asset.type === 'video')) {
+      errors.push("Video uploads to LinkedIn are not supported yet");
+    }
+
+    return { isValid: errors.length === 0, errors };
+  }
+
+  /**
+   * Convert plain text to LinkedIn's "little text" commentary format.
+   * Reserved characters must be escaped or LinkedIn silently truncates the post,
+   * and hashtags need the hashtag template to render as links.
+   */
+  private formatCommentary(text: string): string {
+    return text
+      .replace(/[\\|{}@[\]()<>#*_~]/g, char => `\\${char}`)
+      .replace(
+        /(^|\s)\\#((?:[\p{L}\p{N}]|\\_)+)/gu,
+        (_match, prefix: string, tag: string) => `${prefix}{hashtag|\\#|${tag}}`
+      );
+  }
+
+  private getAuthorUrn(target: PublishTarget): string {
+    return target.accountType === AccountType.BUSINESS
+      ? `urn:li:organization:${target.platformAccountId}`
+      : `urn:li:person:${target.platformAccountId}`;
+  }
+
+  private getHeaders(accessToken: string): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+      'LinkedIn-Version': this.apiVersion,
+      'X-Restli-Protocol-Version': '2.0.0',
+    };
+  }
+
+  private async uploadImage(accessToken: string, owner: string, asset: MediaAsset): Promise<string> {
+    const initResponse = await fetch(`${this.baseUrl}/images?action=initializeUpload`, {
+      method: 'POST',
+      headers: this.getHeaders(accessToken),
+      body: JSON.stringify({ initializeUploadRequest: { owner } }),
+    });
+
+    await this.ensureOk(initResponse, "Initialize LinkedIn image upload");
+
+    const { value }: LinkedInImageUploadResponse = await initResponse.json();
+    const file = await this.fetchMedia(asset);
+
+    const uploadResponse = await fetch(value.uploadUrl, {
+      method: 'PUT',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+      body: file,
+    });
+
+    await this.ensureOk(uploadResponse, "Upload LinkedIn image");
+
+    return value.image;
+  }
+}
@@ -0,0 +1,195 @@
+import { SocialPlatform } from "@/server/services/auth/base-auth-provider";
+import { type MediaAsset } from "@/server/services/content";
+import {
+  SocialPublisher,
+  PublishError,
+  PartialPublishError,
+  type ContentValidationResult,
+  type OptimizedContent,
+  type PublishProgress,
+  type PublishResult,
+  type PublishTarget
+} from "./base-publisher";
+import { getTextLength, platformRules } from "./content-transformer";
+
+interface MastodonStatus {
+  id: string;
+  url: string | null;
+  uri: string;
+}
+
+interface MastodonMediaAttachment {
+  id: string;
+  url: string | null; // Null until the instance finishes processing the upload
+}
+
+export class MastodonPublisher extends SocialPublisher {
+  private readonly maxLength = platformRules[SocialPlatform.MASTODON].maxLength;
+  private readonly maxMedia = 4;
+  private readonly maxThreadLength = 25;
+  private readonly mediaPollIntervalMs = 1000;
+  private readonly mediaPollAttempts = 30;
+
+  constructor() {
+    super(SocialPlatform.MASTODON);
+  }
+
+  async publish(
+    target: PublishTarget,
+    content: OptimizedContent,
+    progress?: PublishProgress
+  ): Promise<PublishResult> {
+    const instanceUrl = this.getInstanceUrl(target);
+    const accessToken = target.credentials.accessToken;
+    const parts = content.thread && content.thread.length > 0 ? content.thread : [content.text];
+
+    // Resume after the parts an earlier attempt already published
+    const postIds = [...(progress?.threadPostIds ?? [])];
+    let firstPostUrl: string | undefined;
+
+    try {
+      for (let index = postIds.length; index < parts.length; index++) {
+        const mediaIds: string[] = [];
+        if (index === 0) {
+          for (const asset of content.mediaAssets) {
+            mediaIds.push(await this.uploadMedia(instanceUrl, accessToken, asset));
+          }
+        }
+
+        const status = await this.createStatus(instanceUrl, accessToken, parts[index]!, mediaIds, postIds[index - 1]);
+        if (index === 0) {
+          firstPostUrl = status.url ?? status.uri;
+        }
+        postIds.push(status.id);
+      }
+    } catch (error) {
+      if (postIds.length > 0) {
+        throw new PartialPublishError(error, postIds);
+      }
+      throw error;
+    }
+
+    return {
+      platformPostId: postIds[0]!,
+      url: firstPostUrl,
+      threadPostIds: parts.length > 1 ? postIds : undefined,
+      metadata: { instanceUrl },
+    };
+  }
+
+  validateContent(content: OptimizedContent): ContentValidationResult {
+    const errors: string[] = [];
+
+    if (!content.text.trim() && content.mediaAssets.length === 0) {
+      errors.push("Mastodon posts need text or media");
+    }
+
+    if (content.thread && content.thread.length > 0) {
+      if (content.thread.length > this.maxThreadLength) {
+        errors.push(`Mastodon threads are limited to ${this.maxThreadLength} posts`);
+      }
+
+      content.thread.forEach((part, index) => {
+        if (!part.trim()) {
+          errors.push(`Thread post ${index + 1} is empty`);
+        } else if (getTextLength(part, SocialPlatform.MASTODON) > this.maxLength) {
+          errors.push(`Thread post ${index + 1} is over the ${this.maxLength} character limit`);
+        }
+      });
+    } else if (getTextLength(content.text, SocialPlatform.MASTODON) > this.maxLength) {
+      errors.push(`Mastodon posts are limited to ${this.maxLength} characters`);
+    }
+
+    if (content.mediaAssets.length > this.maxMedia) {
+      errors.push(`Mastodon posts support at most ${this.maxMedia} media attachments`);
+    }
+
+    if (content.mediaAssets.some(asset => asset.type === 'video')) {
+      errors.push("Video uploads to Mastodon are not supported yet");
+    }
+
+    return { isValid: errors.length === 0, errors };
+  }
+
+  /**
+   * Each account posts through the instance it was connected on
+   */
+  private getInstanceUrl(target: PublishTarget): string {
+    const instanceUrl = target.credentials.platformMetadata.instanceUrl;
+    if (typeof instanceUrl !== 'string' || !instanceUrl) {
+      throw new PublishError("Mastodon account has no instance; please reconnect it", 400);
+    }
+    return instanceUrl;
+  }
+
+  private async createStatus(
+    instanceUrl: string,
+    accessToken: string,
+    text: string,
+    mediaIds: string[],
+    replyToId?: string
+  ): Promise<MastodonStatus> {
+    const body: Record<string, any> = { status: text, visibility: 'public' };
+    if (mediaIds.length > 0) {
+      body.media_ids = mediaIds;
+    }
+    if (replyToId) {
+      body.in_reply_to_id = replyToId;
+    }
+
+    const response = await fetch(`${instanceUrl}/api/v1/statuses`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify(body),
+    });
+
+    await this.ensureOk(response, "Create Mastodon post");
+
+    return response.json();
+  }
+
+  /**
+   * Upload an attachment and wait until the instance has processed it; statuses
+   * referencing unprocessed media are rejected
+   */
+  private async uploadMedia(instanceUrl: string, accessToken: string, asset: MediaAsset): Promise<string> {
+    const file = await this.fetchMedia(asset);
+
+    const form = new FormData();
+    form.append('file', file, asset.filename);
+
+    const response = await fetch(`${instanceUrl}/api/v2/media`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+      body: form,
+    });
+
+    await this.ensureOk(response, "Upload Mastodon media");
+
+    let media: MastodonMediaAttachment = await response.json();
+
+    for (let attempt = 0; !media.url && attempt < this.mediaPollAttempts; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, this.mediaPollIntervalMs));
+
+      const pollResponse = await fetch(`${instanceUrl}/api/v1/media/${media.id}`, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+        },
+      });
+
+      await this.ensureOk(pollResponse, "Check Mastodon media");
+      media = await pollResponse.json();
+    }
+
+    if (!media.url) {
+      throw new PublishError(`Mastodon is still processing ${asset.filename}`, 503);
+    }
+
+    return media.id;
+  }
+}
@@ -0,0 +1,893 @@
+import { type Prisma, type PrismaClient } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { SocialPlatform, AccountType } from "@/server/services/auth/base-auth-provider";
+import { CredentialAccessService } from "@/server/services/credential-access";
+import { ContentStatus, type MediaAsset } from "@/server/services/content";
+import { CampaignStatus, PublishStatus } from "@/server/services/statuses";
+import { SubscriptionService } from "@/server/services/subscription";
+import { getNextCollectionAt } from "@/server/services/analytics/collection-schedule";
+import {
+  SocialPublisher,
+  PartialPublishError,
+  type ContentValidationResult,
+  type OptimizedContent
+} from "./base-publisher";
+import { XPublisher } from "./x-publisher";
+import { FacebookPublisher } from "./facebook-publisher";
+import { LinkedInPublisher } from "./linkedin-publisher";
+import { MastodonPublisher } from "./mastodon-publisher";
+import { BlueskyPublisher } from "./bluesky-publisher";
+import { InstagramPublisher } from "./instagram-publisher";
+import { WebhookPublisher } from "./webhook-publisher";
+import {
+  extractHashtags,
+  getTextLength,
+  platformRules,
+  transformContent,
+  type TransformOptions
+} from "./content-transformer";
+import { buildThread } from "./thread-builder";
+import {
+  FailureKind,
+  classifyPublishFailure,
+  getDefaultRetryPolicy,
+  getRetryDelayMs,
+  shouldRetry
+} from "./retry-policy";
+
+export interface PublishOutcome {
+  publishedPostId: string;
+  socialAccountId: string;
+  platform: string;
+  status: PublishStatus;
+  platformPostId?: string;
+  url?: string;
+  error?: string;
+  retryAt?: Date;
+}
+
+export interface VariantOverride {
+  socialAccountId: string;
+  text: string;
+  mediaAssetIds?: string[]; // Subset of the content's media; defaults to the generated selection
+  link?: string | null; // null removes the generated link preview
+}
+
+export interface ContentVariantPreview {
+  socialAccountId: string;
+  platform: string;
+  displayName: string;
+  content: OptimizedContent;
+  characterCount: number;
+  characterLimit: number;
+  warnings: string[];
+  validation: ContentValidationResult;
+}
+
+export type Clock = () => Date;
+
+// Claimed posts that stay in flight longer than this are treated as interrupted
+const PUBLISHING_LEASE_MS = 15 * 60 * 1000;
+
+export class PublishingService {
+  private publishers: Map<SocialPlatform, SocialPublisher> = new Map();
+  private credentialAccess: CredentialAccessService;
+  private retryPolicy = getDefaultRetryPolicy();
+
+  constructor(
+    private db: PrismaClient,
+    private clock: Clock = () => new Date()
+  ) {
+    // Initialize publishers
+    this.publishers.set(SocialPlatform.FACEBOOK, new FacebookPublisher());
+    this.publishers.set(SocialPlatform.X, new XPublisher());
+    this.publishers.set(SocialPlatform.LINKEDIN, new LinkedInPublisher());
+    this.publishers.set(SocialPlatform.MASTODON, new MastodonPublisher());
+    this.publishers.set(SocialPlatform.BLUESKY, new BlueskyPublisher());
+    this.publishers.set(SocialPlatform.INSTAGRAM, new InstagramPublisher());
+    this.publishers.set(SocialPlatform.SLACK, new WebhookPublisher(SocialPlatform.SLACK));
+    this.publishers.set(SocialPlatform.DISCORD, new WebhookPublisher(SocialPlatform.DISCORD));
+    this.publishers.set(SocialPlatform.TEAMS, new WebhookPublisher(SocialPlatform.TEAMS));
+
+    this.credentialAccess = new CredentialAccessService(db);
+  }
+
+  /**
+   * Get a publisher for a specific platform
+   */
+  getPublisher(platform: SocialPlatform): SocialPublisher {
+    const publisher = this.publishers.get(platform);
+    if (!publisher) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `Publishing is not supported for platform: ${platform}`
+      });
+    }
+    return publisher;
+  }
+
+  /**
+   * Publish content to the given social accounts immediately
+   */
+  async publishNow(
+    workspaceId: string,
+    contentId: string,
+    accountIds: string[],
+    overrides: VariantOverride[] = [],
+    transformOptions: TransformOptions = {}
+  ): Promise<PublishOutcome[]> {
+    const content = await this.getPublishableContent(workspaceId, contentId);
+    const accounts = await this.getTargetAccounts(workspaceId, accountIds);
+    await this.assertWithinPostLimit(workspaceId, accounts.length);
+
+    const variants = this.buildVariants(content, accounts, overrides, transformOptions);
+
+    const posts = await Promise.all(
+      accounts.map(account =>
+        this.db.publishedPost.create({
+          data: {
+            contentId: content.id,
+            socialAccountId: account.id,
+            platform: account.platform,
+            platformOptimizedContent: variants.get(account.id) as unknown as Prisma.InputJsonValue,
+            status: PublishStatus.PUBLISHING,
+          }
+        })
+      )
+    );
+
+    return Promise.all(posts.map(post => this.publishPost(post.id)));
+  }
+
+  /**
+   * Schedule content for the given social accounts; the publishing worker picks it up when due
+   */
+  async schedulePost(
+    workspaceId: string,
+    contentId: string,
+    accountIds: string[],
+    scheduledFor: Date,
+    overrides: VariantOverride[] = [],
+    transformOptions: TransformOptions = {}
+  ) {
+    if (scheduledFor <= this.clock()) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Scheduled time must be in the future"
+      });
+    }
+
+    const content = await this.getPublishableContent(workspaceId, contentId);
+    const accounts = await this.getTargetAccounts(workspaceId, accountIds);
+    await this.assertWithinPostLimit(workspaceId, accounts.length);
+
+    const variants = this.buildVariants(content, accounts, overrides, transformOptions);
+
+    return this.db.$transaction(async (tx) => {
+      const status = await this.getQueuedStatus(tx, content.id);
+      const posts = [];
+
+      for (const account of accounts) {
+        posts.push(await tx.publishedPost.create({
+          data: {
+            contentId: content.id,
+            socialAccountId: account.id,
+            platform: account.platform,
+            platformOptimizedContent: variants.get(account.id) as unknown as Prisma.InputJsonValue,
+            scheduledFor,
+            status,
+          }
+        }));
+      }
+
+      return posts;
+    });
+  }
+
+  /**
+   * Generate the per-account variants of a piece of content so they can be reviewed before publishing
+   */
+  async previewVariants(
+    workspaceId: string,
+    contentId: string,
+    accountIds: string[],
+    transformOptions: TransformOptions = {}
+  ): Promise<ContentVariantPreview[]> {
+    const content = await this.getContent(workspaceId, contentId);
+    const accounts = await this.getTargetAccounts(workspaceId, accountIds);
+    const source = this.getTransformSource(content);
+
+    return accounts.map(account => {
+      const platform = account.platform as SocialPlatform;
+      const { content: variant, warnings } = transformContent(source, platform, transformOptions);
+
+      return {
+        socialAccountId: account.id,
+        platform: account.platform,
+        displayName: account.displayName,
+        content: variant,
+        characterCount: getTextLength(variant.text, platform),
+        characterLimit: platformRules[platform].maxLength,
+        warnings,
+        validation: this.getPublisher(platform).validateContent(variant),
+      };
+    });
+  }
+
+  /**
+   * Atomically claim due scheduled posts for this worker.
+   *
+   * Rows are locked with FOR UPDATE SKIP LOCKED and flipped to "publishing" in the same
+   * statement, so concurrent workers on other instances never claim the same post.
+   */
+  async claimDuePosts(limit: number): Promise<string[]> {
+    const now = this.clock();
+
+    const claimed = await this.db.$queryRaw<Array<{ id: string }>>`
+      UPDATE "PublishedPost"
+      SET "status" = ${PublishStatus.PUBLISHING}, "updatedAt" = ${now}
+      WHERE "id" IN (
+        SELECT "id" FROM "PublishedPost"
+        WHERE "status" = ${PublishStatus.PENDING}
+          AND "scheduledFor" <= ${now}
+        ORDER BY "scheduledFor" ASC
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING "id"
+    `;
+
+    return claimed.map(row => row.id);
+  }
+
+  /**
+   * Fail posts whose worker died mid-publish.
+   *
+   * We can't know whether the platform accepted the post, so these are marked failed
+   * instead of being retried automatically, which could double-post.
+   */
+  async releaseStalePosts(): Promise<number> {
+    const leaseExpiredBefore = new Date(this.clock().getTime() - PUBLISHING_LEASE_MS);
+
+    const result = await this.db.publishedPost.updateMany({
+      where: {
+        status: PublishStatus.PUBLISHING,
+        updatedAt: { lt: leaseExpiredBefore }
+      },
+      data: {
+        status: PublishStatus.FAILED,
+        errorMessage: "Publishing was interrupted before the platform confirmed the post"
+      }
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Publish a single PublishedPost row and record the outcome
+   */
+  async publishPost(publishedPostId: string): Promise<PublishOutcome> {
+    const post = await this.db.publishedPost.findUnique({
+      where: { id: publishedPostId },
+      include: { socialAccount: true }
+    });
+
+    if (!post) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Published post not found"
+      });
+    }
+
+    const outcome: PublishOutcome = {
+      publishedPostId: post.id,
+      socialAccountId: post.socialAccountId,
+      platform: post.platform,
+      status: PublishStatus.PUBLISHING,
+    };
+
+    try {
+      const publisher = this.getPublisher(post.platform as SocialPlatform);
+      const content = post.platformOptimizedContent as unknown as OptimizedContent;
+
+      const validation = publisher.validateContent(content);
+      if (!validation.isValid) {
+        throw new Error(validation.errors.join("; "));
+      }
+
+      const credentials = await this.credentialAccess.getValidCredentials(post.socialAccountId);
+      if (!credentials) {
+        throw new Error("Account credentials are expired or revoked. Please reconnect the account.");
+      }
+
+      const result = await publisher.publish(
+        {
+          accountId: post.socialAccountId,
+          platformAccountId: post.socialAccount.platformAccountId,
+          accountType: post.socialAccount.accountType as AccountType,
+          credentials,
+        },
+        content,
+        { threadPostIds: post.threadPostIds }
+      );
+
+      const publishedAt = this.clock();
+
+      await this.db.publishedPost.update({
+        where: { id: post.id },
+        data: {
+          status: PublishStatus.PUBLISHED,
+          platformPostId: result.platformPostId,
+          threadPostIds: result.threadPostIds ?? [],
+          deliveryResult: result.metadata ?? undefined,
+          publishedAt,
+          metricsDueAt: getNextCollectionAt(publishedAt, publishedAt),
+          errorMessage: null,
+        }
+      });
+
+      // The content counts as published as soon as one target succeeds
+      await this.db.content.update({
+        where: { id: post.contentId },
+        data: { status: ContentStatus.PUBLISHED }
+      });
+
+      return {
+        ...outcome,
+        status: PublishStatus.PUBLISHED,
+        platformPostId: result.platformPostId,
+        url: result.url,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to publish post ${post.id} to ${post.platform}:`, error);
+
+      const kind = classifyPublishFailure(error);
+
+      // Keep the thread parts that made it out so a retry continues the chain
+      const partialProgress = error instanceof PartialPublishError
+        ? { platformPostId: error.threadPostIds[0], threadPostIds: error.threadPostIds }
+        : {};
+
+      if (shouldRetry(kind, post.retryCount, this.retryPolicy)) {
+        const retryAt = new Date(
+          this.clock().getTime() + getRetryDelayMs(post.retryCount, this.retryPolicy)
+        );
+
+        // Hand the post back to the worker queue for another attempt
+        const status = await this.db.$transaction(async (tx) => {
+          const queuedStatus = await this.getQueuedStatus(tx, post.contentId);
+
+          await tx.publishedPost.update({
+            where: { id: post.id },
+            data: {
+              status: queuedStatus,
+              scheduledFor: retryAt,
+              retryCount: { increment: 1 },
+              errorMessage: message,
+              ...partialProgress,
+            }
+          });
+
+          return queuedStatus;
+        });
+
+        return {
+          ...outcome,
+          status,
+          error: message,
+          retryAt,
+        };
+      }
+
+      await this.db.publishedPost.update({
+        where: { id: post.id },
+        data: {
+          status: PublishStatus.FAILED,
+          errorMessage: kind === FailureKind.TRANSIENT
+            ? `Gave up after ${post.retryCount} retries: ${message}`
+            : message,
+          ...partialProgress,
+        }
+      });
+
+      return {
+        ...outcome,
+        status: PublishStatus.FAILED,
+        error: message,
+      };
+    }
+  }
+
+  /**
+   * List posts that ended in the terminal failed state
+   */
+  async getFailedPosts(workspaceId: string, limit: number, offset: number) {
+    const where = {
+      status: PublishStatus.FAILED,
+      socialAccount: { workspaceId }
+    };
+
+    const [posts, total] = await Promise.all([
+      this.db.publishedPost.findMany({
+        where,
+        include: {
+          content: {
+            select: {
+              id: true,
+              title: true
+            }
+          },
+          socialAccount: {
+            select: {
+              id: true,
+              platform: true,
+              displayName: true,
+              isActive: true
+            }
+          }
+        },
+        orderBy: { updatedAt: "desc" },
+        take: limit,
+        skip: offset
+      }),
+      this.db.publishedPost.count({ where })
+    ]);
+
+    return {
+      posts,
+      total,
+      hasMore: offset + limit < total
+    };
+  }
+
+  /**
+   * Requeue a failed post so the worker publishes it again right away
+   */
+  async retryFailedPost(workspaceId: string, publishedPostId: string) {
+    const post = await this.db.publishedPost.findFirst({
+      where: {
+        id: publishedPostId,
+        status: PublishStatus.FAILED,
+        socialAccount: { workspaceId }
+      },
+      select: { contentId: true }
+    });
+
+    const result = !post ? { count: 0 } : await this.db.$transaction(async (tx) =>
+      tx.publishedPost.updateMany({
+        where: {
+          id: publishedPostId,
+          status: PublishStatus.FAILED
+        },
+        data: {
+          status: await this.getQueuedStatus(tx, post.contentId),
+          scheduledFor: this.clock(),
+          retryCount: 0,
+          errorMessage: null,
+        }
+      })
+    );
+
+    if (result.count === 0) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Failed post not found"
+      });
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * List scheduled posts that haven't gone out yet, soonest first
+   */
+  async getUpcomingPosts(
+    workspaceId: string,
+    options: { socialAccountId?: string; limit: number; offset: number }
+  ) {
+    const where = {
+      status: { in: [PublishStatus.PENDING, PublishStatus.HELD] },
+      socialAccountId: options.socialAccountId,
+      socialAccount: { workspaceId }
+    };
+
+    const [posts, total] = await Promise.all([
+      this.db.publishedPost.findMany({
+        where,
+        include: {
+          content: {
+            select: {
+              id: true,
+              title: true
+            }
+          },
+          socialAccount: {
+            select: {
+              id: true,
+              platform: true,
+              displayName: true
+            }
+          }
+        },
+        orderBy: { scheduledFor: "asc" },
+        take: options.limit,
+        skip: options.offset
+      }),
+      this.db.publishedPost.count({ where })
+    ]);
+
+    return {
+      posts,
+      total,
+      hasMore: options.offset + options.limit < total
+    };
+  }
+
+  /**
+   * Move a scheduled post to a new time
+   */
+  async reschedulePost(workspaceId: string, publishedPostId: string, scheduledFor: Date) {
+    if (scheduledFor <= this.clock()) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Scheduled time must be in the future"
+      });
+    }
+
+    const post = await this.getEditablePost(workspaceId, publishedPostId, { allowPartialThread: true });
+    return this.updatePendingPost(post, { scheduledFor });
+  }
+
+  /**
+   * Point a scheduled post at a different account, regenerating the variant if the platform changes
+   */
+  async changePostAccount(workspaceId: string, publishedPostId: string, socialAccountId: string) {
+    const post = await this.getEditablePost(workspaceId, publishedPostId);
+    const account = (await this.getTargetAccounts(workspaceId, [socialAccountId]))[0]!;
+
+    // Hand edits only carry over within the same platform
+    const variant = account.platform === post.platform
+      ? post.platformOptimizedContent as unknown as OptimizedContent
+      : this.buildVariants(post.content, [account], [], {}).get(account.id)!;
+
+    return this.updatePendingPost(post, {
+      socialAccountId: account.id,
+      platform: account.platform,
+      platformOptimizedContent: variant as unknown as Prisma.InputJsonValue,
+    });
+  }
+
+  /**
+   * Replace the per-platform text of a scheduled post
+   */
+  async updatePostVariant(
+    workspaceId: string,
+    publishedPostId: string,
+    edit: Omit<VariantOverride, "socialAccountId">,
+    transformOptions?: TransformOptions
+  ) {
+    const post = await this.getEditablePost(workspaceId, publishedPostId);
+    const current = post.platformOptimizedContent as unknown as OptimizedContent;
+
+    // Keep the current media and link unless the edit replaces them
+    const override: VariantOverride = {
+      socialAccountId: post.socialAccountId,
+      text: edit.text,
+      mediaAssetIds: edit.mediaAssetIds ?? current.mediaAssets.map(asset => asset.id),
+      link: edit.link !== undefined ? edit.link : (current.link ?? null),
+    };
+
+    const variant = this.buildVariants(
+      post.content,
+      [post.socialAccount],
+      [override],
+      transformOptions ?? { splitThreads: Boolean(current.thread?.length) }
+    ).get(post.socialAccountId)!;
+
+    return this.updatePendingPost(post, {
+      platformOptimizedContent: variant as unknown as Prisma.InputJsonValue,
+    });
+  }
+
+  /**
+   * Cancel a scheduled post so the worker never publishes it
+   */
+  async cancelPost(workspaceId: string, publishedPostId: string) {
+    const post = await this.getEditablePost(workspaceId, publishedPostId, { allowPartialThread: true });
+    return this.updatePendingPost(post, { status: PublishStatus.CANCELLED });
+  }
+
+  /**
+   * Get publishing status for every target of a piece of content
+   */
+  async getContentPosts(workspaceId: string, contentId: string) {
+    await this.getContent(workspaceId, contentId);
+
+    return this.db.publishedPost.findMany({
+      where: { contentId },
+      include: {
+        socialAccount: {
+          select: {
+            id: true,
+            platform: true,
+            displayName: true
+          }
+        }
+      },
+      orderBy: { createdAt: "desc" }
+    });
+  }
+
+  /**
+   * Status for a post entering the worker queue: content in a paused campaign waits on hold
+   * until the campaign resumes.
+   *
+   * The content's campaigns stay locked until the caller's transaction ends, so write the
+   * post in the same transaction. Pausing updates the campaign row before holding its
+   * posts, so it either waits for that write or is seen here.
+   */
+  private async getQueuedStatus(tx: Prisma.TransactionClient, contentId: string): Promise<PublishStatus> {
+    const campaigns = await tx.$queryRaw<Array<{ status: string }>>`
+      SELECT "Campaign"."status" FROM "Campaign"
+      JOIN "CampaignContent" ON "CampaignContent"."campaignId" = "Campaign"."id"
+      WHERE "CampaignContent"."contentId" = ${contentId}
+      FOR SHARE OF "Campaign"
+    `;
+
+    return campaigns.some(campaign => campaign.status === CampaignStatus.PAUSED)
+      ? PublishStatus.HELD
+      : PublishStatus.PENDING;
+  }
+
+  private async getEditablePost(
+    workspaceId: string,
+    publishedPostId: string,
+    options: { allowPartialThread?: boolean } = {}
+  ) {
+    const post = await this.db.publishedPost.findFirst({
+      where: {
+        id: publishedPostId,
+        socialAccount: { workspaceId }
+      },
+      include: {
+        content: true,
+        socialAccount: true
+      }
+    });
+
+    if (!post) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Scheduled post not found"
+      });
+    }
+
+    if (post.status !== PublishStatus.PENDING && post.status !== PublishStatus.HELD) {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: `This post is ${post.status} and can no longer be changed`
+      });
+    }
+
+    // Part of a thread is already live, so its text and account are fixed
+    if (post.threadPostIds.length > 0 && !options.allowPartialThread) {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: "This thread is partially published and can only be rescheduled or cancelled"
+      });
+    }
+
+    return post;
+  }
+
+  /**
+   * Apply a change only if the post is still exactly as it was read. The worker claims posts by
+   * flipping their status, which also bumps updatedAt, so a claim in between makes this a no-op.
+   */
+  private async updatePendingPost(
+    post: { id: string; status: string; updatedAt: Date },
+    data: Prisma.PublishedPostUncheckedUpdateManyInput
+  ) {
+    const result = await this.db.publishedPost.updateMany({
+      where: {
+        id: post.id,
+        status: post.status,
+        updatedAt: post.updatedAt
+      },
+      data
+    });
+
+    if (result.count === 0) {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: "This post changed or started publishing while you were editing it. Refresh and try again."
+      });
+    }
+
+    return this.db.publishedPost.findUniqueOrThrow({
+      where: { id: post.id }
+    });
+  }
+
+  private async getContent(workspaceId: string, contentId: string) {
+    const content = await this.db.content.findFirst({
+      where: {
+        id: contentId,
+        workspaceId
+      }
+    });
+
+    if (!content) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Content not found or access denied"
+      });
+    }
+
+    return content;
+  }
+
+  private async getPublishableContent(workspaceId: string, contentId: string) {
+    const content = await this.getContent(workspaceId, contentId);
+
+    if (content.status === ContentStatus.ARCHIVED) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Archived content cannot be published"
+      });
+    }
+
+    return content;
+  }
+
+  private async getTargetAccounts(workspaceId: string, accountIds: string[]) {
+    const uniqueIds = Array.from(new Set(accountIds));
+
+    const accounts = await this.db.socialAccount.findMany({
+      where: {
+        id: { in: uniqueIds },
+        workspaceId,
+        isActive: true
+      }
+    });
+
+    if (accounts.length !== uniqueIds.length) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "One or more social accounts are not connected to this workspace"
+      });
+    }
+
+    return accounts;
+  }
+
+  private async assertWithinPostLimit(workspaceId: string, postCount: number): Promise<void> {
+    const workspace = await this.db.workspace.findUnique({
+      where: { id: workspaceId },
+      select: { ownerId: true }
+    });
+
+    if (!workspace) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Workspace not found"
+      });
+    }
+
+    // Monthly post limits belong to the workspace owner's plan
+    const subscriptionService = new SubscriptionService(this.db);
+    const usage = await subscriptionService.checkUsageLimit(workspace.ownerId, "monthlyPosts");
+
+    if (usage.current + postCount > usage.limit) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: `Monthly post limit reached (${usage.current}/${usage.limit}). Upgrade your subscription to publish more posts.`
+      });
+    }
+  }
+
+  private getTransformSource(content: {
+    rawContent: string;
+    aiEnhancedContent: string | null;
+    mediaAssets: Prisma.JsonValue;
+  }) {
+    return {
+      text: content.aiEnhancedContent || content.rawContent,
+      mediaAssets: (content.mediaAssets as unknown as MediaAsset[] | null) ?? [],
+    };
+  }
+
+  /**
+   * Build the variant stored for each target account, applying hand edits on top of the
+   * generated ones. Every variant is validated up front so a bad edit fails the request
+   * instead of failing later in the worker.
+   */
+  private buildVariants(
+    content: {
+      rawContent: string;
+      aiEnhancedContent: string | null;
+      mediaAssets: Prisma.JsonValue;
+    },
+    accounts: Array<{ id: string; platform: string; displayName: string }>,
+    overrides: VariantOverride[],
+    transformOptions: TransformOptions
+  ): Map<string, OptimizedContent> {
+    const source = this.getTransformSource(content);
+    const overridesByAccount = new Map(overrides.map(override => [override.socialAccountId, override]));
+    const variants = new Map<string, OptimizedContent>();
+
+    for (const override of overrides) {
+      if (!accounts.some(account => account.id === override.socialAccountId)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Edited variants must belong to one of the selected accounts"
+        });
+      }
+    }
+
+    for (const account of accounts) {
+      const platform = account.platform as SocialPlatform;
+      let variant = transformContent(source, platform, transformOptions).content;
+
+      const override = overridesByAccount.get(account.id);
+      if (override) {
+        variant = this.applyOverride(variant, source.mediaAssets, override, platform, transformOptions);
+      }
+
+      const validation = this.getPublisher(platform).validateContent(variant);
+      if (!validation.isValid) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `Content for ${account.displayName} (${account.platform}) is invalid: ${validation.errors.join("; ")}`
+        });
+      }
+
+      variants.set(account.id, variant);
+    }
+
+    return variants;
+  }
+
+  private applyOverride(
+    variant: OptimizedContent,
+    contentMedia: MediaAsset[],
+    override: VariantOverride,
+    platform: SocialPlatform,
+    transformOptions: TransformOptions
+  ): OptimizedContent {
+    let mediaAssets = variant.mediaAssets;
+
+    if (override.mediaAssetIds) {
+      mediaAssets = override.mediaAssetIds.map(id => {
+        const asset = contentMedia.find(media => media.id === id);
+        if (!asset) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Edited variants can only use media attached to the content"
+          });
+        }
+        return asset;
+      });
+    }
+
+    // Edited text is re-split so the thread always matches what the user wrote
+    const rules = platformRules[platform];
+    const thread = transformOptions.splitThreads && rules.supportsThreads
+      ? buildThread(override.text, {
+        platform,
+        maxLength: rules.maxLength,
+        numbering: transformOptions.numberThreads ?? false,
+      })
+      : [];
+
+    return {
+      text: override.text,
+      mediaAssets,
+      link: override.link === null ? undefined : (override.link ?? variant.link),
+      hashtags: extractHashtags(override.text),
+      thread: thread.length > 1 ? thread : undefined,
+      edited: true,
+    };
+  }
+}
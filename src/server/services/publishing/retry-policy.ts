@@ -0,0 +1,100 @@
+import { TRPCError } from "@trpc/server";
+import { env } from "@/env";
+import { PartialPublishError, PublishError } from "./base-publisher";
+
+export enum FailureKind {
+  TRANSIENT = "transient", // Rate limits, platform 5xx, network errors
+  PERMANENT = "permanent" // Revoked auth, rejected content
+}
+
+export interface RetryPolicyOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Retry settings from the environment
+ */
+export function getDefaultRetryPolicy(): RetryPolicyOptions {
+  return {
+    maxRetries: env.PUBLISH_MAX_RETRIES,
+    baseDelayMs: env.PUBLISH_RETRY_BASE_DELAY_MS,
+    maxDelayMs: env.PUBLISH_RETRY_MAX_DELAY_MS,
+  };
+}
+
+// Network-level error codes surfaced by Node's fetch (undici) in `error.cause.code`
+const TRANSIENT_NETWORK_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "ENOTFOUND",
+  "EPIPE",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_BODY_TIMEOUT",
+  "UND_ERR_SOCKET",
+]);
+
+/**
+ * Decide whether a failed publish is worth retrying
+ */
+export function classifyPublishFailure(error: unknown): FailureKind {
+  // A thread that broke part-way is as retryable as whatever broke it
+  if (error instanceof PartialPublishError) {
+    return classifyPublishFailure(error.cause);
+  }
+
+  if (error instanceof PublishError && error.status !== undefined) {
+    if (error.status === 408 || error.status === 429 || error.status >= 500) {
+      return FailureKind.TRANSIENT;
+    }
+    return FailureKind.PERMANENT;
+  }
+
+  // Token refresh surfaces platform failures as TRPCErrors
+  if (error instanceof TRPCError) {
+    return error.code === "TOO_MANY_REQUESTS" || error.code === "INTERNAL_SERVER_ERROR"
+      ? FailureKind.TRANSIENT
+      : FailureKind.PERMANENT;
+  }
+
+  // fetch() rejects with a TypeError when the request never got a response
+  if (error instanceof TypeError && error.message === "fetch failed") {
+    return FailureKind.TRANSIENT;
+  }
+
+  const code = (error as { cause?: { code?: string } } | null)?.cause?.code;
+  if (code && TRANSIENT_NETWORK_CODES.has(code)) {
+    return FailureKind.TRANSIENT;
+  }
+
+  return FailureKind.PERMANENT;
+}
+
+/**
+ * Exponential backoff with "equal jitter": half of the delay is fixed, the other half random,
+ * so retries from many posts failing together don't hit the platform at the same instant.
+ */
+export function getRetryDelayMs(
+  retryCount: number,
+  options: RetryPolicyOptions,
+  random: () => number = Math.random
+): number {
+  const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** retryCount);
+  const half = exponential / 2;
+  return Math.round(half + random() * half);
+}
+
+/**
+ * Whether a post that has already been retried `retryCount` times may be retried again
+ */
+export function shouldRetry(
+  kind: FailureKind,
+  retryCount: number,
+  options: RetryPolicyOptions
+): boolean {
+  return kind === FailureKind.TRANSIENT && retryCount < options.maxRetries;
+}
@@ -0,0 +1,113 @@
+import { type SocialPlatform } from "@/server/services/auth/base-auth-provider";
+import { getTextLength } from "./content-transformer";
+
+export interface ThreadOptions {
+  platform: SocialPlatform; // Decides how characters are counted
+  maxLength: number;
+  numbering: boolean; // Append "1/n" counters to each part
+}
+
+interface TextUnit {
+  text: string;
+  separator: string; // Joins this unit to the one before it
+}
+
+/**
+ * Split text into thread parts that each fit the platform's limit.
+ *
+ * Breaks at paragraph, then line, then sentence boundaries; words and characters are only
+ * split when a single sentence is longer than a whole post.
+ */
+export function buildThread(text: string, options: ThreadOptions): string[] {
+  const trimmed = text.trim();
+  const measure = (value: string) => getTextLength(value, options.platform);
+
+  if (measure(trimmed) <= options.maxLength) {
+    return [trimmed];
+  }
+
+  if (!options.numbering) {
+    return packUnits(trimmed, options.maxLength, measure);
+  }
+
+  // The counter's width depends on the part count, so repack until the reservation holds
+  let reserved = " 9/9".length;
+  let parts = packUnits(trimmed, options.maxLength - reserved, measure);
+  while (` ${parts.length}/${parts.length}`.length > reserved) {
+    reserved = ` ${parts.length}/${parts.length}`.length;
+    parts = packUnits(trimmed, options.maxLength - reserved, measure);
+  }
+
+  return parts.map((part, index) => `${part} ${index + 1}/${parts.length}`);
+}
+
+function packUnits(
+  text: string,
+  maxLength: number,
+  measure: (value: string) => number
+): string[] {
+  const parts: string[] = [];
+  let current = "";
+
+  for (const unit of splitUnits(text, maxLength, measure)) {
+    const candidate = current ? `${current}${unit.separator}${unit.text}` : unit.text;
+    if (measure(candidate) <= maxLength) {
+      current = candidate;
+      continue;
+    }
+
+    if (current) {
+      parts.push(current);
+    }
+    current = unit.text;
+  }
+
+  if (current) {
+    parts.push(current);
+  }
+
+  return parts;
+}
+
+/**
+ * Break text into the largest units that fit, each tagged with the separator it needs
+ */
+function splitUnits(
+  text: string,
+  maxLength: number,
+  measure: (value: string) => number
+): TextUnit[] {
+  const levels: Array<{ separator: string; split: (value: string) => string[] }> = [
+    { separator: "\n\n", split: value => value.split(/\n\s*\n/) },
+    { separator: "\n", split: value => value.split("\n") },
+    { separator: " ", split: splitSentences },
+    { separator: " ", split: value => value.split(/\s+/) },
+    { separator: "", split: value => Array.from(value) },
+  ];
+
+  const units: TextUnit[] = [];
+
+  const visit = (value: string, level: number, separator: string) => {
+    const pieces = levels[level]!.split(value)
+      .map(piece => piece.trim())
+      .filter(piece => piece.length > 0);
+
+    pieces.forEach((piece, index) => {
+      const pieceSeparator = index === 0 ? separator : levels[level]!.separator;
+
+      if (measure(piece) <= maxLength || level === levels.length - 1) {
+        units.push({ text: piece, separator: pieceSeparator });
+      } else {
+        visit(piece, level + 1, pieceSeparator);
+      }
+    });
+  };
+
+  visit(text, 0, "");
+  return units;
+}
+
+function splitSentences(text: string): string[] {
+  const segmenter = new Intl.Segmenter(undefined, { granularity: "sentence" });
+  return Array.from(segmenter.segment(text), ({ segment }) => segment);
+}
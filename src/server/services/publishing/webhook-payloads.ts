@@ -0,0 +1,112 @@
+// Incoming webhooks each take their own message format. Media goes in by URL, so only
+// images hosted at a public URL show up; chat products fetch them when rendering.
+
+import { SocialPlatform } from "@/server/services/auth/base-auth-provider";
+import { type WebhookPlatform } from "@/server/services/auth/webhook-channel-provider";
+import { type OptimizedContent } from "./base-publisher";
+
+// Slack's notification fallback text; the blocks carry the full message
+const SLACK_FALLBACK_LENGTH = 150;
+
+/**
+ * Slack only treats &, < and > specially in mrkdwn; plain URLs are linked automatically
+ */
+function escapeSlackText(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * A section block with the text, then an image block per image
+ */
+export function buildSlackPayload(content: OptimizedContent): Record<string, any> {
+  const blocks: Record<string, any>[] = [];
+  const images = content.mediaAssets.filter(asset => asset.type === "image");
+
+  if (content.text.trim()) {
+    blocks.push({
+      type: "section",
+      text: { type: "mrkdwn", text: escapeSlackText(content.text) },
+    });
+  }
+
+  for (const image of images) {
+    blocks.push({
+      type: "image",
+      image_url: image.url,
+      alt_text: image.filename,
+    });
+  }
+
+  const fallback = content.text.trim() || images[0]?.filename || "New post";
+
+  return {
+    text: fallback.length > SLACK_FALLBACK_LENGTH ? `${fallback.slice(0, SLACK_FALLBACK_LENGTH - 1)}…` : fallback,
+    blocks,
+    unfurl_links: true,
+  };
+}
+
+/**
+ * The text goes in an embed with the first image; further images are extra embeds sharing
+ * its url, which Discord shows together as a gallery
+ */
+export function buildDiscordPayload(content: OptimizedContent): Record<string, any> {
+  const images = content.mediaAssets.filter(asset => asset.type === "image");
+  const galleryUrl = content.link ?? images[0]?.url;
+
+  const embeds: Record<string, any>[] = [{
+    ...(content.text.trim() ? { description: content.text } : {}),
+    ...(galleryUrl ? { url: galleryUrl } : {}),
+    ...(images[0] ? { image: { url: images[0].url } } : {}),
+  }];
+
+  for (const image of images.slice(1)) {
+    embeds.push({ url: galleryUrl, image: { url: image.url } });
+  }
+
+  return {
+    embeds,
+    // Never let a post ping @everyone, roles or users
+    allowed_mentions: { parse: [] },
+  };
+}
+
+/**
+ * An Adaptive Card, which both Office 365 connectors and Workflows webhooks accept
+ */
+export function buildTeamsPayload(content: OptimizedContent): Record<string, any> {
+  const body: Record<string, any>[] = [];
+
+  if (content.text.trim()) {
+    body.push({ type: "TextBlock", text: content.text, wrap: true });
+  }
+
+  for (const image of content.mediaAssets.filter(asset => asset.type === "image")) {
+    body.push({ type: "Image", url: image.url, altText: image.filename, size: "Stretch" });
+  }
+
+  return {
+    type: "message",
+    attachments: [{
+      contentType: "application/vnd.microsoft.card.adaptive",
+      contentUrl: null,
+      content: {
+        $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+        type: "AdaptiveCard",
+        version: "1.4",
+        body,
+      },
+    }],
+  };
+}
+
+export function buildWebhookPayload(platform: WebhookPlatform, content: OptimizedContent): Record<string, any> {
+  switch (platform) {
+    case SocialPlatform.SLACK:
+      return buildSlackPayload(content);
+    case SocialPlatform.DISCORD:
+      return buildDiscordPayload(content);
+    case SocialPlatform.TEAMS:
+      return buildTeamsPayload(content);
+  }
+}
@@ -0,0 +1,106 @@
+import crypto from "crypto";
+import { SocialPlatform } from "@/server/services/auth/base-auth-provider";
+import { type WebhookPlatform } from "@/server/services/auth/webhook-channel-provider";
+import {
+  SocialPublisher,
+  type ContentValidationResult,
+  type OptimizedContent,
+  type PublishResult,
+  type PublishTarget
+} from "./base-publisher";
+import { platformRules } from "./content-transformer";
+import { buildWebhookPayload } from "./webhook-payloads";
+
+// Returned by Discord when the message is sent with ?wait=true
+interface DiscordMessage {
+  id: string;
+  channel_id: string;
+}
+
+const PRODUCT_NAMES: Record<WebhookPlatform, string> = {
+  [SocialPlatform.SLACK]: "Slack",
+  [SocialPlatform.DISCORD]: "Discord",
+  [SocialPlatform.TEAMS]: "Microsoft Teams",
+};
+
+/**
+ * Posts to a chat channel through its incoming webhook. The webhook URL is stored as the
+ * account's access token.
+ */
+export class WebhookPublisher extends SocialPublisher {
+  private readonly maxLength: number;
+  private readonly maxImages: number;
+  private readonly productName: string;
+
+  constructor(platform: WebhookPlatform) {
+    super(platform);
+    this.maxLength = platformRules[platform].maxLength;
+    this.maxImages = platformRules[platform].maxMedia;
+    this.productName = PRODUCT_NAMES[platform];
+  }
+
+  async publish(target: PublishTarget, content: OptimizedContent): Promise<PublishResult> {
+    const platform = this.platform as WebhookPlatform;
+    const webhookUrl = new URL(target.credentials.accessToken);
+
+    // Discord only returns the message it created when asked to wait for it
+    if (platform === SocialPlatform.DISCORD) {
+      webhookUrl.searchParams.set('wait', 'true');
+    }
+
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(buildWebhookPayload(platform, content)),
+    });
+
+    await this.ensureOk(response, `Post to ${this.productName} webhook`);
+
+    const delivery = {
+      statusCode: response.status,
+      deliveredAt: new Date().toISOString(),
+    };
+
+    if (platform === SocialPlatform.DISCORD) {
+      const message: DiscordMessage = await response.json();
+      const guildId = target.credentials.platformMetadata.guildId;
+
+      return {
+        platformPostId: message.id,
+        url: guildId ? `https://discord.com/channels/${guildId}/${message.channel_id}/${message.id}` : undefined,
+        metadata: { ...delivery, channelId: message.channel_id },
+      };
+    }
+
+    // Slack and Teams only acknowledge the delivery, so the post gets an id of our own
+    return {
+      platformPostId: `delivery-${crypto.randomUUID()}`,
+      metadata: { ...delivery, response: (await response.text()).slice(0, 200) },
+    };
+  }
+
+  validateContent(content: OptimizedContent): ContentValidationResult {
+    const errors: string[] = [];
+    const images = content.mediaAssets.filter(asset => asset.type === 'image');
+
+    if (!content.text.trim() && images.length === 0) {
+      errors.push(`${this.productName} messages need text or images`);
+    }
+
+    if (content.text.length > this.maxLength) {
+      errors.push(`${this.productName} messages are limited to ${this.maxLength} characters`);
+    }
+
+    if (images.length > this.maxImages) {
+      errors.push(`${this.productName} messages support at most ${this.maxImages} images`);
+    }
+
+    if (content.mediaAssets.some(asset => asset.type === 'video')) {
+      errors.push(`Videos can't be posted to ${this.productName} through a webhook`);
+    }
+
+    return { isValid: errors.length === 0, errors };
+  }
+}
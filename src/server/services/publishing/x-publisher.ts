@@ -0,0 +1,160 @@
+import { SocialPlatform } from "@/server/services/auth/base-auth-provider";
+import { type MediaAsset } from "@/server/services/content";
+import {
+  SocialPublisher,
+  PartialPublishError,
+  type ContentValidationResult,
+  type OptimizedContent,
+  type PublishProgress,
+  type PublishResult,
+  type PublishTarget
+} from "./base-publisher";
+import { getTextLength } from "./content-transformer";
+
+interface XCreateTweetResponse {
+  data: {
+    id: string;
+    text: string;
+  };
+}
+
+interface XMediaUploadResponse {
+  data: {
+    id: string;
+    media_key: string;
+  };
+}
+
+export class XPublisher extends SocialPublisher {
+  private readonly apiVersion = "2";
+  private readonly baseUrl = "https://api.twitter.com";
+  private readonly maxLength = 280;
+  private readonly maxMedia = 4;
+  private readonly maxThreadLength = 25;
+
+  constructor() {
+    super(SocialPlatform.X);
+  }
+
+  async publish(
+    target: PublishTarget,
+    content: OptimizedContent,
+    progress?: PublishProgress
+  ): Promise<PublishResult> {
+    const accessToken = target.credentials.accessToken;
+    const parts = content.thread && content.thread.length > 0 ? content.thread : [content.text];
+
+    // Resume after the parts an earlier attempt already published
+    const postIds = [...(progress?.threadPostIds ?? [])];
+
+    try {
+      for (let index = postIds.length; index < parts.length; index++) {
+        const mediaIds: string[] = [];
+        if (index === 0) {
+          for (const asset of content.mediaAssets) {
+            mediaIds.push(await this.uploadMedia(accessToken, asset));
+          }
+        }
+
+        postIds.push(await this.createPost(accessToken, parts[index]!, mediaIds, postIds[index - 1]));
+      }
+    } catch (error) {
+      if (postIds.length > 0) {
+        throw new PartialPublishError(error, postIds);
+      }
+      throw error;
+    }
+
+    const firstPostId = postIds[0]!;
+
+    return {
+      platformPostId: firstPostId,
+      url: `https://x.com/i/web/status/${firstPostId}`,
+      threadPostIds: parts.length > 1 ? postIds : undefined,
+    };
+  }
+
+  validateContent(content: OptimizedContent): ContentValidationResult {
+    const errors: string[] = [];
+
+    if (!content.text.trim() && content.mediaAssets.length === 0) {
+      errors.push("X posts need text or media");
+    }
+
+    if (content.thread && content.thread.length > 0) {
+      if (content.thread.length > this.maxThreadLength) {
+        errors.push(`X threads are limited to ${this.maxThreadLength} posts`);
+      }
+
+      content.thread.forEach((part, index) => {
+        if (!part.trim()) {
+          errors.push(`Thread post ${index + 1} is empty`);
+        } else if (getTextLength(part, SocialPlatform.X) > this.maxLength) {
+          errors.push(`Thread post ${index + 1} is over the ${this.maxLength} character limit`);
+        }
+      });
+    } else if (getTextLength(content.text, SocialPlatform.X) > this.maxLength) {
+      errors.push(`X posts are limited to ${this.maxLength} characters`);
+    }
+
+    if (content.mediaAssets.length > this.maxMedia) {
+      errors.push(`X posts support at most ${this.maxMedia} media attachments`);
+    }
+
+    if (content.mediaAssets.some(asset => asset.type === 'video')) {
+      errors.push("Video uploads to X are not supported yet");
+    }
+
+    return { isValid: errors.length === 0, errors };
+  }
+
+  private async createPost(
+    accessToken: string,
+    text: string,
+    mediaIds: string[],
+    replyToId?: string
+  ): Promise<string> {
+    const body: Record<string, any> = { text };
+    if (mediaIds.length > 0) {
+      body.media = { media_ids: mediaIds };
+    }
+    if (replyToId) {
+      body.reply = { in_reply_to_tweet_id: replyToId };
+    }
+
+    const response = await fetch(`${this.baseUrl}/${this.apiVersion}/tweets`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify(body),
+    });
+
+    await this.ensureOk(response, "Create X post");
+
+    const data: XCreateTweetResponse = await response.json();
+    return data.data.id;
+  }
+
+  private async uploadMedia(accessToken: string, asset: MediaAsset): Promise<string> {
+    const file = await this.fetchMedia(asset);
+
+    const form = new FormData();
+    form.append('media', file, asset.filename);
+    form.append('media_category', 'tweet_image');
+
+    const response = await fetch(`${this.baseUrl}/${this.apiVersion}/media/upload`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+      body: form,
+    });
+
+    await this.ensureOk(response, "Upload X media");
+
+    const data: XMediaUploadResponse = await response.json();
+    return data.data.id;
+  }
+}
@@ -0,0 +1,18 @@
+// Statuses shared by the campaign and publishing services. Kept free of imports so
+// either service can use the other's statuses without a circular dependency.
+
+export enum CampaignStatus {
+  DRAFT = "draft",
+  ACTIVE = "active",
+  PAUSED = "paused",
+  COMPLETED = "completed"
+}
+
+export enum PublishStatus {
+  PENDING = "pending",
+  HELD = "held", // Scheduled, but waiting on a paused campaign
+  PUBLISHING = "publishing",
+  PUBLISHED = "published",
+  FAILED = "failed",
+  CANCELLED = "cancelled"
+}
@@ -325,6 +325,20 @@ export class SubscriptionService {
     return this.planConfigs;
   }
 
+  /**
+   * Days of analytics history a user's plan keeps. Read-only: users without a
+   * subscription get the free plan's window without one being created.
+   */
+  async getAnalyticsRetention(userId: string): Promise<number> {
+    const subscription = await this.db.subscription.findUnique({
+      where: { userId },
+      select: { planId: true }
+    });
+
+    const limits = this.planConfigs[subscription?.planId as SubscriptionPlan] ?? this.planConfigs[SubscriptionPlan.FREE];
+    return limits.analyticsRetention;
+  }
+
   async isSubscriptionActive(userId: string): Promise<boolean> {
     const subscription = await this.getSubscription(userId);
     return subscription.status === SubscriptionStatus.ACTIVE || 
@@ -15,6 +15,96 @@ export enum WorkspaceRole {
   VIEWER = "viewer"
 }
 
+/**
+ * Check if a role has permission for a specific action
+ */
+export function hasPermission(role: WorkspaceRole, permission: WorkspacePermission): boolean {
+  const permissions = getPermissionsForRole(role);
+  return permissions.includes(permission);
+}
+
+export enum WorkspacePermission {
+  // Content permissions
+  CREATE_CONTENT = "create_content",
+  EDIT_CONTENT = "edit_content",
+  DELETE_CONTENT = "delete_content",
+  PUBLISH_CONTENT = "publish_content",
+
+  // Social account permissions
+  CONNECT_SOCIAL_ACCOUNTS = "connect_social_accounts",
+  DISCONNECT_SOCIAL_ACCOUNTS = "disconnect_social_accounts",
+
+  // Analytics permissions
+  VIEW_ANALYTICS = "view_analytics",
+  EXPORT_ANALYTICS = "export_analytics",
+
+  // Team management permissions
+  INVITE_MEMBERS = "invite_members",
+  REMOVE_MEMBERS = "remove_members",
+  MANAGE_ROLES = "manage_roles",
+
+  // Workspace management permissions
+  EDIT_WORKSPACE_SETTINGS = "edit_workspace_settings",
+  DELETE_WORKSPACE = "delete_workspace",
+  MANAGE_BILLING = "manage_billing",
+}
+
+function getPermissionsForRole(role: WorkspaceRole): WorkspacePermission[] {
+  switch (role) {
+    case WorkspaceRole.OWNER:
+      return [
+        // All permissions
+        WorkspacePermission.CREATE_CONTENT,
+        WorkspacePermission.EDIT_CONTENT,
+        WorkspacePermission.DELETE_CONTENT,
+        WorkspacePermission.PUBLISH_CONTENT,
+        WorkspacePermission.CONNECT_SOCIAL_ACCOUNTS,
+        WorkspacePermission.DISCONNECT_SOCIAL_ACCOUNTS,
+        WorkspacePermission.VIEW_ANALYTICS,
+        WorkspacePermission.EXPORT_ANALYTICS,
+        WorkspacePermission.INVITE_MEMBERS,
+        WorkspacePermission.REMOVE_MEMBERS,
+        WorkspacePermission.MANAGE_ROLES,
+        WorkspacePermission.EDIT_WORKSPACE_SETTINGS,
+        WorkspacePermission.DELETE_WORKSPACE,
+        WorkspacePermission.MANAGE_BILLING,
+      ];
+
+    case WorkspaceRole.ADMIN:
+      return [
+        WorkspacePermission.CREATE_CONTENT,
+        WorkspacePermission.EDIT_CONTENT,
+        WorkspacePermission.DELETE_CONTENT,
+        WorkspacePermission.PUBLISH_CONTENT,
+        WorkspacePermission.CONNECT_SOCIAL_ACCOUNTS,
+        WorkspacePermission.DISCONNECT_SOCIAL_ACCOUNTS,
+        WorkspacePermission.VIEW_ANALYTICS,
+        WorkspacePermission.EXPORT_ANALYTICS,
+        WorkspacePermission.INVITE_MEMBERS,
+        WorkspacePermission.REMOVE_MEMBERS,
+        WorkspacePermission.MANAGE_ROLES,
+        WorkspacePermission.EDIT_WORKSPACE_SETTINGS,
+      ];
+
+    case WorkspaceRole.MEMBER:
+      return [
+        WorkspacePermission.CREATE_CONTENT,
+        WorkspacePermission.EDIT_CONTENT,
+        WorkspacePermission.PUBLISH_CONTENT,
+        WorkspacePermission.CONNECT_SOCIAL_ACCOUNTS,
+        WorkspacePermission.VIEW_ANALYTICS,
+      ];
+
+    case WorkspaceRole.VIEWER:
+      return [
+        WorkspacePermission.VIEW_ANALYTICS,
+      ];
+
+    default:
+      return [];
+  }
+}
+
 export class WorkspaceService {
   constructor(private db: PrismaClient) { }
 
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { type PrismaClient } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { AnalyticsRetentionService } from "@/server/services/analytics/analytics-retention";
+
+const now = new Date("2026-03-20T15:30:00Z");
+const clock = () => now;
+
+// A workspace whose owner has no subscription, so the free plan's 30 days apply
+function createDb() {
+  const executed: Array<{ sql: string; values: unknown[] }> = [];
+  const db = {
+    workspace: {
+      findUnique: async () => ({ ownerId: "owner-1" }),
+    },
+    subscription: {
+      findUnique: async () => null,
+    },
+    $executeRaw: async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      executed.push({ sql: strings.join("?"), values });
+      return 4;
+    },
+  };
+
+  return { db: db as unknown as PrismaClient, executed };
+}
+
+describe("AnalyticsRetentionService.resolveDateRange", () => {
+  test("defaults to the retention window", async () => {
+    const { db } = createDb();
+    const service = new AnalyticsRetentionService(db, clock);
+
+    const range = await service.resolveDateRange("workspace-1", {});
+
+    assert.deepEqual(range, { startDate: new Date("2026-02-18T00:00:00Z"), endDate: now });
+  });
+
+  test("refuses a start date before the window", async () => {
+    const { db } = createDb();
+    const service = new AnalyticsRetentionService(db, clock);
+
+    await assert.rejects(
+      service.resolveDateRange("workspace-1", { startDate: new Date("2026-02-17T23:59:59Z") }),
+      (error: unknown) => error instanceof TRPCError && error.code === "FORBIDDEN"
+    );
+  });
+});
+
+describe("AnalyticsRetentionService.downsample", () => {
+  test("keeps each post's last snapshot per day for days older than a week", async () => {
+    const { db, executed } = createDb();
+    const service = new AnalyticsRetentionService(db, clock);
+    const earliest = new Date("2026-02-18T00:00:00Z");
+
+    const removed = await service.downsample("workspace-1", earliest);
+
+    assert.equal(removed, 4);
+    assert.equal(executed.length, 1);
+
+    const { sql, values } = executed[0]!;
+    assert.match(sql, /PARTITION BY a\."publishedPostId", date_trunc\('day', a\."collectedAt"\)/);
+    assert.match(sql, /ORDER BY a\."collectedAt" DESC/);
+    assert.match(sql, /WHERE "rank" > 1/);
+    // Only whole days that ended at least a week ago are thinned
+    assert.deepEqual(values, ["workspace-1", earliest, new Date("2026-03-13T00:00:00Z")]);
+  });
+});
@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { detectFacets } from "@/server/services/publishing/bluesky-facets";
+
+const DIDS: Record<string, string> = {
+  "alice.bsky.social": "did:plc:alice",
+};
+
+const resolveHandle = async (handle: string) => DIDS[handle] ?? null;
+
+describe("detectFacets", () => {
+  test("counts UTF-8 bytes, not UTF-16 code units, before a link", async () => {
+    // 🎉 is 4 bytes and each CJK character 3, so the link starts at byte 12
+    const facets = await detectFacets("🎉 日本 https://example.com", resolveHandle);
+
+    assert.deepEqual(facets, [{
+      index: { byteStart: 12, byteEnd: 31 },
+      features: [{ $type: "app.bsky.richtext.facet#link", uri: "https://example.com" }],
+    }]);
+  });
+
+  test("keeps a mention inside a link out of the facets", async () => {
+    const facets = await detectFacets("See https://example.com/(@alice.bsky.social) now", resolveHandle);
+
+    assert.deepEqual(facets, [{
+      index: { byteStart: 4, byteEnd: 43 },
+      features: [{ $type: "app.bsky.richtext.facet#link", uri: "https://example.com/(@alice.bsky.social" }],
+    }]);
+  });
+
+  test("leaves trailing punctuation out of a link", async () => {
+    const facets = await detectFacets("Read https://example.com/post. Or (https://example.com/other)!", resolveHandle);
+
+    assert.deepEqual(facets.map(facet => facet.features[0]), [
+      { $type: "app.bsky.richtext.facet#link", uri: "https://example.com/post" },
+      { $type: "app.bsky.richtext.facet#link", uri: "https://example.com/other" },
+    ]);
+  });
+
+  test("links resolved mentions and leaves unresolved handles as text", async () => {
+    const facets = await detectFacets("Thanks @Alice.bsky.social and @nobody.bsky.social", resolveHandle);
+
+    assert.deepEqual(facets, [{
+      index: { byteStart: 7, byteEnd: 25 },
+      features: [{ $type: "app.bsky.richtext.facet#mention", did: "did:plc:alice" }],
+    }]);
+  });
+
+  test("skips tags longer than 64 characters", async () => {
+    const longest = "a".repeat(64);
+    const facets = await detectFacets(`#${longest} #${"b".repeat(65)}`, resolveHandle);
+
+    assert.deepEqual(facets, [{
+      index: { byteStart: 0, byteEnd: 65 },
+      features: [{ $type: "app.bsky.richtext.facet#tag", tag: longest }],
+    }]);
+  });
+});
@@ -0,0 +1,149 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { type PrismaClient } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { CampaignService } from "@/server/services/campaign";
+import { CampaignStatus, PublishStatus } from "@/server/services/statuses";
+
+const now = new Date("2026-03-01T12:00:00Z");
+const clock = () => now;
+
+interface FakeCampaign {
+  id: string;
+  workspaceId: string;
+  status: CampaignStatus;
+  startDate: Date;
+  endDate: Date;
+}
+
+/**
+ * Just enough of Prisma for campaign transitions. Post updates are recorded rather than
+ * applied, and run inside $transaction so tests can tell they were part of it.
+ */
+function createDb(campaign: FakeCampaign, contentIds: string[]) {
+  const postUpdates: Array<{ where: any; data: any; inTransaction: boolean }> = [];
+  let inTransaction = false;
+
+  const client = {
+    campaign: {
+      findFirst: async () => ({ ...campaign, contents: [] }),
+      findUniqueOrThrow: async () => ({ ...campaign }),
+      findMany: async () => [{ id: campaign.id, status: campaign.status }],
+      updateMany: async ({ where, data }: { where: any; data: any }) => {
+        if (where.status && where.status !== campaign.status) {
+          return { count: 0 };
+        }
+        if (where.id === campaign.id) {
+          campaign.status = data.status;
+          return { count: 1 };
+        }
+        return { count: 0 };
+      },
+    },
+    campaignContent: {
+      findMany: async () => contentIds.map(contentId => ({ contentId })),
+    },
+    publishedPost: {
+      updateMany: async ({ where, data }: { where: any; data: any }) => {
+        postUpdates.push({ where, data, inTransaction });
+        return { count: 2 };
+      },
+    },
+    $transaction: async <T>(fn: (tx: unknown) => Promise<T>) => {
+      inTransaction = true;
+      try {
+        return await fn(client);
+      } finally {
+        inTransaction = false;
+      }
+    },
+  };
+
+  return { db: client as unknown as PrismaClient, postUpdates };
+}
+
+const createCampaign = (status: CampaignStatus): FakeCampaign => ({
+  id: "campaign-1",
+  workspaceId: "workspace-1",
+  status,
+  startDate: new Date("2026-02-01T00:00:00Z"),
+  endDate: new Date("2026-04-01T00:00:00Z"),
+});
+
+describe("CampaignService.changeStatus", () => {
+  test("pausing holds the campaign's scheduled posts in the same transaction", async () => {
+    const campaign = createCampaign(CampaignStatus.ACTIVE);
+    const { db, postUpdates } = createDb(campaign, ["content-1", "content-2"]);
+
+    await new CampaignService(db, clock).changeStatus("workspace-1", "campaign-1", CampaignStatus.PAUSED);
+
+    assert.equal(campaign.status, CampaignStatus.PAUSED);
+    assert.equal(postUpdates.length, 1);
+    assert.deepEqual(postUpdates[0], {
+      where: { contentId: { in: ["content-1", "content-2"] }, status: PublishStatus.PENDING },
+      data: { status: PublishStatus.HELD },
+      inTransaction: true,
+    });
+  });
+
+  test("resuming releases held posts not held by another paused campaign", async () => {
+    const campaign = createCampaign(CampaignStatus.PAUSED);
+    const { db, postUpdates } = createDb(campaign, ["content-1"]);
+
+    await new CampaignService(db, clock).changeStatus("workspace-1", "campaign-1", CampaignStatus.ACTIVE);
+
+    assert.equal(campaign.status, CampaignStatus.ACTIVE);
+    assert.equal(postUpdates.length, 1);
+    assert.equal(postUpdates[0]!.data.status, PublishStatus.PENDING);
+    assert.equal(postUpdates[0]!.where.status, PublishStatus.HELD);
+    assert.deepEqual(postUpdates[0]!.where.content, {
+      campaigns: { none: { campaign: { status: CampaignStatus.PAUSED } } },
+    });
+    assert.equal(postUpdates[0]!.inTransaction, true);
+  });
+
+  test("completing a paused campaign cancels what it was holding", async () => {
+    const campaign = createCampaign(CampaignStatus.PAUSED);
+    const { db, postUpdates } = createDb(campaign, ["content-1"]);
+
+    await new CampaignService(db, clock).changeStatus("workspace-1", "campaign-1", CampaignStatus.COMPLETED);
+
+    assert.equal(campaign.status, CampaignStatus.COMPLETED);
+    assert.equal(postUpdates[0]!.data.status, PublishStatus.CANCELLED);
+  });
+
+  test("refuses transitions out of completed", async () => {
+    const campaign = createCampaign(CampaignStatus.COMPLETED);
+    const { db, postUpdates } = createDb(campaign, ["content-1"]);
+
+    await assert.rejects(
+      new CampaignService(db, clock).changeStatus("workspace-1", "campaign-1", CampaignStatus.ACTIVE),
+      (error: unknown) => error instanceof TRPCError && error.code === "BAD_REQUEST"
+    );
+    assert.equal(postUpdates.length, 0);
+  });
+
+  test("refuses to activate a campaign whose end date has passed", async () => {
+    const campaign = { ...createCampaign(CampaignStatus.PAUSED), endDate: new Date("2026-03-01T00:00:00Z") };
+    const { db } = createDb(campaign, ["content-1"]);
+
+    await assert.rejects(
+      new CampaignService(db, clock).changeStatus("workspace-1", "campaign-1", CampaignStatus.ACTIVE),
+      (error: unknown) => error instanceof TRPCError && error.code === "BAD_REQUEST"
+    );
+    assert.equal(campaign.status, CampaignStatus.PAUSED);
+  });
+});
+
+describe("CampaignService.advanceLifecycle", () => {
+  test("completes ended campaigns and activates drafts that have started", async () => {
+    const campaign = { ...createCampaign(CampaignStatus.PAUSED), endDate: new Date("2026-03-01T00:00:00Z") };
+    const { db, postUpdates } = createDb(campaign, ["content-1"]);
+
+    const summary = await new CampaignService(db, clock).advanceLifecycle();
+
+    assert.equal(campaign.status, CampaignStatus.COMPLETED);
+    assert.equal(postUpdates[0]!.data.status, PublishStatus.CANCELLED);
+    assert.deepEqual(summary, { activated: 0, completed: 1, cancelledPosts: 2 });
+  });
+});
@@ -0,0 +1,31 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { getNextCollectionAt } from "@/server/services/analytics/collection-schedule";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const publishedAt = new Date("2026-03-01T12:00:00Z");
+const at = (ageMs: number) => new Date(publishedAt.getTime() + ageMs);
+
+describe("getNextCollectionAt", () => {
+  test("collects every 15 minutes for the first 6 hours", () => {
+    assert.deepEqual(getNextCollectionAt(publishedAt, publishedAt), at(15 * MINUTE_MS));
+    assert.deepEqual(getNextCollectionAt(publishedAt, at(6 * HOUR_MS - 1)), at(6 * HOUR_MS - 1 + 15 * MINUTE_MS));
+  });
+
+  test("collects hourly until 2 days old", () => {
+    assert.deepEqual(getNextCollectionAt(publishedAt, at(6 * HOUR_MS)), at(7 * HOUR_MS));
+    assert.deepEqual(getNextCollectionAt(publishedAt, at(47 * HOUR_MS)), at(48 * HOUR_MS));
+  });
+
+  test("collects daily until 30 days old", () => {
+    assert.deepEqual(getNextCollectionAt(publishedAt, at(2 * DAY_MS)), at(3 * DAY_MS));
+    assert.deepEqual(getNextCollectionAt(publishedAt, at(30 * DAY_MS - 1)), at(31 * DAY_MS - 1));
+  });
+
+  test("stops once the post is past the schedule", () => {
+    assert.equal(getNextCollectionAt(publishedAt, at(30 * DAY_MS)), null);
+  });
+});
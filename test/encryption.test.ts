@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { before, describe, test } from "node:test";
+import { decrypt, encrypt, getCiphertextKeyId, loadKeyring, needsReEncryption, reEncrypt, setKeyProvider } from "@/lib/encryption";
+import { DEFAULT_KEY_ID } from "@/lib/key-provider";
+
+const LEGACY_KEY = "legacy-test-key-of-at-least-32-characters";
+const CURRENT_KEY = "current-test-key-of-at-least-32-characters";
+
+// Written by encrypt() before envelopes existed: bare base64, ENCRYPTION_KEY = LEGACY_KEY
+const LEGACY_CIPHERTEXT = "7snXTl8aSaLQvigF09Qea6OsOga4kRYQ0kUSHkoyoudPGm2jCVnJa3wIlXQ9Cyt16PO0dkVEVvYJDStZQI+/MPKPTxmsTPyNuIudP28BddAjMBU=";
+
+/**
+ * Swap one part of a "<version>:<keyId>:<payload>" envelope
+ */
+function replacePart(ciphertext: string, part: 0 | 1 | 2, value: string): string {
+  const parts = ciphertext.split(":");
+  parts[part] = value;
+  return parts.join(":");
+}
+
+describe("encryption envelopes", () => {
+  before(async () => {
+    setKeyProvider({
+      name: "test",
+      loadKeyring: async () => ({
+        primaryKeyId: "2026-10",
+        keys: new Map([
+          ["2026-10", Buffer.from(CURRENT_KEY)],
+          // Same secret under another id, so only the authenticated header tells them apart
+          ["2026-10-copy", Buffer.from(CURRENT_KEY)],
+          [DEFAULT_KEY_ID, Buffer.from(LEGACY_KEY)],
+        ]),
+      }),
+    });
+    await loadKeyring();
+  });
+
+  test("decrypts ciphertexts written before envelopes", () => {
+    assert.equal(getCiphertextKeyId(LEGACY_CIPHERTEXT), DEFAULT_KEY_ID);
+    assert.equal(decrypt(LEGACY_CIPHERTEXT), "legacy-access-token");
+  });
+
+  test("round-trips v1 and v2 envelopes", () => {
+    const v1 = encrypt("access-token", "v1");
+    const v2 = encrypt("access-token");
+
+    assert.match(v1, /^v1:2026-10:/);
+    assert.match(v2, /^v2:2026-10:/);
+    assert.equal(decrypt(v1), "access-token");
+    assert.equal(decrypt(v2), "access-token");
+  });
+
+  test("rejects a ciphertext relabelled with another key id", () => {
+    for (const version of ["v1", "v2"] as const) {
+      const ciphertext = encrypt("access-token", version);
+
+      assert.throws(() => decrypt(replacePart(ciphertext, 1, "2026-10-copy")), /Failed to decrypt data/);
+    }
+  });
+
+  test("rejects a ciphertext relabelled with another version", () => {
+    assert.throws(() => decrypt(replacePart(encrypt("access-token", "v1"), 0, "v2")), /Failed to decrypt data/);
+    assert.throws(() => decrypt(replacePart(encrypt("access-token"), 0, "v1")), /Failed to decrypt data/);
+  });
+
+  test("rejects a tampered payload", () => {
+    const ciphertext = encrypt("access-token");
+    const payload = Buffer.from(ciphertext.split(":")[2]!, "base64");
+    payload[payload.length - 1]! ^= 1;
+
+    assert.throws(() => decrypt(replacePart(ciphertext, 2, payload.toString("base64"))), /Failed to decrypt data/);
+  });
+
+  test("re-encrypts legacy and v1 ciphertexts as v2 under the primary key", () => {
+    for (const ciphertext of [LEGACY_CIPHERTEXT, encrypt("legacy-access-token", "v1")]) {
+      assert.equal(needsReEncryption(ciphertext), true);
+
+      const reEncrypted = reEncrypt(ciphertext);
+
+      assert.match(reEncrypted, /^v2:2026-10:/);
+      assert.equal(needsReEncryption(reEncrypted), false);
+      assert.equal(decrypt(reEncrypted), "legacy-access-token");
+    }
+  });
+});
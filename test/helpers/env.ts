@@ -0,0 +1,7 @@
+/**
+ * Preloaded before every test file so `@/env` validates against its real
+ * schema (and applies its defaults) without a developer `.env`.
+ */
+process.env.DATABASE_URL ??= "postgresql://localhost:5432/gistreach_test";
+process.env.AUTH_DISCORD_ID ??= "test";
+process.env.AUTH_DISCORD_SECRET ??= "test";
@@ -0,0 +1,35 @@
+const REDIRECT_URI = "http://localhost:3000/api/auth/mastodon/callback";
+
+/**
+ * Go through a local Mastodon server's OAuth flow the way MastodonAuthProvider does
+ * and return the access token
+ */
+export async function getLocalAccessToken(instanceUrl: string): Promise<string> {
+  const app = await fetch(`${instanceUrl}/api/v1/apps`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ client_name: "Tests", redirect_uris: REDIRECT_URI, scopes: "read write" }),
+  }).then(response => response.json());
+
+  const authorize = await fetch(`${instanceUrl}/oauth/authorize?${new URLSearchParams({
+    client_id: app.client_id,
+    redirect_uri: REDIRECT_URI,
+    response_type: "code",
+    scope: "read write",
+  })}`, { redirect: "manual" });
+  const code = new URL(authorize.headers.get("location")!).searchParams.get("code");
+
+  const token = await fetch(`${instanceUrl}/oauth/token`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      grant_type: "authorization_code",
+      client_id: app.client_id,
+      client_secret: app.client_secret,
+      redirect_uri: REDIRECT_URI,
+      code,
+    }),
+  }).then(response => response.json());
+
+  return token.access_token;
+}
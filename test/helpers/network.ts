@@ -0,0 +1,15 @@
+import { createServer } from "node:net";
+
+/**
+ * Ask the OS for a port nothing is listening on
+ */
+export function getFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.once("error", reject);
+    server.listen(0, () => {
+      const address = server.address();
+      server.close(() => resolve(typeof address === "object" && address ? address.port : 0));
+    });
+  });
+}
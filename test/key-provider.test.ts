@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { type Server } from "node:http";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, test } from "node:test";
+import { decrypt, encrypt, getCiphertextKeyId, loadKeyring, setKeyProvider } from "@/lib/encryption";
+import { DEFAULT_KEY_ID, FileKeyProvider, KmsKeyProvider } from "@/lib/key-provider";
+import { startLocalKmsServer } from "@/lib/local-kms-server";
+import { getFreePort } from "./helpers/network";
+
+const KMS_TOKEN = "local-kms-token";
+
+describe("KmsKeyProvider against a local KMS", () => {
+  let server: Server;
+  let url: string;
+
+  before(async () => {
+    const port = await getFreePort();
+    url = `http://localhost:${port}`;
+    server = await startLocalKmsServer({ port, masterKey: crypto.randomBytes(32), token: KMS_TOKEN });
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  const createProvider = (kmsKeyId: string, wrappedKeys = "", primaryKeyId?: string) =>
+    new KmsKeyProvider({ url, token: KMS_TOKEN, kmsKeyId, wrappedKeys, primaryKeyId });
+
+  test("unwraps the data keys it generated", async () => {
+    const current = await createProvider("credentials").generateDataKey();
+    const previous = await createProvider("credentials").generateDataKey();
+
+    const keyring = await createProvider("credentials", `2026-10:${current},2025-08:${previous}`, "2026-10").loadKeyring();
+
+    assert.equal(keyring.primaryKeyId, "2026-10");
+    assert.deepEqual([...keyring.keys.keys()], ["2026-10", "2025-08"]);
+    assert.equal(keyring.keys.get("2026-10")!.length, 32);
+    assert.notDeepEqual(keyring.keys.get("2026-10"), keyring.keys.get("2025-08"));
+  });
+
+  test("encrypts and decrypts with the unwrapped key", async () => {
+    const wrapped = await createProvider("credentials").generateDataKey();
+    setKeyProvider(createProvider("credentials", `2026-10:${wrapped}`));
+    await loadKeyring();
+
+    const ciphertext = encrypt("access-token");
+
+    assert.equal(getCiphertextKeyId(ciphertext), "2026-10");
+    assert.equal(decrypt(ciphertext), "access-token");
+    assert.throws(() => decrypt(ciphertext.replace(":2026-10:", ":2027-01:")), /Failed to decrypt data/);
+  });
+
+  test("rejects a data key wrapped under another KMS key", async () => {
+    const wrapped = await createProvider("credentials").generateDataKey();
+
+    await assert.rejects(
+      createProvider("other", `2026-10:${wrapped}`).loadKeyring(),
+      /KMS decrypt failed: 400/
+    );
+  });
+
+  test("rejects a tampered data key", async () => {
+    const wrapped = Buffer.from(await createProvider("credentials").generateDataKey(), "base64");
+    wrapped[wrapped.length - 1]! ^= 1;
+
+    await assert.rejects(
+      createProvider("credentials", `2026-10:${wrapped.toString("base64")}`).loadKeyring(),
+      /KMS decrypt failed: 400/
+    );
+  });
+
+  test("rejects requests without the token", async () => {
+    const provider = new KmsKeyProvider({ url, kmsKeyId: "credentials", wrappedKeys: "" });
+
+    await assert.rejects(provider.generateDataKey(), /KMS generate-data-key failed: 401/);
+  });
+});
+
+describe("FileKeyProvider", () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "gistreach-keys-"));
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  test("reads a single key as the default key", async () => {
+    const file = path.join(directory, "key");
+    await writeFile(file, "a-single-key-of-at-least-32-characters\n");
+
+    const keyring = await new FileKeyProvider(file).loadKeyring();
+
+    assert.equal(keyring.primaryKeyId, DEFAULT_KEY_ID);
+    assert.equal(keyring.keys.get(DEFAULT_KEY_ID)!.toString("utf8"), "a-single-key-of-at-least-32-characters");
+  });
+
+  test("reads a JSON keyring", async () => {
+    const file = path.join(directory, "keys.json");
+    await writeFile(file, JSON.stringify({
+      primaryKeyId: "2026-10",
+      keys: { "2026-10": "current-key-of-at-least-32-characters", "2025-08": "previous-key-of-at-least-32-characters" },
+    }));
+
+    const keyring = await new FileKeyProvider(file).loadKeyring();
+
+    assert.equal(keyring.primaryKeyId, "2026-10");
+    assert.equal(keyring.keys.get("2025-08")!.toString("utf8"), "previous-key-of-at-least-32-characters");
+  });
+
+  test("rejects a primary key the file doesn't contain", async () => {
+    const file = path.join(directory, "missing-primary.json");
+    await writeFile(file, JSON.stringify({ primaryKeyId: "2027-01", keys: { "2026-10": "current-key-of-at-least-32-characters" } }));
+
+    await assert.rejects(new FileKeyProvider(file).loadKeyring(), /Primary encryption key "2027-01"/);
+  });
+});
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { type Server } from "node:http";
+import { after, before, describe, test } from "node:test";
+import { startLocalMastodonServer, type LocalMastodonState } from "@/lib/local-mastodon-server";
+import { AccountType } from "@/server/services/auth/base-auth-provider";
+import { MastodonPublisher } from "@/server/services/publishing/mastodon-publisher";
+import { type PublishTarget } from "@/server/services/publishing/base-publisher";
+import { getLocalAccessToken } from "./helpers/mastodon";
+import { getFreePort } from "./helpers/network";
+
+function createTarget(instanceUrl: string, accessToken: string): PublishTarget {
+  return {
+    accountId: "account-1",
+    platformAccountId: "1",
+    accountType: AccountType.PERSONAL,
+    credentials: {
+      accessToken,
+      platformAccountId: "1",
+      displayName: "Local tester",
+      permissions: [],
+      platformMetadata: { instanceUrl },
+    },
+  };
+}
+
+describe("MastodonPublisher against a local server", () => {
+  let server: Server;
+  let state: LocalMastodonState;
+  let instanceUrl: string;
+
+  before(async () => {
+    const port = await getFreePort();
+    instanceUrl = `http://localhost:${port}`;
+    ({ server, state } = await startLocalMastodonServer({ port }));
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  test("publishes a thread as a reply chain", async () => {
+    const publisher = new MastodonPublisher();
+    const result = await publisher.publish(createTarget(instanceUrl, await getLocalAccessToken(instanceUrl)), {
+      text: "First",
+      thread: ["First", "Second", "Third"],
+      mediaAssets: [],
+    });
+
+    const statuses = state.statuses.filter(status => result.threadPostIds?.includes(status.id));
+    assert.deepEqual(statuses.map(status => status.content), ["First", "Second", "Third"]);
+    assert.equal(statuses[0]!.inReplyToId, null);
+    assert.equal(statuses[1]!.inReplyToId, statuses[0]!.id);
+    assert.equal(statuses[2]!.inReplyToId, statuses[1]!.id);
+    assert.equal(result.platformPostId, statuses[0]!.id);
+    assert.equal(result.url, `${instanceUrl}/@tester/${statuses[0]!.id}`);
+  });
+
+  test("rejects an invalid access token", async () => {
+    const publisher = new MastodonPublisher();
+
+    await assert.rejects(publisher.publish(createTarget(instanceUrl, "not-a-token"), { text: "Hello", mediaAssets: [] }));
+  });
+});
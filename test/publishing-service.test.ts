@@ -0,0 +1,207 @@
+import assert from "node:assert/strict";
+import { type Server } from "node:http";
+import { after, before, beforeEach, describe, test } from "node:test";
+import { type PrismaClient } from "@prisma/client";
+import { setKeyProvider } from "@/lib/encryption";
+import { startLocalMastodonServer } from "@/lib/local-mastodon-server";
+import { AccountType, SocialPlatform } from "@/server/services/auth/base-auth-provider";
+import { CredentialService } from "@/server/services/credential";
+import { PublishingService } from "@/server/services/publishing/publishing-service";
+import { CampaignStatus, PublishStatus } from "@/server/services/statuses";
+import { startTestDatabase, type TestDatabase } from "./helpers/database";
+import { getLocalAccessToken } from "./helpers/mastodon";
+import { getFreePort } from "./helpers/network";
+
+const now = new Date("2026-03-01T12:00:00Z");
+const clock = () => now;
+
+setKeyProvider({
+  name: "test",
+  loadKeyring: async () => ({ primaryKeyId: "test", keys: new Map([["test", Buffer.from("publishing-test-key")]]) }),
+});
+
+describe("PublishingService against Postgres", () => {
+  let database: TestDatabase;
+  let db: PrismaClient;
+  let mastodon: Server;
+  let instanceUrl: string;
+  let workspaceId: string;
+  let contentId: string;
+  let socialAccountId: string;
+
+  before(async () => {
+    database = await startTestDatabase();
+    db = database.createClient();
+
+    const port = await getFreePort();
+    instanceUrl = `http://localhost:${port}`;
+    ({ server: mastodon } = await startLocalMastodonServer({ port }));
+
+    const user = await db.user.create({ data: { email: "owner@example.com" } });
+    const workspace = await db.workspace.create({
+      data: { name: "Tests", slug: "tests", ownerId: user.id }
+    });
+    const content = await db.content.create({
+      data: { workspaceId: workspace.id, createdById: user.id, type: "text", title: "Launch", rawContent: "We launched" }
+    });
+    workspaceId = workspace.id;
+    contentId = content.id;
+
+    const account = await new CredentialService(db).storeCredentials(workspace.id, SocialPlatform.MASTODON, AccountType.PERSONAL, {
+      accessToken: await getLocalAccessToken(instanceUrl),
+      platformAccountId: "1",
+      displayName: "Local tester",
+      permissions: ["write:statuses"],
+      platformMetadata: { instanceUrl },
+    });
+    socialAccountId = account.id;
+  });
+
+  after(async () => {
+    mastodon.close();
+    await database.stop();
+  });
+
+  beforeEach(async () => {
+    await db.publishedPost.deleteMany();
+  });
+
+  const createPost = (scheduledFor: Date, status = PublishStatus.PENDING) => db.publishedPost.create({
+    data: {
+      contentId,
+      socialAccountId,
+      platform: SocialPlatform.MASTODON,
+      platformOptimizedContent: { text: "We launched", mediaAssets: [] },
+      scheduledFor,
+      status,
+    },
+    select: { id: true }
+  });
+
+  test("concurrent workers never claim the same post", async () => {
+    const due: string[] = [];
+    for (let index = 0; index < 30; index++) {
+      due.push((await createPost(new Date(now.getTime() - index * 60 * 1000))).id);
+    }
+    const future = await createPost(new Date(now.getTime() + 60 * 1000));
+    const failed = await createPost(new Date(now.getTime() - 60 * 1000), PublishStatus.FAILED);
+
+    // One client per worker, so each claim runs on its own connection
+    const workers = [0, 1, 2].map(() => new PublishingService(database.createClient(), clock));
+
+    const claims: string[][] = [];
+    while (true) {
+      const round = await Promise.all(workers.map(worker => worker.claimDuePosts(4)));
+      if (round.every(ids => ids.length === 0)) break;
+      claims.push(...round);
+    }
+
+    const claimed = claims.flat();
+    assert.equal(new Set(claimed).size, claimed.length, "a post was claimed twice");
+    assert.deepEqual([...claimed].sort(), [...due].sort());
+    assert.ok(!claimed.includes(future.id) && !claimed.includes(failed.id));
+
+    const statuses = await db.publishedPost.groupBy({ by: ["status"], _count: true, orderBy: { status: "asc" } });
+    assert.deepEqual(statuses.map(row => [row.status, row._count]), [
+      [PublishStatus.FAILED, 1],
+      [PublishStatus.PENDING, 1],
+      [PublishStatus.PUBLISHING, 30],
+    ]);
+  });
+
+  test("fails posts left publishing past the lease", async () => {
+    const stale = await createPost(new Date(now.getTime() - 60 * 60 * 1000), PublishStatus.PUBLISHING);
+    await db.publishedPost.update({ where: { id: stale.id }, data: { updatedAt: new Date(now.getTime() - 16 * 60 * 1000) } });
+    const fresh = await createPost(new Date(now.getTime() - 60 * 1000), PublishStatus.PUBLISHING);
+    await db.publishedPost.update({ where: { id: fresh.id }, data: { updatedAt: new Date(now.getTime() - 5 * 60 * 1000) } });
+
+    const released = await new PublishingService(db, clock).releaseStalePosts();
+
+    assert.equal(released, 1);
+    const posts = await db.publishedPost.findMany({ select: { id: true, status: true } });
+    assert.deepEqual(
+      Object.fromEntries(posts.map(post => [post.id, post.status])),
+      { [stale.id]: PublishStatus.FAILED, [fresh.id]: PublishStatus.PUBLISHING }
+    );
+  });
+
+  test("publishPost records a successful publish", async () => {
+    const post = await createPost(now);
+    const service = new PublishingService(db, clock);
+    const [claimedId] = await service.claimDuePosts(1);
+    assert.equal(claimedId, post.id);
+
+    const outcome = await service.publishPost(post.id);
+
+    assert.equal(outcome.status, PublishStatus.PUBLISHED);
+    const stored = await db.publishedPost.findUniqueOrThrow({ where: { id: post.id } });
+    assert.equal(stored.status, PublishStatus.PUBLISHED);
+    assert.equal(stored.platformPostId, outcome.platformPostId);
+    assert.deepEqual(stored.publishedAt, now);
+    assert.deepEqual(stored.metricsDueAt, new Date(now.getTime() + 15 * 60 * 1000));
+    assert.equal(stored.errorMessage, null);
+
+    const content = await db.content.findUniqueOrThrow({ where: { id: contentId } });
+    assert.equal(content.status, "published");
+  });
+
+  // Point the account at a port nothing listens on, so publishing fails transiently
+  const withUnreachableInstance = async (run: () => Promise<void>) => {
+    const account = await db.socialAccount.findUniqueOrThrow({ where: { id: socialAccountId } });
+    await db.socialAccount.update({
+      where: { id: socialAccountId },
+      data: { platformMetadata: { instanceUrl: `http://localhost:${await getFreePort()}` } }
+    });
+
+    try {
+      await run();
+    } finally {
+      await db.socialAccount.update({
+        where: { id: socialAccountId },
+        data: { platformMetadata: account.platformMetadata ?? {} }
+      });
+    }
+  };
+
+  test("publishPost requeues a post when the instance is unreachable", async () => {
+    const post = await createPost(now);
+
+    await withUnreachableInstance(async () => {
+      const outcome = await new PublishingService(db, clock).publishPost(post.id);
+
+      const stored = await db.publishedPost.findUniqueOrThrow({ where: { id: post.id } });
+      assert.equal(stored.status, PublishStatus.PENDING);
+      assert.equal(stored.retryCount, 1);
+      assert.ok(stored.scheduledFor! > now);
+      assert.deepEqual(stored.scheduledFor, outcome.retryAt);
+      assert.ok(stored.errorMessage);
+    });
+  });
+
+  test("publishPost holds a requeued post while its campaign is paused", async () => {
+    const post = await createPost(now);
+    const campaign = await db.campaign.create({
+      data: {
+        workspaceId,
+        name: "Launch week",
+        startDate: new Date("2026-02-01T00:00:00Z"),
+        endDate: new Date("2026-04-01T00:00:00Z"),
+        status: CampaignStatus.PAUSED,
+        contents: { create: { contentId } },
+      }
+    });
+
+    try {
+      await withUnreachableInstance(async () => {
+        const outcome = await new PublishingService(db, clock).publishPost(post.id);
+
+        const stored = await db.publishedPost.findUniqueOrThrow({ where: { id: post.id } });
+        assert.equal(outcome.status, PublishStatus.HELD);
+        assert.equal(stored.status, PublishStatus.HELD);
+        assert.equal(stored.retryCount, 1);
+      });
+    } finally {
+      await db.campaign.delete({ where: { id: campaign.id } });
+    }
+  });
+});